@@ -3,11 +3,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/NotFound";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
+import CommandPalette from "./components/CommandPalette";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
 import Search from "./pages/Search";
 import Library from "./pages/Library";
 import Profile from "./pages/Profile";
+import Playlist from "./pages/Playlist";
+import LibraryPlaylist from "./pages/LibraryPlaylist";
+import SharedPlaylist from "./pages/SharedPlaylist";
+import Artist from "./pages/Artist";
 import Login from "@/pages/Login";
 
 function Router() {
@@ -16,7 +21,11 @@ function Router() {
       <Route path={"/"} component={Home} />
       <Route path={"/search"} component={Search} />
       <Route path={"/library"} component={Library} />
+      <Route path={"/library/playlist/:id"} component={LibraryPlaylist} />
       <Route path={"/profile"} component={Profile} />
+      <Route path={"/playlist/:id"} component={Playlist} />
+      <Route path={"/p/:slug"} component={SharedPlaylist} />
+      <Route path={"/artist/:id"} component={Artist} />
       <Route path={"/404"} component={NotFound} />
       <Route path="/login" component={Login} />
       <Route component={NotFound} />
@@ -36,6 +45,7 @@ function App() {
             }}
           />
           <Router />
+          <CommandPalette />
         </TooltipProvider>
       </ThemeProvider>
     </ErrorBoundary>
@@ -0,0 +1,330 @@
+import { useEffect, useState } from "react";
+import { ListMusic, ListPlus, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+} from "@/components/ui/context-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { getTrackData, getTrackRef, Track } from "@/contexts/MusicPlayerContext";
+
+// Одни и те же пункты рисуются и в выпадающем, и в контекстном меню
+export const MENU_PRIMITIVES = {
+  dropdown: {
+    Item: DropdownMenuItem,
+    Separator: DropdownMenuSeparator,
+    Sub: DropdownMenuSub,
+    SubTrigger: DropdownMenuSubTrigger,
+    SubContent: DropdownMenuSubContent,
+  },
+  context: {
+    Item: ContextMenuItem,
+    Separator: ContextMenuSeparator,
+    Sub: ContextMenuSub,
+    SubTrigger: ContextMenuSubTrigger,
+    SubContent: ContextMenuSubContent,
+  },
+};
+
+export type MenuKind = keyof typeof MENU_PRIMITIVES;
+
+// Не больше стольких треков за один запрос playlists.addTracks
+const BULK_ADD_LIMIT = 200;
+
+function toTrackInputs(tracks: Track[]) {
+  return tracks.map(track => ({ soundcloudId: getTrackRef(track), trackData: getTrackData(track) }));
+}
+
+/**
+ * Добавление треков в плейлисты с уведомлениями.
+ * Одиночный трек, уже лежащий в плейлисте, не добавляется без подтверждения.
+ * Запросы идут через vanilla-клиент: меню закрывается (и размонтируется) раньше, чем они завершатся
+ */
+export function useAddToPlaylist() {
+  const utils = trpc.useUtils();
+
+  const refresh = (playlistId: number) => {
+    utils.playlists.get.invalidate({ playlistId });
+    utils.playlists.list.invalidate();
+  };
+
+  const addTrack = async (playlistId: number, name: string, track: Track, allowDuplicate = false) => {
+    try {
+      const result = await utils.client.playlists.addTrack.mutate({
+        playlistId,
+        soundcloudId: getTrackRef(track),
+        trackData: getTrackData(track),
+        allowDuplicate,
+      });
+      if (!result.success) {
+        toast.info(`Трек уже есть в «${name}»`, {
+          action: { label: "Добавить ещё раз", onClick: () => addTrack(playlistId, name, track, true) },
+        });
+        return;
+      }
+      refresh(playlistId);
+      toast.success(`Добавлено в «${name}»`);
+    } catch (error) {
+      toast.error("Не удалось добавить трек в плейлист");
+    }
+  };
+
+  const addTracks = async (playlistId: number, name: string, tracks: Track[]) => {
+    if (tracks.length === 1) return addTrack(playlistId, name, tracks[0]);
+    try {
+      let added = 0;
+      let skipped = 0;
+      for (let i = 0; i < tracks.length; i += BULK_ADD_LIMIT) {
+        const result = await utils.client.playlists.addTracks.mutate({
+          playlistId,
+          tracks: toTrackInputs(tracks.slice(i, i + BULK_ADD_LIMIT)),
+        });
+        added += result.added;
+        skipped += result.skipped;
+      }
+      refresh(playlistId);
+      toast.success(
+        skipped > 0
+          ? `Добавлено в «${name}»: ${added}, уже были в плейлисте: ${skipped}`
+          : `Добавлено в «${name}»: ${added}`
+      );
+    } catch (error) {
+      toast.error("Не удалось добавить треки в плейлист");
+    }
+  };
+
+  // Возвращает id созданного плейлиста, null - если не получилось
+  const createWithTracks = async (name: string, tracks: Track[]): Promise<number | null> => {
+    try {
+      const playlist = await utils.client.playlists.create.mutate({ name, isPublic: false });
+      for (let i = 0; i < tracks.length; i += BULK_ADD_LIMIT) {
+        await utils.client.playlists.addTracks.mutate({
+          playlistId: playlist.id,
+          tracks: toTrackInputs(tracks.slice(i, i + BULK_ADD_LIMIT)),
+        });
+      }
+      refresh(playlist.id);
+      toast.success(`Создан плейлист «${name}»`);
+      return playlist.id;
+    } catch (error) {
+      toast.error("Не удалось создать плейлист");
+      return null;
+    }
+  };
+
+  return { addTracks, createWithTracks };
+}
+
+interface PlaylistMenuItemsProps {
+  menu: MenuKind;
+  tracks: Track[];
+  onCreateNew: () => void;
+}
+
+// Список плейлистов пользователя + «Новый плейлист…»
+function PlaylistMenuItems({ menu, tracks, onCreateNew }: PlaylistMenuItemsProps) {
+  const { Item, Separator } = MENU_PRIMITIVES[menu];
+  const { isAuthenticated } = useAuth();
+  const { addTracks } = useAddToPlaylist();
+  const { data, isLoading } = trpc.playlists.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+  });
+  // Нельзя добавлять в совместные плейлисты, где пользователь только слушатель,
+  // и в умные - их треки подбирают правила
+  const playlists = data?.filter(p => p.role !== "viewer" && !p.smartRules);
+
+  if (!isAuthenticated) {
+    return (
+      <Item onSelect={() => toast.error("Войдите, чтобы создавать плейлисты")}>
+        Войдите, чтобы создавать плейлисты
+      </Item>
+    );
+  }
+
+  return (
+    <>
+      <Item onSelect={onCreateNew}>
+        <Plus className="mr-2 h-4 w-4" /> Новый плейлист…
+      </Item>
+      {(isLoading || (playlists && playlists.length > 0)) && <Separator />}
+      {isLoading && <Item disabled>Загрузка…</Item>}
+      <div className="max-h-64 overflow-y-auto">
+        {playlists?.map((playlist) => (
+          <Item key={playlist.id} onSelect={() => addTracks(playlist.id, playlist.name, tracks)}>
+            <ListMusic className="mr-2 h-4 w-4" />
+            <span className="truncate">{playlist.name}</span>
+          </Item>
+        ))}
+      </div>
+    </>
+  );
+}
+
+/**
+ * Подменю «Добавить в плейлист» для меню трека (выпадающего или контекстного)
+ */
+export function AddToPlaylistSubmenu({ menu, tracks, onCreateNew }: PlaylistMenuItemsProps) {
+  const { Sub, SubTrigger, SubContent } = MENU_PRIMITIVES[menu];
+
+  return (
+    <Sub>
+      <SubTrigger>
+        <ListPlus className="mr-2 h-4 w-4" /> Добавить в плейлист
+      </SubTrigger>
+      <SubContent className="w-56">
+        <PlaylistMenuItems menu={menu} tracks={tracks} onCreateNew={onCreateNew} />
+      </SubContent>
+    </Sub>
+  );
+}
+
+interface CreatePlaylistDialogProps {
+  // Треки для нового плейлиста; null - диалог закрыт
+  tracks: Track[] | null;
+  onOpenChange: (open: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Создание плейлиста сразу с выбранными треками
+ */
+export function CreatePlaylistDialog({ tracks, onOpenChange, className }: CreatePlaylistDialogProps) {
+  const { createWithTracks } = useAddToPlaylist();
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const open = tracks !== null;
+
+  useEffect(() => {
+    if (tracks) {
+      setName(tracks.length === 1 ? tracks[0].title.slice(0, 255) : "");
+    }
+  }, [tracks]);
+
+  const trimmedName = name.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={className} onClick={(e) => e.stopPropagation()}>
+        <form
+          className="space-y-4"
+          onSubmit={async (e) => {
+            e.preventDefault();
+            if (!tracks || !trimmedName) return;
+            setSaving(true);
+            await createWithTracks(trimmedName, tracks);
+            setSaving(false);
+            onOpenChange(false);
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Новый плейлист</DialogTitle>
+            <DialogDescription>
+              {tracks && tracks.length > 1
+                ? `В плейлист попадут выбранные треки: ${tracks.length}`
+                : "Трек сразу попадёт в новый плейлист"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input
+            value={name}
+            maxLength={255}
+            placeholder="Название плейлиста"
+            autoFocus
+            onChange={(e) => setName(e.target.value)}
+          />
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Отмена
+            </Button>
+            <Button type="submit" disabled={!trimmedName || saving}>
+              Создать
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AddToPlaylistButtonProps {
+  tracks: Track[];
+  className?: string;
+  label?: string;
+  variant?: "ghost" | "secondary" | "default";
+  align?: "start" | "center" | "end";
+  side?: "top" | "bottom";
+  // Для меню и диалога поверх полноэкранного плеера (там свой z-index)
+  popupClassName?: string;
+}
+
+/**
+ * Кнопка с меню выбора плейлиста: плееры и панель мультивыбора в поиске
+ */
+export function AddToPlaylistButton({
+  tracks,
+  className,
+  label,
+  variant = "ghost",
+  align = "end",
+  side = "top",
+  popupClassName,
+}: AddToPlaylistButtonProps) {
+  const [createFor, setCreateFor] = useState<Track[] | null>(null);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={variant}
+            size={label ? "sm" : "icon"}
+            className={className}
+            title="Добавить в плейлист"
+            disabled={tracks.length === 0}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <ListPlus className="w-4 h-4" />
+            {label && <span className="ml-2">{label}</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={align} side={side} className={cn("w-56", popupClassName)} onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuLabel>Добавить в плейлист</DropdownMenuLabel>
+          <PlaylistMenuItems menu="dropdown" tracks={tracks} onCreateNew={() => setCreateFor(tracks)} />
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreatePlaylistDialog
+        tracks={createFor}
+        onOpenChange={(open) => !open && setCreateFor(null)}
+        className={popupClassName}
+      />
+    </>
+  );
+}
@@ -0,0 +1,53 @@
+import { User } from "lucide-react";
+import { Link } from "wouter";
+import { cn } from "@/lib/utils";
+
+interface Artist {
+  id: number;
+  username: string;
+  avatar_url: string | null;
+  followers_count: number;
+}
+
+interface ArtistCardProps {
+  artist: Artist;
+  className?: string;
+}
+
+function formatFollowers(value: number) {
+  return new Intl.NumberFormat("ru-RU", { notation: "compact" }).format(value);
+}
+
+// Карточка исполнителя SoundCloud - ведёт на страницу /artist/:id
+export default function ArtistCard({ artist, className }: ArtistCardProps) {
+  return (
+    <Link
+      href={`/artist/${artist.id}`}
+      className={cn(
+        "group block rounded-xl p-4 text-center transition-all hover:bg-secondary/50",
+        className
+      )}
+    >
+      <div className="aspect-square mb-3 rounded-full overflow-hidden bg-secondary mx-auto">
+        {artist.avatar_url ? (
+          <img
+            src={artist.avatar_url}
+            alt={artist.username}
+            className="w-full h-full object-cover"
+            loading="lazy"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <User className="w-10 h-10 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+      <h3 className="font-semibold text-sm truncate" title={artist.username}>
+        {artist.username}
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        {formatFollowers(artist.followers_count)} подписчиков
+      </p>
+    </Link>
+  );
+}
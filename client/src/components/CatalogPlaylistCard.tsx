@@ -0,0 +1,53 @@
+import { ListMusic } from "lucide-react";
+import { Link } from "wouter";
+import { cn } from "@/lib/utils";
+
+interface CatalogPlaylist {
+  id: number;
+  title: string;
+  artwork_url: string | null;
+  track_count: number;
+  user: { username: string };
+}
+
+interface CatalogPlaylistCardProps {
+  playlist: CatalogPlaylist;
+  className?: string;
+}
+
+// Карточка плейлиста SoundCloud - ведёт на страницу /playlist/:id
+export default function CatalogPlaylistCard({ playlist, className }: CatalogPlaylistCardProps) {
+  return (
+    <Link
+      href={`/playlist/${playlist.id}`}
+      className={cn(
+        "group block bg-card border border-border rounded-xl p-4 transition-all hover:bg-secondary/50 card-hover",
+        className
+      )}
+    >
+      <div className="relative aspect-square mb-4 rounded-lg overflow-hidden bg-gradient-to-br from-primary/20 to-primary/5">
+        {playlist.artwork_url ? (
+          <img
+            src={playlist.artwork_url}
+            alt={playlist.title}
+            className="w-full h-full object-cover"
+            loading="lazy"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <ListMusic className="w-10 h-10 text-primary/40" />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <h3 className="font-semibold text-sm truncate" title={playlist.title}>
+          {playlist.title}
+        </h3>
+        <p className="text-xs text-muted-foreground truncate">
+          {playlist.user.username} · {playlist.track_count} трек(ов)
+        </p>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,305 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import {
+  ArrowLeft,
+  Heart,
+  Home,
+  Library,
+  ListMusic,
+  ListPlus,
+  Maximize2,
+  Music2,
+  Pause,
+  Play,
+  Repeat,
+  Search,
+  Shuffle,
+  SkipBack,
+  SkipForward,
+  User,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import {
+  fromStoredTrack,
+  getTrackData,
+  getTrackRef,
+  useMusicPlayer,
+} from "@/contexts/MusicPlayerContext";
+import { useAddToPlaylist } from "@/components/AddToPlaylistMenu";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+type PalettePage = "root" | "add-to-playlist";
+
+interface PaletteAction {
+  id: string;
+  label: string;
+  icon: React.ElementType;
+  run: () => void;
+}
+
+const matches = (text: string, query: string) => text.toLowerCase().includes(query.toLowerCase());
+
+/**
+ * Палитра команд (Ctrl/Cmd+K): поиск треков и своих плейлистов, управление плеером и навигация
+ */
+export default function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [page, setPage] = useState<PalettePage>("root");
+  const [query, setQuery] = useState("");
+  const [debounced, setDebounced] = useState("");
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+  const { addTracks } = useAddToPlaylist();
+  const {
+    currentTrack,
+    isPlaying,
+    shuffle,
+    togglePlay,
+    nextTrack,
+    previousTrack,
+    toggleShuffle,
+    cycleRepeatMode,
+    playTrack,
+    playPlaylist,
+    setFullscreen,
+  } = useMusicPlayer();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Каждое открытие начинается с корня и пустой строки
+  useEffect(() => {
+    if (!open) {
+      setPage("root");
+      setQuery("");
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: trackResults, isFetching: tracksFetching } = trpc.search.tracks.useQuery(
+    { query: debounced, limit: 6 },
+    { enabled: open && page === "root" && debounced.length >= 2 }
+  );
+
+  const { data: playlists } = trpc.playlists.list.useQuery(undefined, {
+    enabled: open && isAuthenticated,
+  });
+
+  const setPreferenceMutation = trpc.preferences.setPreference.useMutation({
+    onSuccess: () => {
+      utils.preferences.getPreference.invalidate();
+      utils.preferences.getLikedTracks.invalidate();
+    },
+  });
+
+  const close = () => setOpen(false);
+
+  const requireAuth = (message: string) => {
+    if (isAuthenticated) return true;
+    toast.error(message);
+    return false;
+  };
+
+  const likeCurrent = () => {
+    if (!currentTrack || !requireAuth("Войдите, чтобы добавлять в избранное")) return;
+    setPreferenceMutation.mutate({
+      soundcloudId: getTrackRef(currentTrack),
+      trackData: getTrackData(currentTrack),
+      preference: "like",
+    });
+    toast.success("Добавлено в избранное");
+  };
+
+  const addCurrentToPlaylist = (playlistId: number, name: string) => {
+    if (!currentTrack) return;
+    close();
+    addTracks(playlistId, name, [currentTrack]);
+  };
+
+  const playUserPlaylist = async (playlistId: number) => {
+    close();
+    try {
+      const playlist = await utils.playlists.get.fetch({ playlistId });
+      if (playlist.tracks.length === 0) {
+        toast.info("В плейлисте пока нет треков");
+        return;
+      }
+      playPlaylist(playlist.tracks.map(fromStoredTrack), 0);
+    } catch (error) {
+      toast.error("Не удалось загрузить плейлист");
+    }
+  };
+
+  const playerActions: PaletteAction[] = currentTrack ? [
+    { id: "toggle-play", label: isPlaying ? "Пауза" : "Играть", icon: isPlaying ? Pause : Play, run: togglePlay },
+    { id: "next", label: "Следующий трек", icon: SkipForward, run: nextTrack },
+    { id: "previous", label: "Предыдущий трек", icon: SkipBack, run: previousTrack },
+    { id: "like", label: "В избранное", icon: Heart, run: likeCurrent },
+    {
+      id: "add-to-playlist",
+      label: "Добавить в плейлист…",
+      icon: ListPlus,
+      run: () => {
+        if (!requireAuth("Войдите, чтобы создавать плейлисты")) return;
+        setQuery("");
+        setPage("add-to-playlist");
+      },
+    },
+    { id: "shuffle", label: shuffle ? "Выключить перемешивание" : "Включить перемешивание", icon: Shuffle, run: toggleShuffle },
+    { id: "repeat", label: "Сменить режим повтора", icon: Repeat, run: cycleRepeatMode },
+    { id: "fullscreen", label: "Открыть полноэкранный плеер", icon: Maximize2, run: () => setFullscreen(true) },
+  ] : [];
+
+  const navigationActions: PaletteAction[] = [
+    { id: "go-home", label: "Перейти на главную", icon: Home, run: () => setLocation("/") },
+    { id: "go-search", label: "Перейти к поиску", icon: Search, run: () => setLocation("/search") },
+    { id: "go-library", label: "Перейти в медиатеку", icon: Library, run: () => setLocation("/library") },
+    { id: "go-profile", label: "Перейти в профиль", icon: User, run: () => setLocation("/profile") },
+  ];
+
+  // Все действия, кроме перехода к выбору плейлиста, закрывают палитру
+  const runAction = (action: PaletteAction) => {
+    if (action.id !== "add-to-playlist") close();
+    action.run();
+  };
+
+  const visiblePlayerActions = playerActions.filter(a => matches(a.label, query));
+  const visibleNavigation = navigationActions.filter(a => matches(a.label, query));
+  const visiblePlaylists = (playlists ?? []).filter(p => matches(p.name, query));
+  const editablePlaylists = visiblePlaylists.filter(p => p.role !== "viewer" && !p.smartRules);
+  const tracks = debounced.length >= 2 ? trackResults?.collection ?? [] : [];
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={setOpen}
+      title="Палитра команд"
+      description="Поиск треков, плейлистов и действий"
+      showCloseButton={false}
+      // Фильтруем сами: треки приходят с сервера уже отобранными
+      shouldFilter={false}
+    >
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder={page === "root" ? "Трек, плейлист или команда…" : "Выберите плейлист…"}
+        onKeyDown={(e) => {
+          if (page !== "root" && e.key === "Backspace" && !query) {
+            e.preventDefault();
+            setPage("root");
+          }
+        }}
+      />
+      <CommandList>
+        <CommandEmpty>{tracksFetching ? "Ищем…" : "Ничего не найдено"}</CommandEmpty>
+
+        {page === "add-to-playlist" ? (
+          <>
+            <CommandGroup>
+              <CommandItem value="back" onSelect={() => setPage("root")}>
+                <ArrowLeft />
+                Назад
+              </CommandItem>
+            </CommandGroup>
+            <CommandGroup heading={currentTrack ? `Добавить «${currentTrack.title}» в…` : "Плейлисты"}>
+              {editablePlaylists.map((playlist) => (
+                <CommandItem
+                  key={playlist.id}
+                  value={`add-to:${playlist.id}`}
+                  onSelect={() => addCurrentToPlaylist(playlist.id, playlist.name)}
+                >
+                  <ListMusic />
+                  {playlist.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        ) : (
+          <>
+            {visiblePlayerActions.length > 0 && (
+              <CommandGroup heading="Плеер">
+                {visiblePlayerActions.map((action) => (
+                  <CommandItem key={action.id} value={action.id} onSelect={() => runAction(action)}>
+                    <action.icon />
+                    {action.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {tracks.length > 0 && (
+              <CommandGroup heading="Треки">
+                {tracks.map((track) => (
+                  <CommandItem
+                    key={track.id}
+                    value={`track:${track.id}`}
+                    onSelect={() => {
+                      close();
+                      playTrack(track);
+                    }}
+                  >
+                    <Music2 />
+                    <span className="truncate">{track.title}</span>
+                    <span className="ml-auto truncate text-xs text-muted-foreground max-w-[40%]">
+                      {track.user.username}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {visiblePlaylists.length > 0 && (
+              <CommandGroup heading="Мои плейлисты">
+                {visiblePlaylists.slice(0, 6).map((playlist) => (
+                  <CommandItem
+                    key={playlist.id}
+                    value={`playlist:${playlist.id}`}
+                    onSelect={() => playUserPlaylist(playlist.id)}
+                  >
+                    <ListMusic />
+                    {playlist.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {visibleNavigation.length > 0 && (
+              <CommandGroup heading="Навигация">
+                {visibleNavigation.map((action) => (
+                  <CommandItem key={action.id} value={action.id} onSelect={() => runAction(action)}>
+                    <action.icon />
+                    {action.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
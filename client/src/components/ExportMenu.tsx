@@ -0,0 +1,61 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export type ExportSource = "liked" | "history" | { playlistId: number };
+
+const EXPORT_FORMATS = [
+  { format: "m3u8", label: "M3U8", hint: "VLC, foobar2000, AIMP" },
+  { format: "xspf", label: "XSPF", hint: "VLC, Clementine" },
+  { format: "csv", label: "CSV", hint: "Таблицы" },
+  { format: "json", label: "JSON", hint: "Для программ" },
+] as const;
+
+// Файл отдаёт сервер (/api/export/*) по cookie сессии - достаточно обычной ссылки
+function exportUrl(source: ExportSource, format: string) {
+  const path = typeof source === "string" ? source : `playlist/${source.playlistId}`;
+  return `/api/export/${path}?format=${format}`;
+}
+
+interface ExportMenuProps {
+  source: ExportSource;
+  label?: string;
+  className?: string;
+  size?: "default" | "sm";
+  align?: "start" | "center" | "end";
+}
+
+/**
+ * Кнопка «Экспорт» с выбором формата файла
+ */
+export default function ExportMenu({ source, label = "Экспорт", className, size = "sm", align = "end" }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size={size} className={className}>
+          <Download className="w-4 h-4 mr-2" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={align} className="w-56">
+        <DropdownMenuLabel>Формат файла</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map(({ format, label, hint }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={exportUrl(source, format)} download>
+              <span>{label}</span>
+              <span className="ml-auto text-xs text-muted-foreground">{hint}</span>
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -2,14 +2,16 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import {
   Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Heart,
   X, Maximize2, Minimize2, Youtube, Music2, ThumbsDown,
-  Loader2, ListMusic, ChevronLeft, ChevronRight, Link2
+  Loader2, ListMusic, ChevronLeft, ChevronRight, Link2, Shuffle
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
-import { Track } from "@/contexts/MusicPlayerContext";
+import { Track, RepeatMode } from "@/contexts/MusicPlayerContext";
+import RepeatModeIcon, { REPEAT_MODE_LABELS } from "./RepeatModeIcon";
+import { AddToPlaylistButton } from "./AddToPlaylistMenu";
 import { motion, AnimatePresence } from "framer-motion";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
@@ -25,11 +27,15 @@ interface FullscreenPlayerProps {
   duration: number;
   volume: number;
   queue: Track[];
+  shuffle: boolean;
+  repeatMode: RepeatMode;
   onClose: () => void;
   togglePlay: () => void;
   play: () => void;
   previousTrack: () => void;
   nextTrack: () => void;
+  toggleShuffle: () => void;
+  cycleRepeatMode: () => void;
   handleLike: () => void;
   handleDislike: () => void;
   seek: (time: number) => void;
@@ -46,11 +52,15 @@ export default function FullscreenPlayer({
   duration,
   volume,
   queue,
+  shuffle,
+  repeatMode,
   onClose,
   togglePlay,
   play,
   previousTrack,
   nextTrack,
+  toggleShuffle,
+  cycleRepeatMode,
   handleLike,
   handleDislike,
   seek,
@@ -465,6 +475,12 @@ export default function FullscreenPlayer({
                         )}
                       />
                     </Button>
+                    <AddToPlaylistButton
+                      tracks={[currentTrack]}
+                      className="h-12 w-12 text-white hover:bg-white/10 [&_svg]:!w-6 [&_svg]:!h-6"
+                      align="end"
+                      popupClassName="z-[110]"
+                    />
                   </div>
                 </div>
               </div>
@@ -533,6 +549,19 @@ export default function FullscreenPlayer({
 
                 {/* Main Controls */}
                 <div className="flex items-center gap-6">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn(
+                      "h-12 w-12 text-white/60 hover:bg-white/10 hover:text-white",
+                      shuffle && "text-primary hover:text-primary"
+                    )}
+                    onClick={toggleShuffle}
+                    title={shuffle ? "Выключить перемешивание" : "Перемешать"}
+                  >
+                    <Shuffle className="w-5 h-5" />
+                  </Button>
+
                   <Button
                     variant="ghost"
                     size="icon"
@@ -565,6 +594,19 @@ export default function FullscreenPlayer({
                   >
                     <SkipForward className="w-7 h-7" fill="currentColor" />
                   </Button>
+
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn(
+                      "h-12 w-12 text-white/60 hover:bg-white/10 hover:text-white",
+                      repeatMode !== "off" && "text-primary hover:text-primary"
+                    )}
+                    onClick={cycleRepeatMode}
+                    title={REPEAT_MODE_LABELS[repeatMode]}
+                  >
+                    <RepeatModeIcon mode={repeatMode} className="w-5 h-5" />
+                  </Button>
                 </div>
 
                 {/* Queue */}
@@ -0,0 +1,276 @@
+import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { FileUp } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAddToPlaylist } from "@/components/AddToPlaylistMenu";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import type { Track } from "@/contexts/MusicPlayerContext";
+
+type ImportReport = RouterOutputs["playlists"]["import"];
+type ImportMatch = ImportReport["matched"][number];
+
+const SKIP = "skip";
+const ACCEPTED_FILES = ".m3u,.m3u8,.xspf,.csv,.txt";
+
+function describeEntry({ entry }: ImportMatch) {
+  return entry.artist ? `${entry.artist} — ${entry.title}` : entry.title;
+}
+
+function describeTrack(track: Track) {
+  return `${track.user.username} — ${track.title}`;
+}
+
+interface ImportPlaylistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Импорт плейлиста из файла другого плеера или вставленного списка «Исполнитель - Название».
+ * Сначала сервер подбирает треки, пользователь проверяет отчёт, и только потом создаётся плейлист
+ */
+export default function ImportPlaylistDialog({ open, onOpenChange }: ImportPlaylistDialogProps) {
+  const [, setLocation] = useLocation();
+  const { createWithTracks } = useAddToPlaylist();
+  const [name, setName] = useState("");
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [report, setReport] = useState<ImportReport | null>(null);
+  // Выбранный трек для каждой записи (по position); null - запись пропускается
+  const [choices, setChoices] = useState<Record<number, number | null>>({});
+  const [saving, setSaving] = useState(false);
+
+  const importMutation = trpc.playlists.import.useMutation({
+    onSuccess: (result) => {
+      setReport(result);
+      const initial: Record<number, number | null> = {};
+      for (const match of [...result.matched, ...result.ambiguous]) {
+        initial[match.entry.position] = match.candidates[0].track.id;
+      }
+      setChoices(initial);
+    },
+    onError: (error) =>
+      toast.error(
+        error.data?.code === "TOO_MANY_REQUESTS"
+          ? "Слишком много импортов подряд - попробуйте через несколько минут"
+          : "Не удалось разобрать плейлист"
+      ),
+  });
+
+  const reset = () => {
+    setName("");
+    setContent("");
+    setFileName(undefined);
+    setReport(null);
+    setChoices({});
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+    if (!name.trim()) setName(file.name.replace(/\.[^.]+$/, "").slice(0, 255));
+  };
+
+  const selectedTracks = useMemo(() => {
+    if (!report) return [];
+    // Порядок треков - как в исходном файле
+    return [...report.matched, ...report.ambiguous]
+      .sort((a, b) => a.entry.position - b.entry.position)
+      .flatMap(match => {
+        const chosen = match.candidates.find(c => c.track.id === choices[match.entry.position]);
+        return chosen ? [chosen.track] : [];
+      });
+  }, [report, choices]);
+
+  const trimmedName = name.trim();
+
+  const handleCreate = async () => {
+    if (!trimmedName || selectedTracks.length === 0) return;
+    setSaving(true);
+    const playlistId = await createWithTracks(trimmedName, selectedTracks);
+    setSaving(false);
+    if (playlistId !== null) {
+      handleOpenChange(false);
+      setLocation(`/library/playlist/${playlistId}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Импорт плейлиста</DialogTitle>
+          <DialogDescription>
+            {report
+              ? "Проверьте найденные треки перед созданием плейлиста"
+              : "M3U, XSPF, CSV (название, исполнитель) или список строк «Исполнитель - Название»"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={name}
+          maxLength={255}
+          placeholder="Название плейлиста"
+          onChange={(e) => setName(e.target.value)}
+        />
+
+        {!report ? (
+          <div className="space-y-3">
+            <Button variant="secondary" className="w-full" asChild>
+              <label className="cursor-pointer">
+                <FileUp className="w-4 h-4 mr-2" />
+                {fileName ?? "Выбрать файл"}
+                <input
+                  type="file"
+                  accept={ACCEPTED_FILES}
+                  className="sr-only"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+              </label>
+            </Button>
+            <Textarea
+              value={content}
+              rows={8}
+              placeholder={"Или вставьте список:\nRadiohead - Creep\nКино - Кукушка"}
+              className="font-mono text-xs"
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFileName(undefined);
+              }}
+            />
+          </div>
+        ) : (
+          <div className="space-y-4 max-h-[55vh] overflow-y-auto pr-1">
+            <p className="text-sm text-muted-foreground">
+              Найдено: {report.matched.length} · Нужно выбрать: {report.ambiguous.length} · Не найдено: {report.missing.length}
+              {report.truncated && ` · Импортированы первые ${report.matched.length + report.ambiguous.length + report.missing.length} из ${report.total}`}
+            </p>
+
+            {report.ambiguous.length > 0 && (
+              <ReportSection title="Нужно выбрать">
+                {report.ambiguous.map((match) => (
+                  <div key={match.entry.position} className="space-y-1.5">
+                    <p className="text-sm truncate">{describeEntry(match)}</p>
+                    <Select
+                      value={String(choices[match.entry.position] ?? SKIP)}
+                      onValueChange={(value) =>
+                        setChoices(prev => ({ ...prev, [match.entry.position]: value === SKIP ? null : Number(value) }))
+                      }
+                    >
+                      <SelectTrigger size="sm" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {match.candidates.map(({ track, confidence }) => (
+                          <SelectItem key={track.id} value={String(track.id)}>
+                            {describeTrack(track)} · {confidence}%
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={SKIP}>Не добавлять</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </ReportSection>
+            )}
+
+            {report.matched.length > 0 && (
+              <ReportSection title="Найдено">
+                {report.matched.map((match) => {
+                  const best = match.candidates[0];
+                  const checked = choices[match.entry.position] != null;
+                  return (
+                    <label key={match.entry.position} className="flex items-start gap-3 cursor-pointer">
+                      <Checkbox
+                        className="mt-0.5"
+                        checked={checked}
+                        onCheckedChange={(value) =>
+                          setChoices(prev => ({ ...prev, [match.entry.position]: value ? best.track.id : null }))
+                        }
+                      />
+                      <div className="min-w-0 text-sm">
+                        <p className="truncate">{describeEntry(match)}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {describeTrack(best.track)} · {best.confidence}%
+                        </p>
+                      </div>
+                    </label>
+                  );
+                })}
+              </ReportSection>
+            )}
+
+            {report.missing.length > 0 && (
+              <ReportSection title="Не найдено">
+                {report.missing.map((match) => (
+                  <p key={match.entry.position} className="text-sm text-muted-foreground truncate">
+                    {describeEntry(match)}
+                  </p>
+                ))}
+              </ReportSection>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {report ? (
+            <>
+              <Button variant="ghost" onClick={() => setReport(null)}>
+                Назад
+              </Button>
+              <Button disabled={!trimmedName || selectedTracks.length === 0 || saving} onClick={handleCreate}>
+                Создать плейлист ({selectedTracks.length})
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+                Отмена
+              </Button>
+              <Button
+                disabled={!content.trim() || importMutation.isPending}
+                onClick={() => importMutation.mutate({ content, fileName })}
+              >
+                {importMutation.isPending ? "Ищем треки..." : "Найти треки"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReportSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-xs uppercase tracking-wider text-muted-foreground">{title}</h3>
+      <div className="space-y-2">{children}</div>
+    </section>
+  );
+}
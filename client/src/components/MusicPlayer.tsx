@@ -1,11 +1,11 @@
 import { 
   Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Heart, 
-  ChevronDown, ListMusic, Repeat, Shuffle, Share2, MoreHorizontal,
+  ChevronDown, ListMusic, Shuffle, Share2, MoreHorizontal,
   Loader2, ThumbsDown, Maximize2
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
-import { useMusicPlayer } from "@/contexts/MusicPlayerContext";
+import { useMusicPlayer, RepeatMode, getTrackRef, getTrackData } from "@/contexts/MusicPlayerContext";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
@@ -17,6 +17,10 @@ import {
   DrawerTrigger,
 } from "@/components/ui/drawer";
 import FullscreenPlayer from "./FullscreenPlayer";
+import RepeatModeIcon, { REPEAT_MODE_LABELS } from "./RepeatModeIcon";
+import QueuePanel from "./QueuePanel";
+import { shareLink } from "@/utils/shareLink";
+import { AddToPlaylistButton } from "./AddToPlaylistMenu";
 import { AnimatePresence } from "framer-motion";
 
 export default function MusicPlayer() {
@@ -28,21 +32,27 @@ export default function MusicPlayer() {
     currentTime,
     duration,
     queue,
+    shuffle,
+    repeatMode,
     togglePlay,
     play,
     seek,
     setVolume,
     nextTrack,
     previousTrack,
+    toggleShuffle,
+    cycleRepeatMode,
+    isFullscreen,
+    setFullscreen,
   } = useMusicPlayer();
 
   const { isAuthenticated } = useAuth();
   const utils = trpc.useUtils();
   const [isExpanded, setIsExpanded] = useState(false);
-  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [isQueueOpen, setIsQueueOpen] = useState(false);
 
   const { data: preference } = trpc.preferences.getPreference.useQuery(
-    { soundcloudId: currentTrack?.id.toString() || "" },
+    { soundcloudId: currentTrack ? getTrackRef(currentTrack) : "" },
     { enabled: isAuthenticated && !!currentTrack }
   );
 
@@ -74,21 +84,13 @@ export default function MusicPlayer() {
     try {
       if (isLiked) {
         await removePreferenceMutation.mutateAsync({
-          soundcloudId: currentTrack.id.toString(),
+          soundcloudId: getTrackRef(currentTrack),
         });
         toast.success("Удалено из избранного");
       } else {
         await setPreferenceMutation.mutateAsync({
-          soundcloudId: currentTrack.id.toString(),
-          trackData: {
-            title: currentTrack.title,
-            artist: currentTrack.user.username,
-            artworkUrl: currentTrack.artwork_url,
-            duration: currentTrack.duration,
-            streamUrl: currentTrack.stream_url,
-            permalinkUrl: currentTrack.permalink_url,
-            genre: currentTrack.genre,
-          },
+          soundcloudId: getTrackRef(currentTrack),
+          trackData: getTrackData(currentTrack),
           preference: "like",
         });
         toast.success("Добавлено в избранное");
@@ -109,21 +111,13 @@ export default function MusicPlayer() {
     try {
       if (isDisliked) {
         await removePreferenceMutation.mutateAsync({
-          soundcloudId: currentTrack.id.toString(),
+          soundcloudId: getTrackRef(currentTrack),
         });
         toast.success("Убрано из «Не нравится»");
       } else {
         await setPreferenceMutation.mutateAsync({
-          soundcloudId: currentTrack.id.toString(),
-          trackData: {
-            title: currentTrack.title,
-            artist: currentTrack.user.username,
-            artworkUrl: currentTrack.artwork_url,
-            duration: currentTrack.duration,
-            streamUrl: currentTrack.stream_url,
-            permalinkUrl: currentTrack.permalink_url,
-            genre: currentTrack.genre,
-          },
+          soundcloudId: getTrackRef(currentTrack),
+          trackData: getTrackData(currentTrack),
           preference: "dislike",
         });
         toast.success("Пометили как «Не нравится»");
@@ -133,6 +127,14 @@ export default function MusicPlayer() {
     }
   };
 
+  // У треков из локальной медиатеки внешней ссылки нет
+  const canShare = !!currentTrack?.permalink_url.startsWith("http");
+
+  const handleShare = () => {
+    if (!currentTrack || !canShare) return;
+    shareLink(currentTrack.permalink_url, `${currentTrack.user.username} — ${currentTrack.title}`);
+  };
+
   const formatTime = (seconds: number) => {
     if (isNaN(seconds) || !isFinite(seconds)) return "0:00";
     const mins = Math.floor(seconds / 60);
@@ -210,14 +212,19 @@ export default function MusicPlayer() {
               duration={duration}
               volume={volume}
               queue={queue}
+              shuffle={shuffle}
+              repeatMode={repeatMode}
               formatTime={formatTime}
               togglePlay={togglePlay}
               previousTrack={previousTrack}
               nextTrack={nextTrack}
+              toggleShuffle={toggleShuffle}
+              cycleRepeatMode={cycleRepeatMode}
               handleLike={handleLike}
               handleDislike={handleDislike}
               handleSeek={handleSeek}
               handleVolumeChange={handleVolumeChange}
+              onOpenQueue={() => setIsQueueOpen(true)}
               onClose={() => setIsExpanded(false)}
             />
           </DrawerContent>
@@ -280,7 +287,7 @@ export default function MusicPlayer() {
         <div className="flex items-center gap-3 w-[280px] flex-shrink-0">
           <button 
             className="w-14 h-14 rounded-md bg-secondary flex-shrink-0 overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary/50 transition-all group"
-            onClick={() => setIsFullscreen(true)}
+            onClick={() => setFullscreen(true)}
             title="Открыть полноэкранный режим"
           >
             {artworkSmall ? (
@@ -321,12 +328,26 @@ export default function MusicPlayer() {
               )}
             />
           </Button>
+          <AddToPlaylistButton tracks={[currentTrack]} className="h-8 w-8 flex-shrink-0" align="start" />
         </div>
 
         {/* Center Controls */}
         <div className="flex-1 flex flex-col items-center gap-1.5 max-w-2xl mx-auto">
           {/* Buttons */}
           <div className="flex items-center gap-4">
+            <Button
+              size="icon"
+              variant="ghost"
+              className={cn(
+                "h-8 w-8 text-muted-foreground hover:text-foreground",
+                shuffle && "text-primary hover:text-primary"
+              )}
+              onClick={toggleShuffle}
+              title={shuffle ? "Выключить перемешивание" : "Перемешать"}
+            >
+              <Shuffle className="w-4 h-4" />
+            </Button>
+
             <Button
               size="icon"
               variant="ghost"
@@ -359,6 +380,19 @@ export default function MusicPlayer() {
             >
               <SkipForward className="w-5 h-5" />
             </Button>
+
+            <Button
+              size="icon"
+              variant="ghost"
+              className={cn(
+                "h-8 w-8 text-muted-foreground hover:text-foreground",
+                repeatMode !== "off" && "text-primary hover:text-primary"
+              )}
+              onClick={cycleRepeatMode}
+              title={REPEAT_MODE_LABELS[repeatMode]}
+            >
+              <RepeatModeIcon mode={repeatMode} className="w-4 h-4" />
+            </Button>
           </div>
 
           {/* Progress Bar */}
@@ -380,13 +414,30 @@ export default function MusicPlayer() {
         </div>
 
         {/* Right Controls - Volume & Fullscreen */}
-        <div className="flex items-center gap-2 w-[240px] justify-end">
-          {queue.length > 0 && (
-            <div className="flex items-center gap-1 text-xs text-muted-foreground mr-2">
-              <ListMusic className="w-4 h-4" />
-              <span>{queue.length}</span>
-            </div>
-          )}
+        <div className="flex items-center gap-2 w-[280px] justify-end">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+            onClick={handleShare}
+            disabled={!canShare}
+            title="Поделиться треком"
+          >
+            <Share2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "h-8 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground mr-1",
+              isQueueOpen && "text-primary hover:text-primary"
+            )}
+            onClick={() => setIsQueueOpen(true)}
+            title="Очередь"
+          >
+            <ListMusic className="w-4 h-4" />
+            {queue.length > 0 && <span>{queue.length}</span>}
+          </Button>
           <Button
             size="icon"
             variant="ghost"
@@ -410,7 +461,7 @@ export default function MusicPlayer() {
             size="icon"
             variant="ghost"
             className="h-8 w-8 text-muted-foreground hover:text-foreground ml-2"
-            onClick={() => setIsFullscreen(true)}
+            onClick={() => setFullscreen(true)}
             title="Полноэкранный режим (с YouTube клипом)"
           >
             <Maximize2 className="w-4 h-4" />
@@ -424,6 +475,8 @@ export default function MusicPlayer() {
     <>
       {MiniPlayer}
       {DesktopPlayer}
+
+      <QueuePanel open={isQueueOpen} onOpenChange={setIsQueueOpen} />
       
       {/* Fullscreen Player for Desktop */}
       <AnimatePresence>
@@ -438,11 +491,15 @@ export default function MusicPlayer() {
             duration={duration}
             volume={volume}
             queue={queue}
-            onClose={() => setIsFullscreen(false)}
+            shuffle={shuffle}
+            repeatMode={repeatMode}
+            onClose={() => setFullscreen(false)}
             togglePlay={togglePlay}
             play={play}
             previousTrack={previousTrack}
             nextTrack={nextTrack}
+            toggleShuffle={toggleShuffle}
+            cycleRepeatMode={cycleRepeatMode}
             handleLike={handleLike}
             handleDislike={handleDislike}
             seek={seek}
@@ -466,14 +523,19 @@ interface FullPlayerProps {
   duration: number;
   volume: number;
   queue: any[];
+  shuffle: boolean;
+  repeatMode: RepeatMode;
   formatTime: (s: number) => string;
   togglePlay: () => void;
   previousTrack: () => void;
   nextTrack: () => void;
+  toggleShuffle: () => void;
+  cycleRepeatMode: () => void;
   handleLike: () => void;
   handleDislike: () => void;
   handleSeek: (value: number[]) => void;
   handleVolumeChange: (value: number[]) => void;
+  onOpenQueue: () => void;
   onClose: () => void;
 }
 
@@ -487,13 +549,18 @@ function FullPlayer({
   currentTime,
   duration,
   queue,
+  shuffle,
+  repeatMode,
   formatTime,
   togglePlay,
   previousTrack,
   nextTrack,
+  toggleShuffle,
+  cycleRepeatMode,
   handleLike,
   handleDislike,
   handleSeek,
+  onOpenQueue,
   onClose,
 }: FullPlayerProps) {
   return (
@@ -591,7 +658,8 @@ function FullPlayer({
           <Button
             size="icon"
             variant="ghost"
-            className="h-14 w-14 text-muted-foreground"
+            className={cn("h-14 w-14 text-muted-foreground", shuffle && "text-primary")}
+            onClick={toggleShuffle}
           >
             <Shuffle className="w-5 h-5" />
           </Button>
@@ -632,19 +700,23 @@ function FullPlayer({
           <Button
             size="icon"
             variant="ghost"
-            className="h-14 w-14 text-muted-foreground"
+            className={cn("h-14 w-14 text-muted-foreground", repeatMode !== "off" && "text-primary")}
+            onClick={cycleRepeatMode}
           >
-            <Repeat className="w-5 h-5" />
+            <RepeatModeIcon mode={repeatMode} className="w-5 h-5" />
           </Button>
         </div>
 
-        {/* Queue indicator */}
-        {queue.length > 0 && (
-          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
-            <ListMusic className="w-4 h-4" />
-            <span>В очереди: {queue.length} трек(ов)</span>
-          </div>
-        )}
+        {/* Queue */}
+        <button
+          className="w-full flex items-center justify-center gap-2 text-sm text-muted-foreground active:text-foreground"
+          onClick={onOpenQueue}
+        >
+          <ListMusic className="w-4 h-4" />
+          <span>
+            {queue.length > 0 ? `В очереди: ${queue.length} трек(ов)` : "Очередь"}
+          </span>
+        </button>
       </div>
     </div>
   );
@@ -1,6 +1,12 @@
-import { Play, MoreVertical, Lock, Globe } from "lucide-react";
+import { Play, MoreVertical, Lock, Globe, Users, Sparkles } from "lucide-react";
+import { Link, useLocation } from "wouter";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+import { fromStoredTrack, useMusicPlayer } from "@/contexts/MusicPlayerContext";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { PLAYLIST_ROLE_LABELS, type PlaylistRole } from "@/components/PlaylistMembersDialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,6 +21,9 @@ interface Playlist {
   isPublic: boolean;
   createdAt: Date;
   updatedAt: Date;
+  role: PlaylistRole;
+  // JSON правил; не null - умный плейлист
+  smartRules: string | null;
 }
 
 interface PlaylistCardProps {
@@ -22,11 +31,63 @@ interface PlaylistCardProps {
   className?: string;
 }
 
+// Карточка плейлиста из медиатеки (своего или совместного) - ведёт на страницу /library/playlist/:id
 export default function PlaylistCard({ playlist, className }: PlaylistCardProps) {
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const isOwner = playlist.role === "owner";
+  const { playPlaylist } = useMusicPlayer();
+  const href = `/library/playlist/${playlist.id}`;
+
+  const deleteMutation = trpc.playlists.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Плейлист удалён");
+      utils.playlists.list.invalidate();
+    },
+    onError: () => toast.error("Не удалось удалить плейлист"),
+  });
+
+  const leaveMutation = trpc.playlists.removeMember.useMutation({
+    onSuccess: () => {
+      toast.success("Вы вышли из плейлиста");
+      utils.playlists.list.invalidate();
+    },
+    onError: () => toast.error("Не удалось выйти из плейлиста"),
+  });
+
+  const handlePlay = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    try {
+      const data = await utils.playlists.get.fetch({ playlistId: playlist.id });
+      if (data.tracks.length === 0) {
+        toast.info("В плейлисте пока нет треков");
+        return;
+      }
+      playPlaylist(data.tracks.map(fromStoredTrack), 0);
+    } catch (error) {
+      toast.error("Не удалось загрузить плейлист");
+    }
+  };
+
+  const handleLeave = () => {
+    if (user && window.confirm(`Выйти из плейлиста «${playlist.name}»?`)) {
+      leaveMutation.mutate({ playlistId: playlist.id, userId: user.id });
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Удалить плейлист «${playlist.name}»?`)) {
+      deleteMutation.mutate({ playlistId: playlist.id });
+    }
+  };
+
   return (
-    <div
+    <Link
+      href={href}
       className={cn(
-        "group bg-card border border-border rounded-xl p-4 transition-all hover:bg-secondary/50 cursor-pointer card-hover",
+        "group block bg-card border border-border rounded-xl p-4 transition-all hover:bg-secondary/50 cursor-pointer card-hover",
         className
       )}
     >
@@ -37,12 +98,18 @@ export default function PlaylistCard({ playlist, className }: PlaylistCardProps)
             {playlist.name.charAt(0).toUpperCase()}
           </div>
         </div>
+        {playlist.smartRules && (
+          <div className="absolute top-2 left-2 rounded-full bg-background/80 p-1.5" title="Умный плейлист">
+            <Sparkles className="w-3.5 h-3.5 text-primary" />
+          </div>
+        )}
         
         {/* Play Button on Hover */}
         <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity bg-black/20">
           <Button
             size="icon"
             className="h-12 w-12 rounded-full shadow-lg"
+            onClick={handlePlay}
           >
             <Play className="h-5 w-5 ml-0.5" fill="currentColor" />
           </Button>
@@ -61,13 +128,24 @@ export default function PlaylistCard({ playlist, className }: PlaylistCardProps)
                 size="icon" 
                 variant="ghost" 
                 className="h-7 w-7 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                // Меню не должно срабатывать как переход по ссылке карточки
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                }}
               >
                 <MoreVertical className="w-4 h-4" />
               </Button>
             </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem>Редактировать</DropdownMenuItem>
-              <DropdownMenuItem className="text-destructive">Удалить</DropdownMenuItem>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuItem onSelect={() => setLocation(href)}>
+                {playlist.role === "viewer" ? "Открыть" : "Редактировать"}
+              </DropdownMenuItem>
+              {isOwner ? (
+                <DropdownMenuItem className="text-destructive" onSelect={handleDelete}>Удалить</DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem className="text-destructive" onSelect={handleLeave}>Выйти из плейлиста</DropdownMenuItem>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -90,8 +168,14 @@ export default function PlaylistCard({ playlist, className }: PlaylistCardProps)
               <span>Приватный</span>
             </>
           )}
+          {!isOwner && (
+            <>
+              <Users className="w-3 h-3 ml-2" />
+              <span>{PLAYLIST_ROLE_LABELS[playlist.role]}</span>
+            </>
+          )}
         </div>
       </div>
-    </div>
+    </Link>
   );
 }
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { LogOut, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+
+export type PlaylistRole = "owner" | "editor" | "viewer";
+type InviteRole = Exclude<PlaylistRole, "owner">;
+
+export const PLAYLIST_ROLE_LABELS: Record<PlaylistRole, string> = {
+  owner: "Владелец",
+  editor: "Редактор",
+  viewer: "Слушатель",
+};
+
+// Сообщения сервера (new Error(...)) -> понятный текст
+const INVITE_ERRORS: Record<string, string> = {
+  "User not found": "Пользователь с такой почтой ещё не заходил в приложение",
+  "Owner is already a member": "Это владелец плейлиста",
+};
+
+interface PlaylistMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  playlistId: number;
+  role: PlaylistRole;
+  onLeft: () => void;
+}
+
+/**
+ * Участники совместного плейлиста: владелец приглашает по почте и меняет роли,
+ * остальные видят список и могут выйти
+ */
+export default function PlaylistMembersDialog({
+  open,
+  onOpenChange,
+  playlistId,
+  role,
+  onLeft,
+}: PlaylistMembersDialogProps) {
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("editor");
+  const isOwner = role === "owner";
+
+  const { data: members } = trpc.playlists.members.useQuery({ playlistId }, { enabled: open });
+
+  const refresh = () => {
+    utils.playlists.members.invalidate({ playlistId });
+    utils.playlists.get.invalidate({ playlistId });
+  };
+
+  const inviteMutation = trpc.playlists.invite.useMutation({
+    onSuccess: () => {
+      toast.success("Участник добавлен");
+      setEmail("");
+      refresh();
+    },
+    onError: (error) => toast.error(INVITE_ERRORS[error.message] ?? "Не удалось пригласить"),
+  });
+
+  const setRoleMutation = trpc.playlists.setMemberRole.useMutation({
+    onSuccess: refresh,
+    onError: () => toast.error("Не удалось изменить роль"),
+  });
+
+  const removeMutation = trpc.playlists.removeMember.useMutation({
+    onSuccess: (_, variables) => {
+      if (variables.userId === user?.id) {
+        toast.success("Вы вышли из плейлиста");
+        utils.playlists.list.invalidate();
+        onLeft();
+        return;
+      }
+      refresh();
+    },
+    onError: () => toast.error("Не удалось удалить участника"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Участники</DialogTitle>
+          <DialogDescription>
+            Редакторы добавляют, удаляют и переставляют треки, слушатели только слушают
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (email.trim()) inviteMutation.mutate({ playlistId, email: email.trim(), role: inviteRole });
+            }}
+          >
+            <Input
+              type="email"
+              value={email}
+              placeholder="Почта пользователя"
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as InviteRole)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">{PLAYLIST_ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer">{PLAYLIST_ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="icon" disabled={!email.trim() || inviteMutation.isPending} title="Пригласить">
+              <UserPlus className="w-4 h-4" />
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-1 max-h-80 overflow-y-auto">
+          {members?.map((member) => {
+            const isSelf = member.userId === user?.id;
+            return (
+              <div key={member.userId} className="flex items-center gap-3 rounded-lg p-2 hover:bg-secondary/50">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {member.name ?? member.email ?? "Без имени"}
+                    {isSelf && <span className="text-muted-foreground font-normal"> (вы)</span>}
+                  </p>
+                  {member.email && (
+                    <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                  )}
+                </div>
+
+                {isOwner && member.role !== "owner" ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(v) => setRoleMutation.mutate({ playlistId, userId: member.userId, role: v as InviteRole })}
+                    >
+                      <SelectTrigger size="sm" className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor">{PLAYLIST_ROLE_LABELS.editor}</SelectItem>
+                        <SelectItem value="viewer">{PLAYLIST_ROLE_LABELS.viewer}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Удалить из плейлиста"
+                      onClick={() => removeMutation.mutate({ playlistId, userId: member.userId })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-xs text-muted-foreground">{PLAYLIST_ROLE_LABELS[member.role]}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {!isOwner && user && (
+          <Button
+            variant="ghost"
+            className="text-destructive justify-start"
+            disabled={removeMutation.isPending}
+            onClick={() => removeMutation.mutate({ playlistId, userId: user.id })}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Выйти из плейлиста
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
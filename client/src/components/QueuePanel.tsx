@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { GripVertical, X, Play, ListMusic, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useMusicPlayer, Track } from "@/contexts/MusicPlayerContext";
+import { cn } from "@/lib/utils";
+
+interface QueuePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function QueuePanel({ open, onOpenChange }: QueuePanelProps) {
+  const {
+    currentTrack,
+    queue,
+    history,
+    playFromQueue,
+    moveInQueue,
+    removeFromQueue,
+    clearQueue,
+    playNext,
+  } = useMusicPlayer();
+
+  // Индекс перетаскиваемого элемента и текущая позиция "над" которой он находится
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      moveInQueue(dragIndex, index);
+    }
+    resetDrag();
+  };
+
+  // Последние сыгранные — сверху
+  const recent = [...history].reverse().slice(0, 20);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md p-0 gap-0">
+        <SheetHeader className="border-b border-border">
+          <SheetTitle className="flex items-center gap-2">
+            <ListMusic className="w-5 h-5" />
+            Очередь
+          </SheetTitle>
+          <SheetDescription>
+            Перетаскивайте треки, чтобы изменить порядок
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="p-4 space-y-6">
+            {/* Now Playing */}
+            {currentTrack && (
+              <section>
+                <h3 className="text-xs uppercase tracking-wider text-muted-foreground mb-2">
+                  Сейчас играет
+                </h3>
+                <QueueRow track={currentTrack} active />
+              </section>
+            )}
+
+            {/* Up Next */}
+            <section>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs uppercase tracking-wider text-muted-foreground">
+                  Далее · {queue.length}
+                </h3>
+                {queue.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-muted-foreground"
+                    onClick={clearQueue}
+                  >
+                    Очистить
+                  </Button>
+                )}
+              </div>
+
+              {queue.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  Очередь пуста
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {queue.map((track, index) => (
+                    <div
+                      key={`${track.id}-${index}`}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        setDragIndex(index);
+                      }}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = "move";
+                        if (overIndex !== index) setOverIndex(index);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(index);
+                      }}
+                      onDragEnd={resetDrag}
+                      className={cn(
+                        "rounded-lg transition-colors",
+                        dragIndex === index && "opacity-40",
+                        overIndex === index && dragIndex !== null && dragIndex !== index && "ring-1 ring-primary"
+                      )}
+                    >
+                      <QueueRow
+                        track={track}
+                        draggable
+                        onPlay={() => playFromQueue(index)}
+                        onRemove={() => removeFromQueue(index)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* History */}
+            {recent.length > 0 && (
+              <section>
+                <h3 className="text-xs uppercase tracking-wider text-muted-foreground mb-2 flex items-center gap-1.5">
+                  <History className="w-3.5 h-3.5" />
+                  Недавно играли
+                </h3>
+                <div className="space-y-1">
+                  {recent.map((track, index) => (
+                    <QueueRow
+                      key={`${track.id}-history-${index}`}
+                      track={track}
+                      muted
+                      playTitle="Играть следующим"
+                      onPlay={() => playNext(track)}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function QueueRow({
+  track,
+  active,
+  muted,
+  draggable,
+  playTitle,
+  onPlay,
+  onRemove,
+}: {
+  track: Track;
+  active?: boolean;
+  muted?: boolean;
+  draggable?: boolean;
+  playTitle?: string;
+  onPlay?: () => void;
+  onRemove?: () => void;
+}) {
+  const artworkUrl = track.artwork_url?.replace("-large", "-t200x200") || track.user.avatar_url;
+
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-2 p-2 rounded-lg hover:bg-secondary/50",
+        active && "bg-secondary",
+        muted && "opacity-70 hover:opacity-100"
+      )}
+    >
+      {draggable && (
+        <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab flex-shrink-0" />
+      )}
+
+      <button
+        className="relative w-10 h-10 rounded-md overflow-hidden bg-secondary flex-shrink-0"
+        onClick={onPlay}
+        disabled={!onPlay}
+        title={playTitle}
+      >
+        {artworkUrl ? (
+          <img src={artworkUrl} alt="" className="w-full h-full object-cover" loading="lazy" decoding="async" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <Play className="w-4 h-4 text-muted-foreground" />
+          </div>
+        )}
+        {onPlay && (
+          <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+            <Play className="w-4 h-4 text-white" fill="white" />
+          </div>
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        <p className={cn("text-sm font-medium truncate", active && "text-primary")}>{track.title}</p>
+        <p className="text-xs text-muted-foreground truncate">{track.user.username}</p>
+      </div>
+
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 opacity-0 group-hover:opacity-100 flex-shrink-0"
+          onClick={onRemove}
+          title="Убрать из очереди"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
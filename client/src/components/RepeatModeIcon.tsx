@@ -0,0 +1,12 @@
+import { Repeat, Repeat1 } from "lucide-react";
+import { RepeatMode } from "@/contexts/MusicPlayerContext";
+
+export const REPEAT_MODE_LABELS: Record<RepeatMode, string> = {
+  off: "Повтор выключен",
+  all: "Повторять очередь",
+  one: "Повторять трек",
+};
+
+export default function RepeatModeIcon({ mode, className }: { mode: RepeatMode; className?: string }) {
+  return mode === "one" ? <Repeat1 className={className} /> : <Repeat className={className} />;
+}
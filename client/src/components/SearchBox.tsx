@@ -0,0 +1,187 @@
+import { forwardRef, useEffect, useState } from "react";
+import { Clock, History, Search as SearchIcon, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandGroup,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+
+const SUGGEST_DEBOUNCE_MS = 150;
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (term: string) => void;
+  onPaste?: (e: React.ClipboardEvent<HTMLInputElement>) => void;
+  onClear: () => void;
+  provider?: string;
+}
+
+/**
+ * Строка поиска с выпадающим списком: недавние запросы (пустое поле) и автодополнение.
+ * Навигация стрелками и выбор Enter - через cmdk
+ */
+const SearchBox = forwardRef<HTMLInputElement, SearchBoxProps>(function SearchBox(
+  { value, onChange, onSubmit, onPaste, onClear, provider },
+  inputRef
+) {
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState("");
+  const [debounced, setDebounced] = useState(value.trim());
+
+  const term = value.trim();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(term), SUGGEST_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  // Новый текст - снова подсвечиваем первый пункт («Искать …» или первый недавний запрос)
+  useEffect(() => {
+    setSelected(term ? `search:${term}` : "");
+  }, [term]);
+
+  const { data: suggestions } = trpc.search.suggestions.useQuery(
+    { query: debounced, provider },
+    { enabled: open && debounced.length > 0, placeholderData: (previous) => previous }
+  );
+
+  const { data: recent } = trpc.search.recent.useQuery(
+    { limit: 8 },
+    { enabled: open && isAuthenticated }
+  );
+
+  const removeRecent = trpc.search.removeRecent.useMutation({
+    onSuccess: () => utils.search.recent.invalidate(),
+  });
+  const clearRecent = trpc.search.clearRecent.useMutation({
+    onSuccess: () => utils.search.recent.invalidate(),
+  });
+
+  const choose = (text: string) => {
+    setOpen(false);
+    onChange(text);
+    onSubmit(text);
+  };
+
+  const visibleSuggestions = term && debounced ? (suggestions ?? []) : [];
+  const visibleRecent = !term ? (recent ?? []) : [];
+  const showDropdown = open && (term.length > 0 || visibleRecent.length > 0);
+
+  return (
+    <Command
+      shouldFilter={false}
+      value={selected}
+      onValueChange={setSelected}
+      className="relative overflow-visible bg-transparent"
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (term) choose(term);
+        }}
+      >
+        <div className="relative">
+          <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground pointer-events-none" />
+          <Input
+            ref={inputRef}
+            type="text"
+            placeholder="Найти треки, исполнителей или вставить ссылку SoundCloud"
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value);
+              setOpen(true);
+            }}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onPaste={onPaste}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") {
+                setOpen(false);
+              } else if (!showDropdown) {
+                // Список закрыт - Enter должен отправить форму, а не уйти в cmdk
+                e.stopPropagation();
+                if (e.key === "ArrowDown") setOpen(true);
+              }
+            }}
+            role="combobox"
+            aria-expanded={showDropdown}
+            className="pl-12 pr-12 h-12 text-base bg-secondary border-0 rounded-xl placeholder:text-muted-foreground"
+          />
+          {value && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8"
+              onClick={onClear}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {showDropdown && (
+        <div
+          className="absolute top-full left-0 right-0 mt-2 z-50 rounded-xl border border-border bg-popover shadow-xl overflow-hidden"
+          // Не отдаём фокус списку, иначе onBlur закроет его до выбора пункта
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandList className="max-h-80">
+            {term && (
+              <CommandGroup>
+                <CommandItem value={`search:${term}`} onSelect={() => choose(term)}>
+                  <SearchIcon />
+                  <span className="truncate">Искать «{term}»</span>
+                </CommandItem>
+                {visibleSuggestions
+                  .filter(s => s.text.toLowerCase() !== term.toLowerCase())
+                  .map((s) => (
+                    <CommandItem key={`${s.source}:${s.text}`} value={`suggest:${s.text}`} onSelect={() => choose(s.text)}>
+                      {s.source === "library" ? <History /> : <SearchIcon className="opacity-50" />}
+                      <span className="truncate">{s.text}</span>
+                    </CommandItem>
+                  ))}
+              </CommandGroup>
+            )}
+
+            {visibleRecent.length > 0 && (
+              <CommandGroup heading="Недавние запросы">
+                {visibleRecent.map((item) => (
+                  <CommandItem key={item.id} value={`recent:${item.id}`} onSelect={() => choose(item.query)}>
+                    <Clock />
+                    <span className="truncate flex-1">{item.query}</span>
+                    <button
+                      type="button"
+                      className="p-1 rounded text-muted-foreground hover:text-foreground"
+                      aria-label="Удалить из истории"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeRecent.mutate({ id: item.id });
+                      }}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </CommandItem>
+                ))}
+                <CommandItem value="recent:clear" onSelect={() => clearRecent.mutate()}>
+                  <span className="text-xs text-muted-foreground">Очистить историю поиска</span>
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  );
+});
+
+export default SearchBox;
@@ -0,0 +1,170 @@
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export const SEARCH_GENRES = [
+  "Hip-hop", "Electronic", "Lo-fi", "Jazz", "Rock", "Indie", "Pop", "R&B"
+];
+
+const DURATION_OPTIONS = {
+  any: { label: "Любая длительность" },
+  short: { label: "До 2 минут", max: 2 * MINUTE },
+  medium: { label: "2–10 минут", min: 2 * MINUTE, max: 10 * MINUTE },
+  long: { label: "10–30 минут", min: 10 * MINUTE, max: 30 * MINUTE },
+  epic: { label: "Больше 30 минут", min: 30 * MINUTE },
+} as const satisfies Record<string, { label: string; min?: number; max?: number }>;
+
+const PERIOD_OPTIONS = {
+  any: { label: "За всё время" },
+  day: { label: "За сутки", ms: DAY },
+  week: { label: "За неделю", ms: 7 * DAY },
+  month: { label: "За месяц", ms: 30 * DAY },
+  year: { label: "За год", ms: 365 * DAY },
+} as const satisfies Record<string, { label: string; ms?: number }>;
+
+const LICENSE_OPTIONS = {
+  any: "Любая лицензия",
+  to_share: "Можно делиться",
+  to_use_commercially: "Коммерческое использование",
+  to_modify_commercially: "Можно изменять",
+} as const;
+
+const SORT_OPTIONS = {
+  relevance: "По релевантности",
+  newest: "Сначала новые",
+  oldest: "Сначала старые",
+  popular: "Популярные",
+  longest: "Сначала длинные",
+  shortest: "Сначала короткие",
+} as const;
+
+export interface SearchFilterState {
+  genre: string;
+  duration: keyof typeof DURATION_OPTIONS;
+  period: keyof typeof PERIOD_OPTIONS;
+  license: keyof typeof LICENSE_OPTIONS;
+  sort: keyof typeof SORT_OPTIONS;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilterState = {
+  genre: "any",
+  duration: "any",
+  period: "any",
+  license: "any",
+  sort: "relevance",
+};
+
+/**
+ * Состояние фильтров -> параметры search.tracks.
+ * Период считается от момента вызова, поэтому результат стоит мемоизировать
+ */
+export function toTrackSearchInput(state: SearchFilterState) {
+  const duration: { label: string; min?: number; max?: number } = DURATION_OPTIONS[state.duration];
+  const period: { label: string; ms?: number } = PERIOD_OPTIONS[state.period];
+
+  return {
+    filters: {
+      genre: state.genre !== "any" ? state.genre : undefined,
+      minDuration: duration.min,
+      maxDuration: duration.max,
+      createdFrom: period.ms ? new Date(Date.now() - period.ms) : undefined,
+      license: state.license !== "any" ? state.license : undefined,
+    },
+    sort: state.sort,
+  };
+}
+
+interface SearchFiltersBarProps {
+  value: SearchFilterState;
+  onChange: (value: SearchFilterState) => void;
+}
+
+export default function SearchFiltersBar({ value, onChange }: SearchFiltersBarProps) {
+  const set = <K extends keyof SearchFilterState>(key: K, next: SearchFilterState[K]) =>
+    onChange({ ...value, [key]: next });
+
+  const isDefault = (Object.keys(DEFAULT_SEARCH_FILTERS) as (keyof SearchFilterState)[])
+    .every(key => value[key] === DEFAULT_SEARCH_FILTERS[key]);
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1 -mb-1">
+      <Select value={value.sort} onValueChange={(v) => set("sort", v as SearchFilterState["sort"])}>
+        <SelectTrigger size="sm" className="rounded-full bg-secondary border-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(SORT_OPTIONS).map(([key, label]) => (
+            <SelectItem key={key} value={key}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={value.genre} onValueChange={(v) => set("genre", v)}>
+        <SelectTrigger size="sm" className="rounded-full bg-secondary border-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="any">Все жанры</SelectItem>
+          {SEARCH_GENRES.map((genre) => (
+            <SelectItem key={genre} value={genre}>{genre}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={value.duration} onValueChange={(v) => set("duration", v as SearchFilterState["duration"])}>
+        <SelectTrigger size="sm" className="rounded-full bg-secondary border-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(DURATION_OPTIONS).map(([key, option]) => (
+            <SelectItem key={key} value={key}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={value.period} onValueChange={(v) => set("period", v as SearchFilterState["period"])}>
+        <SelectTrigger size="sm" className="rounded-full bg-secondary border-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(PERIOD_OPTIONS).map(([key, option]) => (
+            <SelectItem key={key} value={key}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={value.license} onValueChange={(v) => set("license", v as SearchFilterState["license"])}>
+        <SelectTrigger size="sm" className="rounded-full bg-secondary border-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(LICENSE_OPTIONS).map(([key, label]) => (
+            <SelectItem key={key} value={key}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {!isDefault && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="rounded-full h-8 flex-shrink-0"
+          onClick={() => onChange(DEFAULT_SEARCH_FILTERS)}
+        >
+          <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+          Сбросить
+        </Button>
+      )}
+    </div>
+  );
+}
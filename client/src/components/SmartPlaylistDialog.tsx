@@ -0,0 +1,381 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { keepPreviousData } from "@tanstack/react-query";
+import { Plus, Sparkles, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import type {
+  SmartPlaylistRules,
+  SmartPlaylistSort,
+  SmartRule,
+  SmartRuleType,
+} from "@shared/smartPlaylist";
+
+// Строка редактора: значения храним строками, пока пользователь печатает
+interface DraftRule {
+  key: number;
+  type: SmartRuleType;
+  op: string;
+  value: string;
+}
+
+const RULE_TYPES: { type: SmartRuleType; label: string }[] = [
+  { type: "genre", label: "Жанр" },
+  { type: "artist", label: "Исполнитель" },
+  { type: "liked", label: "В избранном" },
+  { type: "playCount", label: "Прослушиваний" },
+  { type: "duration", label: "Длительность" },
+  { type: "lastPlayed", label: "Последнее прослушивание" },
+  { type: "neverFinished", label: "Ни разу не дослушан" },
+];
+
+// Операторы правил с выбором сравнения
+const RULE_OPS: Partial<Record<SmartRuleType, { op: string; label: string }[]>> = {
+  playCount: [
+    { op: "gt", label: "больше" },
+    { op: "lt", label: "меньше" },
+  ],
+  duration: [
+    { op: "lt", label: "короче, мин" },
+    { op: "gt", label: "длиннее, мин" },
+  ],
+  lastPlayed: [
+    { op: "within", label: "за последние, дней" },
+    { op: "before", label: "больше дней назад" },
+  ],
+};
+
+const VALUE_PLACEHOLDERS: Partial<Record<SmartRuleType, string>> = {
+  genre: "Techno, House",
+  artist: "Часть имени",
+  liked: "За сколько дней (пусто - за всё время)",
+};
+
+const SORT_LABELS: Record<SmartPlaylistSort, string> = {
+  recentlyPlayed: "Недавно слушал",
+  recentlyLiked: "Недавно лайкнул",
+  mostPlayed: "Чаще всего слушал",
+  title: "По исполнителю",
+  random: "Случайно (раз в день)",
+};
+
+const DEFAULT_DRAFTS: Record<SmartRuleType, Omit<DraftRule, "key">> = {
+  genre: { type: "genre", op: "", value: "" },
+  artist: { type: "artist", op: "", value: "" },
+  liked: { type: "liked", op: "", value: "30" },
+  playCount: { type: "playCount", op: "gt", value: "3" },
+  duration: { type: "duration", op: "lt", value: "4" },
+  lastPlayed: { type: "lastPlayed", op: "before", value: "90" },
+  neverFinished: { type: "neverFinished", op: "", value: "" },
+};
+
+let nextKey = 0;
+const newDraft = (type: SmartRuleType): DraftRule => ({ key: nextKey++, ...DEFAULT_DRAFTS[type] });
+
+function fromRule(rule: SmartRule): DraftRule {
+  const key = nextKey++;
+  switch (rule.type) {
+    case "genre":
+      return { key, type: rule.type, op: "", value: rule.genres.join(", ") };
+    case "artist":
+      return { key, type: rule.type, op: "", value: rule.value };
+    case "liked":
+      return { key, type: rule.type, op: "", value: rule.withinDays?.toString() ?? "" };
+    case "playCount":
+      return { key, type: rule.type, op: rule.op, value: String(rule.value) };
+    case "duration":
+      return { key, type: rule.type, op: rule.op, value: String(Math.round(rule.seconds / 60)) };
+    case "lastPlayed":
+      return { key, type: rule.type, op: rule.op, value: String(rule.days) };
+    case "neverFinished":
+      return { key, type: rule.type, op: "", value: "" };
+  }
+}
+
+// null - строка заполнена не до конца
+function toRule(draft: DraftRule): SmartRule | null {
+  const value = draft.value.trim();
+  const number = Number(value);
+  const isCount = value !== "" && Number.isInteger(number) && number >= 0;
+
+  switch (draft.type) {
+    case "genre": {
+      const genres = value.split(",").map(g => g.trim()).filter(Boolean);
+      return genres.length > 0 ? { type: "genre", genres } : null;
+    }
+    case "artist":
+      return value ? { type: "artist", value } : null;
+    case "liked":
+      if (!value) return { type: "liked" };
+      return isCount && number > 0 ? { type: "liked", withinDays: number } : null;
+    case "playCount":
+      return isCount ? { type: "playCount", op: draft.op as "gt" | "lt", value: number } : null;
+    case "duration":
+      return value !== "" && number >= 0
+        ? { type: "duration", op: draft.op as "lt" | "gt", seconds: Math.round(number * 60) }
+        : null;
+    case "lastPlayed":
+      return isCount && number > 0 ? { type: "lastPlayed", op: draft.op as "within" | "before", days: number } : null;
+    case "neverFinished":
+      return { type: "neverFinished" };
+  }
+}
+
+interface SmartPlaylistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Редактирование правил существующего плейлиста; без него - создание нового
+  playlist?: { id: number; name: string; smartRules: SmartPlaylistRules };
+}
+
+/**
+ * Создание умного плейлиста и правка его правил, с предпросмотром подходящих треков
+ */
+export default function SmartPlaylistDialog({ open, onOpenChange, playlist }: SmartPlaylistDialogProps) {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+  const [match, setMatch] = useState<SmartPlaylistRules["match"]>("all");
+  const [drafts, setDrafts] = useState<DraftRule[]>([]);
+  const [sort, setSort] = useState<SmartPlaylistSort>("recentlyPlayed");
+  const [limit, setLimit] = useState("100");
+
+  // Сбрасываем форму только при открытии: объект playlist пересоздаётся на каждом рендере родителя
+  useEffect(() => {
+    if (!open) return;
+    const rules = playlist?.smartRules;
+    setName(playlist?.name ?? "");
+    setMatch(rules?.match ?? "all");
+    setDrafts(rules ? rules.rules.map(fromRule) : [newDraft("liked")]);
+    setSort(rules?.sort ?? "recentlyPlayed");
+    setLimit(String(rules?.limit ?? 100));
+  }, [open]);
+
+  const rules = useMemo<SmartPlaylistRules | null>(() => {
+    const parsed = drafts.map(toRule);
+    const limitValue = Number(limit);
+    if (parsed.length === 0 || parsed.some(rule => rule === null)) return null;
+    if (!Number.isInteger(limitValue) || limitValue < 1 || limitValue > 500) return null;
+    return { match, rules: parsed as SmartRule[], sort, limit: limitValue };
+  }, [drafts, match, sort, limit]);
+
+  // Предпросмотр не дёргаем на каждую букву
+  const [previewRules, setPreviewRules] = useState<SmartPlaylistRules | null>(null);
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewRules(rules), 400);
+    return () => clearTimeout(timer);
+  }, [rules]);
+
+  const { data: preview, isFetching: previewLoading } = trpc.playlists.previewSmart.useQuery(
+    { rules: previewRules! },
+    { enabled: open && previewRules !== null, placeholderData: keepPreviousData }
+  );
+
+  const createMutation = trpc.playlists.create.useMutation({
+    onSuccess: (created) => {
+      utils.playlists.list.invalidate();
+      toast.success(`Создан умный плейлист «${created.name}»`);
+      onOpenChange(false);
+      setLocation(`/library/playlist/${created.id}`);
+    },
+    onError: () => toast.error("Не удалось создать плейлист"),
+  });
+
+  const updateMutation = trpc.playlists.update.useMutation({
+    onSuccess: () => {
+      if (playlist) utils.playlists.get.invalidate({ playlistId: playlist.id });
+      utils.playlists.list.invalidate();
+      toast.success("Правила сохранены");
+      onOpenChange(false);
+    },
+    onError: () => toast.error("Не удалось сохранить правила"),
+  });
+
+  const updateDraft = (key: number, changes: Partial<DraftRule>) =>
+    setDrafts(prev => prev.map(d => (d.key === key ? { ...d, ...changes } : d)));
+
+  const trimmedName = name.trim();
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rules || !trimmedName) return;
+    if (playlist) {
+      updateMutation.mutate({ playlistId: playlist.id, name: trimmedName, smartRules: rules });
+    } else {
+      createMutation.mutate({ name: trimmedName, smartRules: rules });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Sparkles className="w-4 h-4 text-primary" />
+              {playlist ? "Правила умного плейлиста" : "Новый умный плейлист"}
+            </DialogTitle>
+            <DialogDescription>
+              Треки подбираются из вашего избранного и истории и обновляются сами
+            </DialogDescription>
+          </DialogHeader>
+
+          <Input
+            value={name}
+            maxLength={255}
+            placeholder="Название плейлиста"
+            onChange={(e) => setName(e.target.value)}
+          />
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>Треки, подходящие под</span>
+            <Select value={match} onValueChange={(v) => setMatch(v as SmartPlaylistRules["match"])}>
+              <SelectTrigger size="sm" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">все условия</SelectItem>
+                <SelectItem value="any">любое условие</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2 max-h-[40vh] overflow-y-auto pr-1">
+            {drafts.map((draft) => {
+              const ops = RULE_OPS[draft.type];
+              const invalid = toRule(draft) === null;
+              return (
+                <div key={draft.key} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                  <Select
+                    value={draft.type}
+                    onValueChange={(type) => updateDraft(draft.key, DEFAULT_DRAFTS[type as SmartRuleType])}
+                  >
+                    <SelectTrigger size="sm" className="w-52">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RULE_TYPES.map(({ type, label }) => (
+                        <SelectItem key={type} value={type}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {ops && (
+                    <Select value={draft.op} onValueChange={(op) => updateDraft(draft.key, { op })}>
+                      <SelectTrigger size="sm" className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ops.map(({ op, label }) => (
+                          <SelectItem key={op} value={op}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {draft.type !== "neverFinished" && (
+                    <Input
+                      value={draft.value}
+                      inputMode={ops || draft.type === "liked" ? "numeric" : undefined}
+                      placeholder={VALUE_PLACEHOLDERS[draft.type]}
+                      aria-invalid={invalid}
+                      className="h-8 flex-1 min-w-24"
+                      onChange={(e) => updateDraft(draft.key, { value: e.target.value })}
+                    />
+                  )}
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 ml-auto flex-shrink-0"
+                    title="Убрать условие"
+                    disabled={drafts.length === 1}
+                    onClick={() => setDrafts(prev => prev.filter(d => d.key !== draft.key))}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={drafts.length >= 20}
+            onClick={() => setDrafts(prev => [...prev, newDraft("genre")])}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Добавить условие
+          </Button>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Порядок</span>
+            <Select value={sort} onValueChange={(v) => setSort(v as SmartPlaylistSort)}>
+              <SelectTrigger size="sm" className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>не больше</span>
+            <Input
+              value={limit}
+              inputMode="numeric"
+              className="h-8 w-20"
+              onChange={(e) => setLimit(e.target.value)}
+            />
+            <span>треков</span>
+          </div>
+
+          <div className="rounded-lg bg-secondary/40 p-3 text-sm">
+            {!rules ? (
+              <span className="text-muted-foreground">Заполните условия, чтобы увидеть треки</span>
+            ) : preview ? (
+              <div className={previewLoading ? "opacity-60" : undefined}>
+                <p className="font-medium mb-1">Подходит треков: {preview.count}</p>
+                <p className="text-muted-foreground line-clamp-2">
+                  {preview.tracks.map(t => `${t.artist} — ${t.title}`).join(" · ")}
+                </p>
+              </div>
+            ) : (
+              <span className="text-muted-foreground">Подбираем треки...</span>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Отмена
+            </Button>
+            <Button type="submit" disabled={!rules || !trimmedName || saving}>
+              {playlist ? "Сохранить" : "Создать"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,33 +1,53 @@
-import { Play, Pause, MoreHorizontal, PlusCircle, Heart, ThumbsDown } from "lucide-react";
+import { Play, Pause, MoreHorizontal, PlusCircle, ListStart, Heart, ThumbsDown, Info } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useMusicPlayer, Track } from "@/contexts/MusicPlayerContext";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useMusicPlayer, Track, getTrackRef, getTrackData } from "@/contexts/MusicPlayerContext";
 import { cn } from "@/lib/utils";
 import { useState } from "react";
+import { Link } from "wouter";
 import {
   DropdownMenu,
   DropdownMenuContent,
-  DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  AddToPlaylistSubmenu,
+  CreatePlaylistDialog,
+  MENU_PRIMITIVES,
+  type MenuKind,
+} from "@/components/AddToPlaylistMenu";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
+import { describeRecommendationReason, type TrackRecommendation } from "@shared/recommendationReason";
 
 interface TrackCardProps {
   track: Track;
   playlistContext?: Track[];
   indexInPlaylist?: number;
   variant?: "default" | "compact" | "list";
+  // Режим мультивыбора: клик переключает выбор вместо воспроизведения
+  selected?: boolean;
+  onToggleSelect?: () => void;
 }
 
 export default function TrackCard({ 
   track, 
   playlistContext, 
   indexInPlaylist,
-  variant = "default" 
+  variant = "default",
+  selected = false,
+  onToggleSelect,
 }: TrackCardProps) {
-  const { currentTrack, isPlaying, playTrack, playPlaylist, togglePlay, addToQueue, preloadTracks } = useMusicPlayer();
+  const { currentTrack, isPlaying, playTrack, playPlaylist, togglePlay, addToQueue, playNext, preloadTracks } = useMusicPlayer();
   const [isHovered, setIsHovered] = useState(false);
+  const [createFor, setCreateFor] = useState<Track[] | null>(null);
   const { isAuthenticated } = useAuth();
   const utils = trpc.useUtils();
 
@@ -44,16 +64,8 @@ export default function TrackCard({
       return;
     }
     setPreferenceMutation.mutate({
-      soundcloudId: track.id.toString(),
-      trackData: {
-        title: track.title,
-        artist: track.user.username,
-        artworkUrl: track.artwork_url,
-        duration: track.duration,
-        streamUrl: track.stream_url,
-        permalinkUrl: track.permalink_url,
-        genre: track.genre,
-      },
+      soundcloudId: getTrackRef(track),
+      trackData: getTrackData(track),
       preference,
     });
     toast.success(preference === "like" ? "Добавлено в избранное" : "Помечено как «Не нравится»");
@@ -64,6 +76,11 @@ export default function TrackCard({
 
   const handlePlayClick = (e: React.MouseEvent) => {
     e.stopPropagation();
+
+    if (onToggleSelect) {
+      onToggleSelect();
+      return;
+    }
     
     if (isCurrentTrack) {
       togglePlay();
@@ -87,14 +104,59 @@ export default function TrackCard({
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
+  // Пункты меню трека - общие для кнопки «…» и контекстного меню (правый клик)
+  const renderMenuItems = (menu: MenuKind) => {
+    const { Item, Separator } = MENU_PRIMITIVES[menu];
+    return (
+      <>
+        <Item onClick={() => playNext(track)}>
+          <ListStart className="mr-2 h-4 w-4" /> Играть следующим
+        </Item>
+        <Item onClick={() => addToQueue(track)}>
+          <PlusCircle className="mr-2 h-4 w-4" /> В очередь
+        </Item>
+        <Item onClick={() => setPreference("like")}>
+          <Heart className="mr-2 h-4 w-4" /> В избранное
+        </Item>
+        <Item onClick={() => setPreference("dislike")}>
+          <ThumbsDown className="mr-2 h-4 w-4" /> Не нравится
+        </Item>
+        <Separator />
+        <AddToPlaylistSubmenu menu={menu} tracks={[track]} onCreateNew={() => setCreateFor([track])} />
+      </>
+    );
+  };
+
+  // Клики внутри меню (они в портале, но всплывают по дереву React) не должны запускать трек
+  const withContextMenu = (card: React.ReactElement) => (
+    <>
+      <ContextMenu>
+        <ContextMenuTrigger asChild>{card}</ContextMenuTrigger>
+        <ContextMenuContent className="w-56" onClick={(e) => e.stopPropagation()}>
+          {renderMenuItems("context")}
+        </ContextMenuContent>
+      </ContextMenu>
+      <CreatePlaylistDialog tracks={createFor} onOpenChange={(open) => !open && setCreateFor(null)} />
+    </>
+  );
+
+  const selectBox = onToggleSelect && (
+    <Checkbox
+      checked={selected}
+      onCheckedChange={onToggleSelect}
+      onClick={(e) => e.stopPropagation()}
+      aria-label="Выбрать трек"
+    />
+  );
+
   // List variant (for library/search results)
   if (variant === "list") {
-    return (
+    return withContextMenu(
       <div 
         className={cn(
           "flex items-center gap-3 p-3 rounded-lg transition-colors cursor-pointer group",
           "hover:bg-secondary/50",
-          isCurrentTrack && "bg-secondary"
+          (isCurrentTrack || selected) && "bg-secondary"
         )}
         onClick={handlePlayClick}
         onMouseEnter={() => {
@@ -104,6 +166,8 @@ export default function TrackCard({
         onMouseLeave={() => setIsHovered(false)}
         onTouchStart={() => preloadTracks([track])}
       >
+        {selectBox}
+
         {/* Artwork */}
         <div className="relative w-12 h-12 rounded-md overflow-hidden bg-secondary flex-shrink-0">
           {artworkUrl ? (
@@ -134,9 +198,13 @@ export default function TrackCard({
           )}>
             {track.title}
           </p>
-          <p className="text-xs text-muted-foreground truncate">{track.user.username}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            <ArtistName track={track} />
+          </p>
         </div>
 
+        {track.recommendation && <RecommendationHint recommendation={track.recommendation} />}
+
         {/* Duration */}
         <span className="text-xs text-muted-foreground tabular-nums">
           {formatDuration(track.duration)}
@@ -154,16 +222,8 @@ export default function TrackCard({
               <MoreHorizontal className="h-4 w-4" />
             </Button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={(e) => { e.stopPropagation(); addToQueue(track); }}>
-              <PlusCircle className="mr-2 h-4 w-4" /> В очередь
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setPreference("like"); }}>
-              <Heart className="mr-2 h-4 w-4" /> В избранное
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setPreference("dislike"); }}>
-              <ThumbsDown className="mr-2 h-4 w-4" /> Не нравится
-            </DropdownMenuItem>
+          <DropdownMenuContent align="end" className="w-56" onClick={(e) => e.stopPropagation()}>
+            {renderMenuItems("dropdown")}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
@@ -171,9 +231,9 @@ export default function TrackCard({
   }
 
   // Default card variant
-  return (
+  return withContextMenu(
     <div 
-      className="group cursor-pointer"
+      className={cn("group cursor-pointer rounded-lg", selected && "ring-2 ring-primary")}
       onMouseEnter={() => {
         setIsHovered(true);
         preloadTracks([track]);
@@ -229,6 +289,12 @@ export default function TrackCard({
           </Button>
         </div>
 
+        {selectBox && (
+          <div className="absolute top-2 left-2 rounded bg-black/50 p-1">
+            {selectBox}
+          </div>
+        )}
+
         {/* Menu Button */}
         <div className={cn(
           "absolute top-2 right-2 transition-opacity duration-200",
@@ -245,16 +311,8 @@ export default function TrackCard({
                 <MoreHorizontal className="h-4 w-4" />
               </Button>
             </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); addToQueue(track); }}>
-                <PlusCircle className="mr-2 h-4 w-4" /> Добавить в очередь
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setPreference("like"); }}>
-                <Heart className="mr-2 h-4 w-4" /> В избранное
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setPreference("dislike"); }}>
-                <ThumbsDown className="mr-2 h-4 w-4" /> Не нравится
-              </DropdownMenuItem>
+            <DropdownMenuContent align="end" className="w-56" onClick={(e) => e.stopPropagation()}>
+              {renderMenuItems("dropdown")}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -268,10 +326,56 @@ export default function TrackCard({
         )}>
           {track.title}
         </p>
-        <p className="text-xs text-muted-foreground truncate">
-          {track.user.username}
-        </p>
+        <div className="flex items-center gap-1">
+          <p className="text-xs text-muted-foreground truncate">
+            <ArtistName track={track} />
+          </p>
+          {track.recommendation && <RecommendationHint recommendation={track.recommendation} />}
+        </div>
       </div>
     </div>
   );
 }
+
+// Почему трек попал в микс; составляющие оценки - мелко, для отладки
+function RecommendationHint({ recommendation }: { recommendation: TrackRecommendation }) {
+  const breakdown = Object.entries(recommendation.breakdown)
+    .map(([name, value]) => `${name} ${value}`)
+    .join(" · ");
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className="flex-shrink-0 text-muted-foreground/70 hover:text-foreground"
+          aria-label="Почему этот трек"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Info className="w-3.5 h-3.5" />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-64">
+        <p>{describeRecommendationReason(recommendation.reason)}</p>
+        {breakdown && <p className="mt-1 font-mono text-[10px] opacity-70">{breakdown}</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+// Имя исполнителя - ссылка на его страницу (только для SoundCloud, у остальных источников страниц нет)
+function ArtistName({ track }: { track: Track }) {
+  const hasArtistPage = (!track.provider || track.provider === "soundcloud") && track.user.id > 0;
+  if (!hasArtistPage) {
+    return <>{track.user.username}</>;
+  }
+
+  return (
+    <Link
+      href={`/artist/${track.user.id}`}
+      className="hover:text-foreground hover:underline"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {track.user.username}
+    </Link>
+  );
+}
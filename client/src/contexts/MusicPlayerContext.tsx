@@ -2,6 +2,29 @@ import { createContext, useContext, useState, useRef, useEffect, useCallback, Re
 import { trpc } from "@/lib/trpc";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { toast } from "sonner";
+import type { TrackRecommendation } from "@shared/recommendationReason";
+
+/**
+ * Очереди приходят из JSON двумя отдельными массивами, а плеер сравнивает треки
+ * по ссылке (indexOf, filter). Связываем: трек playOrder - тот же объект, что в originalOrder.
+ * Повторы одного трека сопоставляем по порядку; чего нет в originalOrder (обрезан) - дописываем
+ */
+function relinkSavedQueue(playOrder: Track[], originalOrder: Track[]) {
+  const original = originalOrder.length > 0 ? [...originalOrder] : [...playOrder];
+  const pool = new Map<string, Track[]>();
+  for (const track of original) {
+    const ref = getTrackRef(track);
+    pool.set(ref, [...(pool.get(ref) ?? []), track]);
+  }
+
+  const linked = playOrder.map((track) => {
+    const match = pool.get(getTrackRef(track))?.shift();
+    if (match) return match;
+    original.push(track);
+    return track;
+  });
+  return { playOrder: linked, originalOrder: original };
+}
 
 function getOrCreateSessionId(): string {
   if (typeof window === "undefined") return "server";
@@ -45,11 +68,70 @@ export interface Track {
   created_at: string;
   stream_url?: string;
   soundcloudId?: string;
+  // Каталог, из которого трек; не задан - SoundCloud
+  provider?: string;
   media?: {
     transcodings: SoundCloudTranscoding[];
   };
+  // Почему трек в рекомендациях (только у треков миксов)
+  recommendation?: TrackRecommendation;
+}
+
+const DEFAULT_PROVIDER = "soundcloud";
+
+// Provider-qualified id трека ("local:42"); для SoundCloud - просто id, как раньше
+export function getTrackRef(track: Track): string {
+  if (track.provider && track.provider !== DEFAULT_PROVIDER) {
+    return `${track.provider}:${track.id}`;
+  }
+  return track.soundcloudId || track.id.toString();
+}
+
+// Метаданные трека в формате trackData мутаций (лайки, плейлисты)
+export function getTrackData(track: Track) {
+  return {
+    title: track.title,
+    artist: track.user.username,
+    artworkUrl: track.artwork_url,
+    duration: track.duration,
+    streamUrl: track.stream_url,
+    permalinkUrl: track.permalink_url,
+    genre: track.genre,
+  };
+}
+
+// Трек из БД (таблица tracks) - как его отдают лайки, история и плейлисты
+export interface StoredTrack {
+  soundcloudId: string;
+  provider: string;
+  title: string;
+  artist: string;
+  artworkUrl: string | null;
+  duration: number;
+  permalinkUrl: string | null;
+  genre: string | null;
+  streamUrl?: string | null;
+  createdAt: Date;
+}
+
+export function fromStoredTrack(track: StoredTrack): Track {
+  return {
+    id: parseInt(track.soundcloudId),
+    provider: track.provider,
+    title: track.title,
+    user: { id: 0, username: track.artist, avatar_url: null },
+    artwork_url: track.artworkUrl ?? null,
+    duration: track.duration,
+    permalink_url: track.permalinkUrl ?? '',
+    genre: track.genre ?? null,
+    created_at: track.createdAt.toISOString(),
+    stream_url: track.streamUrl ?? undefined,
+    soundcloudId: track.soundcloudId,
+  };
 }
 
+export type RepeatMode = "off" | "all" | "one";
+
 interface MusicPlayerContextType {
   currentTrack: Track | null;
   isPlaying: boolean;
@@ -58,6 +140,9 @@ interface MusicPlayerContextType {
   currentTime: number;
   duration: number;
   queue: Track[];
+  history: Track[];
+  shuffle: boolean;
+  repeatMode: RepeatMode;
   playTrack: (track: Track) => void;
   playPlaylist: (tracks: Track[], startIndex?: number) => void;
   togglePlay: () => void;
@@ -68,21 +153,31 @@ interface MusicPlayerContextType {
   nextTrack: () => void;
   previousTrack: () => void;
   addToQueue: (track: Track) => void;
+  playNext: (track: Track) => void;
+  moveInQueue: (fromIndex: number, toIndex: number) => void;
+  removeFromQueue: (index: number) => void;
+  playFromQueue: (index: number) => void;
   clearQueue: () => void;
+  toggleShuffle: () => void;
+  cycleRepeatMode: () => void;
   preloadTracks: (tracks: Track[]) => void;
+  isFullscreen: boolean;
+  setFullscreen: (open: boolean) => void;
 }
 
 const MusicPlayerContext = createContext<MusicPlayerContextType | undefined>(undefined);
 
 // Глобальный кэш stream URL (сохраняется между ремаунтами)
-const streamUrlCache = new Map<number, string>();
-const preloadingSet = new Set<number>();
-const inflightStreamUrl = new Map<number, Promise<string | null>>();
+// Ключ во всех кэшах - getTrackRef(track), чтобы id разных провайдеров не пересекались
+const streamUrlCache = new Map<string, string>();
+const preloadingSet = new Set<string>();
+const inflightStreamUrl = new Map<string, Promise<string | null>>();
 
 // Кэш для preload Audio элементов
-const audioPreloadCache = new Map<number, HTMLAudioElement>();
+const audioPreloadCache = new Map<string, HTMLAudioElement>();
 
-const STREAM_URL_PERSIST_KEY = "scapp_stream_url_cache_v1";
+// v3: вместо прямых ссылок на CDN храним ссылки на серверный прокси, ключ - ref трека
+const STREAM_URL_PERSIST_KEY = "scapp_stream_url_cache_v3";
 const STREAM_URL_PERSIST_TTL_MS = 60 * 60 * 1000; // 1 час
 
 function loadPersistedStreamUrlCache() {
@@ -95,12 +190,7 @@ function loadPersistedStreamUrlCache() {
 
     const now = Date.now();
     let changed = false;
-    for (const [k, v] of Object.entries(parsed)) {
-      const trackId = Number.parseInt(k, 10);
-      if (!Number.isFinite(trackId)) {
-        changed = true;
-        continue;
-      }
+    for (const [trackRef, v] of Object.entries(parsed)) {
       if (!v || typeof v.url !== "string" || typeof v.exp !== "number") {
         changed = true;
         continue;
@@ -109,8 +199,8 @@ function loadPersistedStreamUrlCache() {
         changed = true;
         continue;
       }
-      if (!streamUrlCache.has(trackId)) {
-        streamUrlCache.set(trackId, v.url);
+      if (!streamUrlCache.has(trackRef)) {
+        streamUrlCache.set(trackRef, v.url);
       }
     }
 
@@ -129,14 +219,14 @@ function loadPersistedStreamUrlCache() {
   }
 }
 
-function persistStreamUrl(trackId: number, url: string) {
+function persistStreamUrl(trackRef: string, url: string) {
   if (typeof window === "undefined") return;
   try {
     const now = Date.now();
     const raw = window.localStorage.getItem(STREAM_URL_PERSIST_KEY);
     const parsed = (raw ? (JSON.parse(raw) as Record<string, { url: string; exp: number }>) : {}) ?? {};
 
-    parsed[String(trackId)] = { url, exp: now + STREAM_URL_PERSIST_TTL_MS };
+    parsed[trackRef] = { url, exp: now + STREAM_URL_PERSIST_TTL_MS };
 
     // Keep last ~50 entries by expiration
     const entries = Object.entries(parsed)
@@ -152,6 +242,52 @@ function persistStreamUrl(trackId: number, url: string) {
   }
 }
 
+// Fisher–Yates: порядок фиксируется один раз при включении shuffle
+function shuffleTracks(tracks: Track[]): Track[] {
+  const result = [...tracks];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+const MAX_HISTORY_LENGTH = 50;
+
+const NEXT_REPEAT_MODE: Record<RepeatMode, RepeatMode> = {
+  off: "all",
+  all: "one",
+  one: "off",
+};
+
+// Синхронизация состояния плеера с сервером (для продолжения на другом устройстве)
+const STATE_SAVE_DEBOUNCE_MS = 2000;
+const POSITION_SAVE_INTERVAL_MS = 15_000;
+const MAX_PERSISTED_TRACKS = 500;
+
+type PersistedTrack = Omit<Track, "stream_url">;
+
+// stream_url протухает, поэтому на сервер его не отправляем
+function toPersistedTrack(track: Track): PersistedTrack {
+  return {
+    id: track.id,
+    title: track.title,
+    user: {
+      id: track.user.id,
+      username: track.user.username,
+      avatar_url: track.user.avatar_url ?? null,
+    },
+    artwork_url: track.artwork_url ?? null,
+    duration: track.duration,
+    permalink_url: track.permalink_url,
+    genre: track.genre ?? null,
+    created_at: track.created_at,
+    soundcloudId: track.soundcloudId,
+    provider: track.provider,
+    media: track.media ? { transcodings: track.media.transcodings } : undefined,
+  };
+}
+
 type PlaybackSession = {
   track: Track;
   playRequestedAtMs: number;
@@ -168,9 +304,23 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [queue, setQueue] = useState<Track[]>([]);
+  const [history, setHistory] = useState<Track[]>([]);
+  const [shuffle, setShuffle] = useState(false);
+  const [isFullscreen, setFullscreen] = useState(false);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>("off");
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const queueRef = useRef<Track[]>([]);
+  // Порядок воспроизведения: исходный список и текущий (исходный или перемешанный)
+  const originalOrderRef = useRef<Track[]>([]);
+  const playOrderRef = useRef<Track[]>([]);
+  // Указатель "сейчас играет" в playOrderRef
+  const orderIndexRef = useRef(-1);
+  const nowPlayingRef = useRef<Track | null>(null);
+  // Стек ранее сыгранных треков (последний — самый свежий), живёт между сменами плейлиста
+  const historyRef = useRef<Track[]>([]);
+  const shuffleRef = useRef(false);
+  const repeatModeRef = useRef<RepeatMode>("off");
   const { isAuthenticated } = useAuth();
   const utils = trpc.useUtils(); 
   const addHistoryMutation = trpc.history.add.useMutation();
@@ -181,18 +331,29 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
   const trackEventRef = useRef<(event: string, track?: Track | null, meta?: unknown) => void>(() => undefined);
   const finalizePlaybackRef = useRef<(reason: string) => void>(() => undefined);
   const playTokenRef = useRef(0);
+  const saveStateMutation = trpc.player.saveState.useMutation();
+  const isAuthenticatedRef = useRef(isAuthenticated);
+  const saveStateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const persistStateRef = useRef<() => void>(() => undefined);
+  // Позиция (в секундах), на которую нужно перемотать после загрузки восстановленного трека
+  const pendingSeekRef = useRef<number | null>(null);
+  const restoreCheckedRef = useRef(false);
 
   useEffect(() => {
     loadPersistedStreamUrlCache();
   }, []);
 
+  useEffect(() => {
+    isAuthenticatedRef.current = isAuthenticated;
+  }, [isAuthenticated]);
+
   const trackEvent = useCallback((event: string, track?: Track | null, meta?: unknown) => {
     try {
       trackEventMutation.mutate({
         event,
         sessionId: sessionIdRef.current,
         page: typeof window !== "undefined" ? window.location.pathname : undefined,
-        trackSoundcloudId: track ? (track.soundcloudId || track.id.toString()) : undefined,
+        trackSoundcloudId: track ? getTrackRef(track) : undefined,
         trackTitle: track?.title,
         meta,
       });
@@ -228,7 +389,7 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
 
       if (shouldRecord) {
         addHistoryMutation.mutate({
-          soundcloudId: session.track.soundcloudId || session.track.id.toString(),
+          soundcloudId: getTrackRef(session.track),
           trackData: {
             title: session.track.title,
             artist: session.track.user.username,
@@ -260,15 +421,26 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
     queueRef.current = queue;
   }, [queue]);
 
+  useEffect(() => {
+    shuffleRef.current = shuffle;
+  }, [shuffle]);
+
+  useEffect(() => {
+    repeatModeRef.current = repeatMode;
+  }, [repeatMode]);
+
   // Функция получения stream URL с кэшированием (БЫСТРАЯ версия)
-  const getStreamUrl = useCallback(async (trackId: number, transcodings?: SoundCloudTranscoding[]): Promise<string | null> => {
+  const getStreamUrl = useCallback(async (track: Track): Promise<string | null> => {
+    const trackRef = getTrackRef(track);
+    const transcodings = track.media?.transcodings;
+
     // Проверяем кэш - мгновенный ответ
-    if (streamUrlCache.has(trackId)) {
-      return streamUrlCache.get(trackId)!;
+    if (streamUrlCache.has(trackRef)) {
+      return streamUrlCache.get(trackRef)!;
     }
 
-    // Дедуп запросов к одному и тому же trackId
-    const inflight = inflightStreamUrl.get(trackId);
+    // Дедуп запросов к одному и тому же треку
+    const inflight = inflightStreamUrl.get(trackRef);
     if (inflight) {
       return await inflight;
     }
@@ -279,14 +451,14 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
       
       // Если есть transcodings - используем быстрый эндпоинт (пропускаем getTrack)
       if (transcodings && transcodings.length > 0) {
-        url = await utils.tracks.getStreamUrlFast.fetch({ trackId, transcodings });
+        url = await utils.tracks.getStreamUrlFast.fetch({ trackId: track.id, provider: track.provider, transcodings });
       } else {
-        url = await utils.tracks.getStreamUrl.fetch({ trackId });
+        url = await utils.tracks.getStreamUrl.fetch({ trackId: track.id, provider: track.provider });
       }
       
       if (url) {
-        streamUrlCache.set(trackId, url);
-        persistStreamUrl(trackId, url);
+        streamUrlCache.set(trackRef, url);
+        persistStreamUrl(trackRef, url);
         if (streamUrlCache.size > 100) {
           const firstKey = streamUrlCache.keys().next().value;
           if (firstKey) streamUrlCache.delete(firstKey);
@@ -297,11 +469,11 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
       console.error("Failed to fetch stream URL:", e);
       return null;
     } finally {
-      inflightStreamUrl.delete(trackId);
+      inflightStreamUrl.delete(trackRef);
     }
     })();
 
-    inflightStreamUrl.set(trackId, request);
+    inflightStreamUrl.set(trackRef, request);
     return await request;
   }, [utils]);
 
@@ -320,26 +492,27 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
     const tracksToPreload = tracks.slice(0, maxTracks);
     
     tracksToPreload.forEach(async (track) => {
+      const trackRef = getTrackRef(track);
       // Пропускаем если уже загружено
-      if (preloadingSet.has(track.id) || audioPreloadCache.has(track.id)) return;
-      if (streamUrlCache.has(track.id)) {
+      if (preloadingSet.has(trackRef) || audioPreloadCache.has(trackRef)) return;
+      if (streamUrlCache.has(trackRef)) {
         // URL уже есть - сразу создаём Audio для предзагрузки данных
-        const url = streamUrlCache.get(track.id)!;
-        if (shouldPreloadAudioData && !audioPreloadCache.has(track.id)) {
+        const url = streamUrlCache.get(trackRef)!;
+        if (shouldPreloadAudioData && !audioPreloadCache.has(trackRef)) {
           const audio = new Audio();
           audio.preload = "auto";
           audio.src = url;
-          audioPreloadCache.set(track.id, audio);
-          setTimeout(() => audioPreloadCache.delete(track.id), 3 * 60 * 1000);
+          audioPreloadCache.set(trackRef, audio);
+          setTimeout(() => audioPreloadCache.delete(trackRef), 3 * 60 * 1000);
         }
         return;
       }
         
-        preloadingSet.add(track.id);
+        preloadingSet.add(trackRef);
         
         try {
         // Используем transcodings для быстрого получения URL
-        const url = await getStreamUrl(track.id, track.media?.transcodings);
+        const url = await getStreamUrl(track);
         
         if (!url) return;
           
@@ -348,19 +521,19 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
           return;
         }
 
-        if (!audioPreloadCache.has(track.id)) {
+        if (!audioPreloadCache.has(trackRef)) {
             const audio = new Audio();
             audio.preload = "auto";
             audio.src = url;
-            audioPreloadCache.set(track.id, audio);
+            audioPreloadCache.set(trackRef, audio);
             
           // Удаляем из кэша через 3 минуты
             setTimeout(() => {
-              audioPreloadCache.delete(track.id);
+              audioPreloadCache.delete(trackRef);
           }, 3 * 60 * 1000);
           }
         } finally {
-          preloadingSet.delete(track.id);
+          preloadingSet.delete(trackRef);
         }
     });
   }, [getStreamUrl]);
@@ -384,7 +557,13 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
         playbackRef.current.maxPositionSec = Math.max(playbackRef.current.maxPositionSec, audio.currentTime);
       }
     };
-    const handleDurationChange = () => setDuration(audio.duration);
+    const handleDurationChange = () => {
+      setDuration(audio.duration);
+      if (pendingSeekRef.current !== null && Number.isFinite(audio.duration)) {
+        audio.currentTime = Math.min(pendingSeekRef.current, audio.duration);
+        pendingSeekRef.current = null;
+      }
+    };
     const handleCanPlay = () => setIsLoading(false);
     const handleWaiting = () => {
       setIsLoading(true);
@@ -425,11 +604,14 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
     const handleEnded = () => {
       setIsPlaying(false);
       finalizePlaybackRef.current("ended");
-      // Используем ref вместо state для актуальной очереди
-      if (queueRef.current.length > 0) {
-        const [next, ...rest] = queueRef.current;
-        setQueue(rest);
-        _playInternal(next, "auto_next");
+      // Используем refs вместо state для актуального порядка
+      if (repeatModeRef.current === "one" && orderIndexRef.current >= 0) {
+        _playAtIndex(orderIndexRef.current, "repeat_one");
+        return;
+      }
+      const nextIndex = _getNextIndex(repeatModeRef.current === "all");
+      if (nextIndex !== null) {
+        _playAtIndex(nextIndex, "auto_next");
       }
     };
     
@@ -475,7 +657,10 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
 
   // Best-effort flush on tab close/navigation
   useEffect(() => {
-    const handler = () => finalizePlaybackRef.current("pagehide");
+    const handler = () => {
+      finalizePlaybackRef.current("pagehide");
+      persistStateRef.current();
+    };
     window.addEventListener("pagehide", handler);
     return () => window.removeEventListener("pagehide", handler);
   }, []);
@@ -509,15 +694,17 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
     };
     trackEvent("play_request", track, { reason: startReason });
 
+    const trackRef = getTrackRef(track);
+
     // Проверяем предзагруженный Audio элемент - МГНОВЕННОЕ воспроизведение
-    const preloadedAudio = audioPreloadCache.get(track.id);
+    const preloadedAudio = audioPreloadCache.get(trackRef);
     if (preloadedAudio && preloadedAudio.src) {
       if (token !== playTokenRef.current) return;
       // Используем предзагруженный - моментальный старт!
       suppressPauseEventRef.current = true;
       audioRef.current.pause();
       audioRef.current.src = preloadedAudio.src;
-      audioPreloadCache.delete(track.id);
+      audioPreloadCache.delete(trackRef);
       
       audioRef.current.play().then(() => {
         setIsPlaying(true);
@@ -527,8 +714,8 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
       });
 
       // Сохраняем stream_url в currentTrack (чтобы лайк/история видели ссылку)
-      setCurrentTrack(prev => (prev && prev.id === track.id) ? { ...prev, stream_url: preloadedAudio.src } : prev);
-      persistStreamUrl(track.id, preloadedAudio.src);
+      setCurrentTrack(prev => (prev && getTrackRef(prev) === trackRef) ? { ...prev, stream_url: preloadedAudio.src } : prev);
+      persistStreamUrl(trackRef, preloadedAudio.src);
       
       // Предзагружаем следующие в фоне
       preloadNextInQueue();
@@ -536,7 +723,8 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
     }
     
     // Проверяем кэш URL
-      let streamUrl = streamUrlCache.get(track.id) || track.stream_url;
+      // track.stream_url может быть устаревшей прямой ссылкой (например, из истории) — не используем её
+      let streamUrl = streamUrlCache.get(trackRef);
       
     // Если URL есть - сразу играем, не ждём
     if (streamUrl) {
@@ -551,8 +739,8 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
         setIsLoading(false);
       });
 
-      setCurrentTrack(prev => (prev && prev.id === track.id) ? { ...prev, stream_url: streamUrl } : prev);
-      persistStreamUrl(track.id, streamUrl);
+      setCurrentTrack(prev => (prev && getTrackRef(prev) === trackRef) ? { ...prev, stream_url: streamUrl } : prev);
+      persistStreamUrl(trackRef, streamUrl);
       
       preloadNextInQueue();
       return;
@@ -560,12 +748,12 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
     
     // URL нет - запрашиваем (с transcodings для быстрого получения)
     try {
-      streamUrl = await getStreamUrl(track.id, track.media?.transcodings) || undefined;
+      streamUrl = await getStreamUrl(track) || undefined;
       if (token !== playTokenRef.current) return;
 
       if (streamUrl) {
-        streamUrlCache.set(track.id, streamUrl);
-        persistStreamUrl(track.id, streamUrl);
+        streamUrlCache.set(trackRef, streamUrl);
+        persistStreamUrl(trackRef, streamUrl);
         suppressPauseEventRef.current = true;
         audioRef.current.pause();
         audioRef.current.src = streamUrl;
@@ -576,17 +764,17 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
           setIsLoading(false);
         });
 
-        setCurrentTrack(prev => (prev && prev.id === track.id) ? { ...prev, stream_url: streamUrl } : prev);
+        setCurrentTrack(prev => (prev && getTrackRef(prev) === trackRef) ? { ...prev, stream_url: streamUrl } : prev);
         
         preloadNextInQueue();
       } else {
         toast.error(`Не удалось воспроизвести: ${track.title}`);
         setIsLoading(false);
         
-        if (queueRef.current.length > 0) {
-          const [next, ...rest] = queueRef.current;
-          setQueue(rest);
-          _playInternal(next);
+        // Без зацикливания, чтобы не крутиться по списку из недоступных треков
+        const nextIndex = _getNextIndex(false);
+        if (nextIndex !== null) {
+          _playAtIndex(nextIndex, "skip_unavailable");
         }
       }
     } catch (error) {
@@ -599,47 +787,212 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const _persistStateNow = () => {
+    if (saveStateTimerRef.current) {
+      clearTimeout(saveStateTimerRef.current);
+      saveStateTimerRef.current = null;
+    }
+    if (!isAuthenticatedRef.current) return;
+
+    let order = playOrderRef.current;
+    let index = orderIndexRef.current;
+    if (index < 0 || !order[index]) return;
+
+    // Слишком длинный список обрезаем вокруг текущего трека
+    if (order.length > MAX_PERSISTED_TRACKS) {
+      const start = Math.max(0, Math.min(index - 50, order.length - MAX_PERSISTED_TRACKS));
+      order = order.slice(start, start + MAX_PERSISTED_TRACKS);
+      index -= start;
+    }
+
+    const positionSec = pendingSeekRef.current ?? audioRef.current?.currentTime ?? 0;
+
+    saveStateMutation.mutate({
+      playOrder: order.map(toPersistedTrack),
+      originalOrder: originalOrderRef.current.slice(0, MAX_PERSISTED_TRACKS).map(toPersistedTrack),
+      currentIndex: index,
+      positionMs: Math.max(0, Math.floor(positionSec * 1000)),
+      shuffle: shuffleRef.current,
+      repeatMode: repeatModeRef.current,
+      deviceId: sessionIdRef.current,
+    });
+  };
+
+  useEffect(() => {
+    persistStateRef.current = _persistStateNow;
+  });
+
+  const _scheduleStateSave = () => {
+    if (!isAuthenticatedRef.current) return;
+    if (saveStateTimerRef.current) clearTimeout(saveStateTimerRef.current);
+    saveStateTimerRef.current = setTimeout(() => persistStateRef.current(), STATE_SAVE_DEBOUNCE_MS);
+  };
+
+  // Пока играет — периодически сохраняем позицию
+  useEffect(() => {
+    if (!isPlaying || !isAuthenticated) return;
+    const interval = setInterval(() => persistStateRef.current(), POSITION_SAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, isAuthenticated]);
+
+  // Очередь = всё, что идёт после текущего трека в порядке воспроизведения
+  const _syncQueueFromOrder = () => {
+    const upcoming = playOrderRef.current.slice(orderIndexRef.current + 1);
+    queueRef.current = upcoming;
+    setQueue(upcoming);
+    _scheduleStateSave();
+  };
+
+  const _getNextIndex = (wrap: boolean): number | null => {
+    const order = playOrderRef.current;
+    if (order.length === 0) return null;
+    const next = orderIndexRef.current + 1;
+    if (next < order.length) return next;
+    return wrap ? 0 : null;
+  };
+
+  const _setHistory = (next: Track[]) => {
+    historyRef.current = next;
+    setHistory(next);
+  };
+
+  const _playAtIndex = (index: number, reason: string, recordHistory: boolean = true) => {
+    const track = playOrderRef.current[index];
+    if (!track) return;
+
+    const previous = nowPlayingRef.current;
+    if (recordHistory && previous && previous !== track) {
+      _setHistory([...historyRef.current, previous].slice(-MAX_HISTORY_LENGTH));
+    }
+    nowPlayingRef.current = track;
+
+    orderIndexRef.current = index;
+    _syncQueueFromOrder();
+    _playInternal(track, reason);
+  };
+
+  // Индекс в очереди (queue) -> индекс в playOrderRef
+  const _toOrderIndex = (queueIndex: number) => orderIndexRef.current + 1 + queueIndex;
+
+  // Вне shuffle исходный порядок совпадает с текущим, поэтому правки очереди переносим и в него
+  const _commitOrder = (order: Track[]) => {
+    playOrderRef.current = order;
+    if (!shuffleRef.current) {
+      originalOrderRef.current = [...order];
+    }
+    _syncQueueFromOrder();
+  };
+
   const playTrack = useCallback((track: Track) => {
-    setQueue([]);
-    _playInternal(track, "user_play_track");
+    originalOrderRef.current = [track];
+    playOrderRef.current = [track];
+    _playAtIndex(0, "user_play_track");
   }, []);
 
   const playPlaylist = useCallback((tracks: Track[], startIndex: number = 0) => {
     if (!tracks || tracks.length === 0) return;
 
     const trackToPlay = tracks[startIndex];
-    const newQueue = tracks.slice(startIndex + 1);
-    
-    setQueue(newQueue);
-    queueRef.current = newQueue;
+    if (!trackToPlay) return;
+
+    originalOrderRef.current = [...tracks];
+    if (shuffleRef.current) {
+      // Выбранный трек играет первым, остальные — в перемешанном порядке
+      const rest = tracks.filter((_, i) => i !== startIndex);
+      playOrderRef.current = [trackToPlay, ...shuffleTracks(rest)];
+      orderIndexRef.current = 0;
+    } else {
+      playOrderRef.current = [...tracks];
+      orderIndexRef.current = startIndex;
+    }
     
     // Предзагружаем следующие треки
-    preloadTracks(newQueue.slice(0, 3));
+    preloadTracks(playOrderRef.current.slice(orderIndexRef.current + 1, orderIndexRef.current + 4));
     
-    _playInternal(trackToPlay, "user_play_playlist");
+    _playAtIndex(orderIndexRef.current, "user_play_playlist");
   }, [preloadTracks]);
 
   const nextTrack = useCallback(() => {
-    if (queueRef.current.length > 0) {
-      const [next, ...rest] = queueRef.current;
-      setQueue(rest);
-      queueRef.current = rest;
-      _playInternal(next, "user_next");
+    const nextIndex = _getNextIndex(repeatModeRef.current !== "off");
+    if (nextIndex !== null) {
+      _playAtIndex(nextIndex, "user_next");
     }
   }, []);
 
   const previousTrack = useCallback(() => {
-    if (audioRef.current && audioRef.current.currentTime > 3) {
-      audioRef.current.currentTime = 0;
-      setCurrentTime(0);
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    // Как в привычных плеерах: первые 3 секунды — переход назад, дальше — в начало трека
+    if (audio.currentTime <= 3) {
+      const index = orderIndexRef.current;
+      if (index > 0) {
+        const target = playOrderRef.current[index - 1];
+        const stack = historyRef.current;
+        if (stack[stack.length - 1] === target) {
+          _setHistory(stack.slice(0, -1));
+        }
+        _playAtIndex(index - 1, "user_previous", false);
+        return;
+      }
+      // Начало текущего списка — возвращаемся к треку из предыдущего контекста
+      if (historyRef.current.length > 0) {
+        const stack = historyRef.current;
+        const target = stack[stack.length - 1]!;
+        _setHistory(stack.slice(0, -1));
+        playOrderRef.current = [target, ...playOrderRef.current];
+        originalOrderRef.current = [target, ...originalOrderRef.current];
+        _playAtIndex(0, "user_previous", false);
+        return;
+      }
+      if (repeatModeRef.current === "all" && playOrderRef.current.length > 1) {
+        _playAtIndex(playOrderRef.current.length - 1, "user_previous", false);
+        return;
+      }
     }
+
+    audio.currentTime = 0;
+    setCurrentTime(0);
   }, []);
 
+  const toggleShuffle = useCallback(() => {
+    const enable = !shuffleRef.current;
+    shuffleRef.current = enable;
+    setShuffle(enable);
+
+    const order = playOrderRef.current;
+    const index = orderIndexRef.current;
+    const current = order[index];
+
+    if (enable) {
+      // Уже сыгранные остаются позади, перемешиваем только предстоящие
+      const played = order.slice(0, index + 1);
+      playOrderRef.current = [...played, ...shuffleTracks(order.slice(index + 1))];
+    } else {
+      // Возвращаем исходный порядок и продолжаем с текущего трека
+      playOrderRef.current = [...originalOrderRef.current];
+      const restoredIndex = current ? originalOrderRef.current.indexOf(current) : -1;
+      orderIndexRef.current = restoredIndex;
+    }
+
+    _syncQueueFromOrder();
+    if (playbackRef.current) trackEvent("shuffle_toggle", playbackRef.current.track, { enabled: enable });
+  }, [trackEvent]);
+
+  const cycleRepeatMode = useCallback(() => {
+    const mode = NEXT_REPEAT_MODE[repeatModeRef.current];
+    repeatModeRef.current = mode;
+    setRepeatMode(mode);
+    _scheduleStateSave();
+    if (playbackRef.current) trackEvent("repeat_mode", playbackRef.current.track, { mode });
+  }, [trackEvent]);
+
   const togglePlay = useCallback(() => {
     if (!audioRef.current) return;
     if (isPlaying) {
       audioRef.current.pause();
       setIsPlaying(false);
+      _scheduleStateSave();
       if (playbackRef.current) trackEvent("pause_click", playbackRef.current.track);
     } else {
       audioRef.current.play();
@@ -651,6 +1004,7 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
   const pause = useCallback(() => {
     audioRef.current?.pause();
     setIsPlaying(false);
+    _scheduleStateSave();
   }, []);
 
   const play = useCallback(() => {
@@ -676,25 +1030,125 @@ export function MusicPlayerProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const addToQueue = useCallback((t: Track) => { 
-    setQueue(prev => [...prev, t]); 
-    queueRef.current = [...queueRef.current, t];
+    originalOrderRef.current = [...originalOrderRef.current, t];
+    playOrderRef.current = [...playOrderRef.current, t];
+    _syncQueueFromOrder();
     toast.success("Добавлено в очередь"); 
     
     // Предзагружаем добавленный трек
     preloadTracks([t]);
   }, [preloadTracks]);
 
+  const playNext = useCallback((t: Track) => {
+    if (orderIndexRef.current < 0) {
+      playTrack(t);
+      return;
+    }
+
+    const order = [...playOrderRef.current];
+    order.splice(orderIndexRef.current + 1, 0, t);
+    if (shuffleRef.current) {
+      // В исходном порядке ставим сразу после текущего трека, чтобы после выключения shuffle он не потерялся
+      const original = [...originalOrderRef.current];
+      const currentPos = original.indexOf(playOrderRef.current[orderIndexRef.current]!);
+      original.splice(currentPos + 1, 0, t);
+      originalOrderRef.current = original;
+    }
+    _commitOrder(order);
+    toast.success("Будет играть следующим");
+
+    preloadTracks([t]);
+  }, [playTrack, preloadTracks]);
+
+  const moveInQueue = useCallback((fromIndex: number, toIndex: number) => {
+    const upcomingCount = playOrderRef.current.length - orderIndexRef.current - 1;
+    if (fromIndex === toIndex) return;
+    if (fromIndex < 0 || fromIndex >= upcomingCount) return;
+    if (toIndex < 0 || toIndex >= upcomingCount) return;
+
+    const order = [...playOrderRef.current];
+    const [moved] = order.splice(_toOrderIndex(fromIndex), 1);
+    order.splice(_toOrderIndex(toIndex), 0, moved!);
+    _commitOrder(order);
+  }, []);
+
+  const removeFromQueue = useCallback((index: number) => {
+    const orderIndex = _toOrderIndex(index);
+    const track = playOrderRef.current[orderIndex];
+    if (!track) return;
+
+    const order = [...playOrderRef.current];
+    order.splice(orderIndex, 1);
+    if (shuffleRef.current) {
+      originalOrderRef.current = originalOrderRef.current.filter(t => t !== track);
+    }
+    _commitOrder(order);
+  }, []);
+
+  const playFromQueue = useCallback((index: number) => {
+    const orderIndex = _toOrderIndex(index);
+    if (!playOrderRef.current[orderIndex]) return;
+    _playAtIndex(orderIndex, "user_queue_jump");
+  }, []);
+
   const clearQueue = useCallback(() => {
-    setQueue([]);
-    queueRef.current = [];
+    // Оставляем только текущий трек
+    const current = playOrderRef.current[orderIndexRef.current];
+    originalOrderRef.current = current ? [current] : [];
+    playOrderRef.current = current ? [current] : [];
+    orderIndexRef.current = current ? 0 : -1;
+    _syncQueueFromOrder();
   }, []);
 
+  // После входа предлагаем продолжить с места, где остановились (в том числе на другом устройстве)
+  useEffect(() => {
+    if (!isAuthenticated || restoreCheckedRef.current) return;
+    restoreCheckedRef.current = true;
+
+    utils.player.getState.fetch().then((saved) => {
+      if (!saved) return;
+      // Пользователь уже что-то включил — не перебиваем
+      if (orderIndexRef.current >= 0) return;
+
+      const track = saved.playOrder[saved.currentIndex];
+      if (!track) return;
+
+      const resume = () => {
+        if (orderIndexRef.current >= 0) return;
+
+        const { playOrder, originalOrder } = relinkSavedQueue(saved.playOrder, saved.originalOrder);
+        originalOrderRef.current = originalOrder;
+        playOrderRef.current = playOrder;
+        shuffleRef.current = saved.shuffle;
+        setShuffle(saved.shuffle);
+        repeatModeRef.current = saved.repeatMode;
+        setRepeatMode(saved.repeatMode);
+        pendingSeekRef.current = saved.positionMs > 0 ? saved.positionMs / 1000 : null;
+        _playAtIndex(saved.currentIndex, "resume_session", false);
+      };
+
+      const fromOtherDevice = !!saved.deviceId && saved.deviceId !== sessionIdRef.current;
+      toast(fromOtherDevice ? "Продолжить то, что играло на другом устройстве?" : "Продолжить с места, где вы остановились?", {
+        description: `${track.title} — ${track.user.username}`,
+        duration: 15_000,
+        action: { label: "Продолжить", onClick: resume },
+        cancel: { label: "Не сейчас", onClick: () => undefined },
+      });
+    }).catch((error) => {
+      console.warn("Failed to load playback state:", error);
+    });
+  }, [isAuthenticated, utils]);
+
   return (
     <MusicPlayerContext.Provider
       value={{
         currentTrack, isPlaying, isLoading, volume, currentTime, duration, queue,
+        history, shuffle, repeatMode,
         playTrack, playPlaylist, togglePlay, pause, play, seek, setVolume, 
-        nextTrack, previousTrack, addToQueue, clearQueue, preloadTracks,
+        nextTrack, previousTrack, addToQueue, playNext, moveInQueue,
+        removeFromQueue, playFromQueue, clearQueue,
+        toggleShuffle, cycleRepeatMode, preloadTracks,
+        isFullscreen, setFullscreen,
       }}
     >
       {children}
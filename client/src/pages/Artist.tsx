@@ -0,0 +1,212 @@
+import { useEffect, useMemo } from "react";
+import { useParams } from "wouter";
+import { ListMusic, Music2, Play, User, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import MainLayout from "@/components/MainLayout";
+import MusicPlayer from "@/components/MusicPlayer";
+import TrackCard from "@/components/TrackCard";
+import CatalogPlaylistCard from "@/components/CatalogPlaylistCard";
+import { trpc } from "@/lib/trpc";
+import { useMusicPlayer } from "@/contexts/MusicPlayerContext";
+
+const PAGE_SIZE = 20;
+
+function formatCount(value: number) {
+  return new Intl.NumberFormat("ru-RU", { notation: "compact" }).format(value);
+}
+
+export default function Artist() {
+  const params = useParams<{ id: string }>();
+  const artistId = Number.parseInt(params.id ?? "", 10);
+  const enabled = Number.isFinite(artistId);
+  const { playPlaylist, preloadTracks } = useMusicPlayer();
+
+  const { data: artist, isLoading, error } = trpc.catalog.artist.useQuery(
+    { artistId },
+    { enabled }
+  );
+
+  const tracksQuery = trpc.catalog.artistTracks.useInfiniteQuery(
+    { artistId, limit: PAGE_SIZE },
+    { enabled, getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  const playlistsQuery = trpc.catalog.artistPlaylists.useInfiniteQuery(
+    { artistId, limit: PAGE_SIZE },
+    { enabled, getNextPageParam: (lastPage) => lastPage.nextCursor }
+  );
+
+  const tracks = useMemo(
+    () => tracksQuery.data?.pages.flatMap(page => page.collection) ?? [],
+    [tracksQuery.data]
+  );
+  const playlists = useMemo(
+    () => playlistsQuery.data?.pages.flatMap(page => page.collection) ?? [],
+    [playlistsQuery.data]
+  );
+
+  useEffect(() => {
+    if (tracks.length > 0) {
+      preloadTracks(tracks.slice(0, 5));
+    }
+  }, [tracks, preloadTracks]);
+
+  return (
+    <MainLayout>
+      <div className="min-h-screen pb-40 md:pb-28">
+        <div className="container py-6">
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              <p className="mt-4 text-sm text-muted-foreground">Загружаем исполнителя...</p>
+            </div>
+          )}
+
+          {(error || !enabled) && (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <div className="w-16 h-16 rounded-full bg-secondary flex items-center justify-center mb-4">
+                <User className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="font-semibold mb-1">Исполнитель не найден</h3>
+              <p className="text-sm text-muted-foreground">Проверьте ссылку и попробуйте ещё раз</p>
+            </div>
+          )}
+
+          {artist && (
+            <div className="space-y-8">
+              {/* Header */}
+              <div className="flex flex-col sm:flex-row gap-6 sm:items-end">
+                <div className="w-36 h-36 sm:w-48 sm:h-48 rounded-full overflow-hidden bg-secondary flex-shrink-0 shadow-lg">
+                  {artist.avatar_url ? (
+                    <img src={artist.avatar_url} alt={artist.username} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <User className="w-12 h-12 text-muted-foreground" />
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3 min-w-0">
+                  <p className="text-xs uppercase tracking-wider text-muted-foreground">Исполнитель</p>
+                  <h1 className="text-2xl md:text-4xl font-bold break-words">{artist.username}</h1>
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                    {artist.full_name && <span>{artist.full_name}</span>}
+                    <span className="flex items-center gap-1.5">
+                      <Users className="w-4 h-4" />
+                      {formatCount(artist.followers_count)} подписчиков
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <Music2 className="w-4 h-4" />
+                      {artist.track_count} трек(ов)
+                    </span>
+                  </div>
+                  {artist.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-3 max-w-2xl whitespace-pre-line">
+                      {artist.description}
+                    </p>
+                  )}
+
+                  <Button
+                    className="rounded-full"
+                    disabled={tracks.length === 0}
+                    onClick={() => playPlaylist(tracks, 0)}
+                  >
+                    <Play className="w-4 h-4 mr-2" fill="currentColor" />
+                    Слушать
+                  </Button>
+                </div>
+              </div>
+
+              <Tabs defaultValue="tracks" className="w-full">
+                <TabsList className="w-full sm:w-auto grid grid-cols-2 sm:inline-flex h-auto p-1 bg-secondary rounded-lg mb-6">
+                  <TabsTrigger
+                    value="tracks"
+                    className="flex items-center gap-2 px-4 py-2.5 data-[state=active]:bg-background rounded-md"
+                  >
+                    <Music2 className="w-4 h-4" />
+                    <span>Треки</span>
+                  </TabsTrigger>
+                  <TabsTrigger
+                    value="playlists"
+                    className="flex items-center gap-2 px-4 py-2.5 data-[state=active]:bg-background rounded-md"
+                  >
+                    <ListMusic className="w-4 h-4" />
+                    <span>Плейлисты</span>
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="tracks" className="mt-0 space-y-4">
+                  <div className="space-y-1">
+                    {tracks.map((track, index) => (
+                      <TrackCard
+                        key={track.id}
+                        track={track}
+                        variant="list"
+                        playlistContext={tracks}
+                        indexInPlaylist={index}
+                      />
+                    ))}
+                  </div>
+                  {!tracksQuery.isLoading && tracks.length === 0 && (
+                    <p className="text-sm text-muted-foreground py-8 text-center">У исполнителя пока нет треков</p>
+                  )}
+                  <LoadMoreButton
+                    hasMore={tracksQuery.hasNextPage}
+                    loading={tracksQuery.isLoading || tracksQuery.isFetchingNextPage}
+                    onClick={() => tracksQuery.fetchNextPage()}
+                  />
+                </TabsContent>
+
+                <TabsContent value="playlists" className="mt-0 space-y-4">
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                    {playlists.map((playlist) => (
+                      <CatalogPlaylistCard key={playlist.id} playlist={playlist} />
+                    ))}
+                  </div>
+                  {!playlistsQuery.isLoading && playlists.length === 0 && (
+                    <p className="text-sm text-muted-foreground py-8 text-center">У исполнителя пока нет плейлистов</p>
+                  )}
+                  <LoadMoreButton
+                    hasMore={playlistsQuery.hasNextPage}
+                    loading={playlistsQuery.isLoading || playlistsQuery.isFetchingNextPage}
+                    onClick={() => playlistsQuery.fetchNextPage()}
+                  />
+                </TabsContent>
+              </Tabs>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <MusicPlayer />
+    </MainLayout>
+  );
+}
+
+function LoadMoreButton({
+  hasMore,
+  loading,
+  onClick,
+}: {
+  hasMore: boolean;
+  loading: boolean;
+  onClick: () => void;
+}) {
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+  if (!hasMore) return null;
+
+  return (
+    <div className="flex justify-center">
+      <Button variant="secondary" className="rounded-full" onClick={onClick}>
+        Показать ещё
+      </Button>
+    </div>
+  );
+}
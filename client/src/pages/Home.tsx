@@ -3,11 +3,16 @@ import { Button } from "@/components/ui/button";
 import MainLayout from "@/components/MainLayout";
 import MusicPlayer from "@/components/MusicPlayer";
 import TrackCard from "@/components/TrackCard";
-import { trpc } from "@/lib/trpc";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
 import { useMusicPlayer } from "@/contexts/MusicPlayerContext";
-import { Music2, Sparkles, PlayCircle, ArrowRight, ChevronRight, RefreshCw } from "lucide-react";
-import { Link } from "wouter";
+import { Music2, Sparkles, PlayCircle, ArrowRight, ChevronRight, RefreshCw, Play, BookmarkPlus, History } from "lucide-react";
+import { Link, useLocation } from "wouter";
 import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ru } from "date-fns/locale";
+
+type HomeMix = RouterOutputs["recommendations"]["personalized"][number];
 
 export default function Home() {
   const { isAuthenticated, loading } = useAuth();
@@ -18,6 +23,8 @@ export default function Home() {
     { forceRefresh: refreshKey > 0 }, 
     { enabled: isAuthenticated }
   );
+  const { data: pastFeeds } = trpc.recommendations.pastMixes.useQuery(undefined, { enabled: isAuthenticated });
+  const { data: scheduled } = trpc.recommendations.scheduled.useQuery(undefined, { enabled: isAuthenticated });
 
   const handleRefresh = () => {
     setRefreshKey(prev => prev + 1);
@@ -67,6 +74,24 @@ export default function Home() {
 
             {/* Content */}
             <div className="container py-6 space-y-10">
+              {/* Daily Mix и «Открытия недели» */}
+              {scheduled && (scheduled.discoverWeekly || scheduled.dailyMixes.length > 0) && (
+                <section className="space-y-4">
+                  <div>
+                    <h2 className="text-xl md:text-2xl font-semibold tracking-tight">Собрано для вас</h2>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Daily Mix обновляются каждый день, «Открытия недели» - по понедельникам
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                    {scheduled.discoverWeekly && <MixCard mix={scheduled.discoverWeekly} />}
+                    {scheduled.dailyMixes.map((mix) => (
+                      <MixCard key={mix.id} mix={mix} />
+                    ))}
+                  </div>
+                </section>
+              )}
+
               {recsLoading ? (
                 // Loading State
                 <div className="space-y-10">
@@ -110,14 +135,17 @@ export default function Home() {
                             </p>
                           )}
                         </div>
-                        <Button 
-                          variant="ghost" 
-                          size="sm" 
-                          className="text-muted-foreground hover:text-foreground gap-1 hidden md:flex"
-                        >
-                          Показать все
-                          <ChevronRight className="w-4 h-4" />
-                        </Button>
+                        <div className="flex items-center gap-1">
+                          {playlist.mixId && <SaveMixButton mixId={playlist.mixId} />}
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            className="text-muted-foreground hover:text-foreground gap-1 hidden md:flex"
+                          >
+                            Показать все
+                            <ChevronRight className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
                       
                       {/* Horizontal Scroll Track List */}
@@ -146,6 +174,33 @@ export default function Home() {
                       </div>
                     </section>
                   ))}
+
+                  {/* Прошлые миксы */}
+                  {pastFeeds && pastFeeds.length > 0 && (
+                    <section className="space-y-6">
+                      <div>
+                        <h2 className="text-xl md:text-2xl font-semibold tracking-tight flex items-center gap-2">
+                          <History className="w-5 h-5 text-muted-foreground" />
+                          Миксы прошлой недели
+                        </h2>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Подборки, которые были у вас на главной
+                        </p>
+                      </div>
+                      {pastFeeds.map((feed) => (
+                        <div key={feed.generation} className="space-y-3">
+                          <h3 className="text-sm font-medium text-muted-foreground first-letter:uppercase">
+                            {format(feed.generatedAt, "EEEE, d MMMM", { locale: ru })}
+                          </h3>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                            {feed.mixes.map((mix) => (
+                              <MixCard key={mix.mixId ?? mix.id} mix={mix} />
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </section>
+                  )}
                 </div>
               ) : (
                 // Empty State
@@ -252,3 +307,61 @@ export default function Home() {
     </MainLayout>
   );
 }
+
+// «Сохранить микс» - копия микса становится обычным плейлистом в медиатеке
+function SaveMixButton({ mixId }: { mixId: number }) {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const saveMutation = trpc.recommendations.saveMix.useMutation({
+    onSuccess: (playlist) => {
+      utils.playlists.list.invalidate();
+      toast.success(`Микс сохранён как «${playlist.name}»`, {
+        action: { label: "Открыть", onClick: () => setLocation(`/library/playlist/${playlist.id}`) },
+      });
+    },
+    onError: () => toast.error("Не удалось сохранить микс"),
+  });
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="text-muted-foreground hover:text-foreground gap-1"
+      disabled={saveMutation.isPending}
+      onClick={() => saveMutation.mutate({ mixId })}
+    >
+      <BookmarkPlus className="w-4 h-4" />
+      Сохранить
+    </Button>
+  );
+}
+
+function MixCard({ mix }: { mix: HomeMix }) {
+  const { playPlaylist } = useMusicPlayer();
+  const artwork = mix.tracks.find(t => t.artwork_url)?.artwork_url;
+
+  return (
+    <div className="flex items-center gap-3 rounded-xl bg-card border border-border p-3">
+      <div className="w-14 h-14 rounded-lg overflow-hidden bg-gradient-to-br from-primary/20 to-primary/5 flex-shrink-0">
+        {artwork && <img src={artwork} alt="" className="w-full h-full object-cover" loading="lazy" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-sm truncate" title={mix.title}>{mix.title}</p>
+        <p className="text-xs text-muted-foreground truncate" title={mix.description}>
+          {mix.tracks.length} трек(ов){mix.description && ` · ${mix.description}`}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9 flex-shrink-0"
+        title="Слушать"
+        disabled={mix.tracks.length === 0}
+        onClick={() => playPlaylist(mix.tracks, 0)}
+      >
+        <Play className="w-4 h-4" fill="currentColor" />
+      </Button>
+      {mix.mixId && <SaveMixButton mixId={mix.mixId} />}
+    </div>
+  );
+}
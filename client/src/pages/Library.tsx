@@ -7,13 +7,19 @@ import MusicPlayer from "@/components/MusicPlayer";
 import { trpc } from "@/lib/trpc";
 import TrackCard from "@/components/TrackCard";
 import PlaylistCard from "@/components/PlaylistCard";
-import { Music2, ListMusic, Heart, Clock, LogIn } from "lucide-react";
-import { Track } from "@/contexts/MusicPlayerContext";
+import ImportPlaylistDialog from "@/components/ImportPlaylistDialog";
+import SmartPlaylistDialog from "@/components/SmartPlaylistDialog";
+import ExportMenu from "@/components/ExportMenu";
+import { Music2, ListMusic, Heart, Clock, LogIn, FileUp, Sparkles } from "lucide-react";
+import { Track, fromStoredTrack } from "@/contexts/MusicPlayerContext";
 import { formatDistanceToNow } from "date-fns";
 import { ru } from "date-fns/locale";
+import { useState } from "react";
 
 export default function Library() {
   const { isAuthenticated, loading } = useAuth();
+  const [importOpen, setImportOpen] = useState(false);
+  const [smartOpen, setSmartOpen] = useState(false);
 
   const { data: likedTracks, isLoading: likedLoading } = trpc.preferences.getLikedTracks.useQuery(
     { limit: 100 },
@@ -31,29 +37,9 @@ export default function Library() {
   );
 
   // Transform liked tracks to proper Track format
-  const transformedTracks: Track[] = likedTracks?.map((track) => ({
-    id: parseInt(track.soundcloudId),
-    title: track.title,
-    user: { id: 0, username: track.artist, avatar_url: null },
-    artwork_url: track.artworkUrl ?? null,
-    duration: track.duration,
-    permalink_url: track.permalinkUrl ?? '',
-    genre: track.genre ?? null,
-    created_at: track.createdAt.toISOString(),
-  })) ?? [];
+  const transformedTracks: Track[] = likedTracks?.map(fromStoredTrack) ?? [];
 
-  const historyTracks: Track[] = history?.map((h) => ({
-    id: parseInt(h.track.soundcloudId),
-    title: h.track.title,
-    user: { id: 0, username: h.track.artist, avatar_url: null },
-    artwork_url: h.track.artworkUrl ?? null,
-    duration: h.track.duration,
-    permalink_url: h.track.permalinkUrl ?? '',
-    genre: h.track.genre ?? null,
-    created_at: h.track.createdAt.toISOString(),
-    stream_url: h.track.streamUrl ?? undefined,
-    soundcloudId: h.track.soundcloudId,
-  })) ?? [];
+  const historyTracks: Track[] = history?.map((h) => fromStoredTrack(h.track)) ?? [];
 
   if (loading) {
     return (
@@ -147,6 +133,7 @@ export default function Library() {
                       <Heart className="w-4 h-4" />
                       {likedTracks.length} трек(ов)
                     </span>
+                    <ExportMenu source="liked" className="ml-auto" />
                   </div>
 
                   {/* Grid for larger screens */}
@@ -194,6 +181,7 @@ export default function Library() {
                       <Clock className="w-4 h-4" />
                       {history.length} прослушиваний
                     </span>
+                    <ExportMenu source="history" className="ml-auto" />
                   </div>
 
                   <div className="space-y-2">
@@ -232,6 +220,16 @@ export default function Library() {
 
             {/* Playlists */}
             <TabsContent value="playlists" className="mt-0">
+              <div className="flex justify-end gap-2 mb-4">
+                <Button variant="secondary" size="sm" onClick={() => setSmartOpen(true)}>
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Умный плейлист
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => setImportOpen(true)}>
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Импорт
+                </Button>
+              </div>
               {playlistsLoading ? (
                 <LoadingSkeleton />
               ) : playlists && playlists.length > 0 ? (
@@ -252,6 +250,8 @@ export default function Library() {
         </div>
       </div>
 
+      <ImportPlaylistDialog open={importOpen} onOpenChange={setImportOpen} />
+      <SmartPlaylistDialog open={smartOpen} onOpenChange={setSmartOpen} />
       <MusicPlayer />
     </MainLayout>
   );
@@ -0,0 +1,456 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { Globe, GripVertical, ListMusic, Lock, LogIn, Pencil, Play, Share2, Shuffle, Sparkles, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import MainLayout from "@/components/MainLayout";
+import MusicPlayer from "@/components/MusicPlayer";
+import TrackCard from "@/components/TrackCard";
+import PlaylistMembersDialog, { PLAYLIST_ROLE_LABELS } from "@/components/PlaylistMembersDialog";
+import ExportMenu from "@/components/ExportMenu";
+import SmartPlaylistDialog from "@/components/SmartPlaylistDialog";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { fromStoredTrack, useMusicPlayer } from "@/contexts/MusicPlayerContext";
+import { playlistShareUrl, shareLink } from "@/utils/shareLink";
+
+function formatTotalDuration(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} мин`;
+  return `${Math.floor(minutes / 60)} ч ${minutes % 60} мин`;
+}
+
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * Страница плейлиста из медиатеки (своего или совместного): прослушивание, редактирование,
+ * удаление и перетаскивание треков - в пределах роли пользователя
+ */
+export default function LibraryPlaylist() {
+  const params = useParams<{ id: string }>();
+  const playlistId = Number.parseInt(params.id ?? "", 10);
+  const { isAuthenticated, loading } = useAuth();
+  const utils = trpc.useUtils();
+  const { playPlaylist, preloadTracks, shuffle, toggleShuffle } = useMusicPlayer();
+  const [editing, setEditing] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [, setLocation] = useLocation();
+
+  // Индекс перетаскиваемого трека и трек, над которым он сейчас находится
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const { data: playlist, isLoading, error } = trpc.playlists.get.useQuery(
+    { playlistId },
+    { enabled: isAuthenticated && Number.isFinite(playlistId) }
+  );
+
+  const storedTracks = playlist?.tracks ?? [];
+  const tracks = storedTracks.map(fromStoredTrack);
+  const canEdit = playlist?.role === "owner" || playlist?.role === "editor";
+  const isOwner = playlist?.role === "owner";
+  const isShared = (playlist?.memberCount ?? 0) > 1;
+  // Треки умного плейлиста задаются правилами, руками их не переставить и не удалить
+  const smartRules = playlist?.smartRules ?? null;
+  const canEditTracks = canEdit && !smartRules;
+
+  useEffect(() => {
+    if (playlist && playlist.tracks.length > 0) {
+      preloadTracks(playlist.tracks.slice(0, 5).map(fromStoredTrack));
+    }
+  }, [playlist, preloadTracks]);
+
+  const refresh = () => {
+    utils.playlists.get.invalidate({ playlistId });
+    utils.playlists.list.invalidate();
+  };
+
+  const reorderMutation = trpc.playlists.reorder.useMutation({
+    // Строки плейлиста пересоздаются с новыми entryId, а сервер мог слить наш порядок
+    // с чужими правками - в любом случае подтягиваем итоговый список
+    onSuccess: () => refresh(),
+    onError: () => {
+      toast.error("Не удалось изменить порядок треков");
+      refresh();
+    },
+  });
+
+  const removeTrackMutation = trpc.playlists.removeTrack.useMutation({
+    onSuccess: () => {
+      toast.success("Трек удалён из плейлиста");
+      refresh();
+    },
+    onError: () => toast.error("Не удалось удалить трек"),
+  });
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (playlist && dragIndex !== null && dragIndex !== index) {
+      const reordered = moveItem(playlist.tracks, dragIndex, index);
+      // Показываем новый порядок сразу, не дожидаясь ответа сервера
+      utils.playlists.get.setData({ playlistId }, { ...playlist, tracks: reordered });
+      reorderMutation.mutate({ playlistId, trackIds: reordered.map(t => t.id) });
+    }
+    resetDrag();
+  };
+
+  const shareMutation = trpc.playlists.share.useMutation({
+    onSuccess: ({ shareSlug }) => {
+      refresh();
+      if (playlist) shareLink(playlistShareUrl(shareSlug), playlist.name);
+    },
+    onError: () => toast.error("Не удалось получить ссылку"),
+  });
+
+  const handleShufflePlay = () => {
+    if (tracks.length === 0) return;
+    if (!shuffle) toggleShuffle();
+    playPlaylist(tracks, Math.floor(Math.random() * tracks.length));
+  };
+
+  if (!loading && !isAuthenticated) {
+    return (
+      <MainLayout>
+        <div className="min-h-screen flex items-center justify-center px-4">
+          <div className="text-center max-w-sm">
+            <h2 className="text-xl font-semibold mb-2">Войдите в аккаунт</h2>
+            <p className="text-muted-foreground mb-6">Плейлисты доступны после входа</p>
+            <Button asChild size="lg" className="w-full">
+              <Link href="/login">
+                <LogIn className="w-4 h-4 mr-2" />
+                Войти
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="min-h-screen pb-40 md:pb-28">
+        <div className="container py-6">
+          {(loading || isLoading) && (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              <p className="mt-4 text-sm text-muted-foreground">Загружаем плейлист...</p>
+            </div>
+          )}
+
+          {(error || !Number.isFinite(playlistId)) && (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <div className="w-16 h-16 rounded-full bg-secondary flex items-center justify-center mb-4">
+                <ListMusic className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="font-semibold mb-1">Плейлист не найден</h3>
+              <p className="text-sm text-muted-foreground">Возможно, он был удалён</p>
+            </div>
+          )}
+
+          {playlist && (
+            <div className="space-y-8">
+              {/* Header */}
+              <div className="flex flex-col sm:flex-row gap-6 sm:items-end">
+                <div className="w-40 h-40 sm:w-52 sm:h-52 rounded-xl bg-gradient-to-br from-primary/20 to-primary/5 flex-shrink-0 shadow-lg flex items-center justify-center">
+                  <span className="text-6xl font-bold text-primary/40">
+                    {playlist.name.charAt(0).toUpperCase()}
+                  </span>
+                </div>
+
+                <div className="space-y-3 min-w-0">
+                  <p className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
+                    {playlist.isPublic ? <Globe className="w-3 h-3" /> : <Lock className="w-3 h-3" />}
+                    {smartRules && <Sparkles className="w-3 h-3" />}
+                    {smartRules
+                      ? "Умный плейлист"
+                      : playlist.isPublic ? "Публичный плейлист" : "Приватный плейлист"}
+                    {!isOwner && ` · ${PLAYLIST_ROLE_LABELS[playlist.role]}`}
+                  </p>
+                  <h1 className="text-2xl md:text-4xl font-bold break-words">{playlist.name}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {storedTracks.length} трек(ов) · {formatTotalDuration(storedTracks.reduce((sum, t) => sum + t.duration, 0))}
+                  </p>
+                  {playlist.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-3 max-w-2xl">{playlist.description}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    <Button
+                      className="rounded-full"
+                      disabled={tracks.length === 0}
+                      onClick={() => playPlaylist(tracks, 0)}
+                    >
+                      <Play className="w-4 h-4 mr-2" fill="currentColor" />
+                      Слушать
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="rounded-full"
+                      disabled={tracks.length === 0}
+                      onClick={handleShufflePlay}
+                    >
+                      <Shuffle className="w-4 h-4 mr-2" />
+                      Перемешать
+                    </Button>
+                    {canEdit && (
+                      <Button variant="ghost" className="rounded-full" onClick={() => setEditing(true)}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Изменить
+                      </Button>
+                    )}
+                    {canEdit && smartRules && (
+                      <Button variant="ghost" className="rounded-full" onClick={() => setRulesOpen(true)}>
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        Правила
+                      </Button>
+                    )}
+                    <Button variant="ghost" className="rounded-full" onClick={() => setMembersOpen(true)}>
+                      <Users className="w-4 h-4 mr-2" />
+                      Участники{isShared && ` · ${playlist.memberCount}`}
+                    </Button>
+                    {isOwner && (
+                      <Button
+                        variant="ghost"
+                        className="rounded-full"
+                        disabled={shareMutation.isPending}
+                        onClick={() => shareMutation.mutate({ playlistId })}
+                        title={playlist.isPublic ? "Скопировать ссылку" : "Сделать публичным и скопировать ссылку"}
+                      >
+                        <Share2 className="w-4 h-4 mr-2" />
+                        Поделиться
+                      </Button>
+                    )}
+                    <ExportMenu source={{ playlistId }} size="default" align="start" className="rounded-full" />
+                  </div>
+                </div>
+              </div>
+
+              {/* Tracks */}
+              {tracks.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  {smartRules ? "Под правила пока не подходит ни один трек" : "В плейлисте пока нет треков"}
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {tracks.map((track, index) => (
+                    <div
+                      // Один трек может встречаться в плейлисте несколько раз
+                      key={`${storedTracks[index].id}-${index}`}
+                      draggable={canEditTracks}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        setDragIndex(index);
+                      }}
+                      onDragOver={(e) => {
+                        if (dragIndex === null) return;
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = "move";
+                        if (overIndex !== index) setOverIndex(index);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(index);
+                      }}
+                      onDragEnd={resetDrag}
+                      className={cn(
+                        "group/row flex items-center gap-1 rounded-lg transition-colors",
+                        dragIndex === index && "opacity-40",
+                        overIndex === index && dragIndex !== null && dragIndex !== index && "ring-1 ring-primary"
+                      )}
+                    >
+                      {canEditTracks && (
+                        <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <TrackCard
+                          track={track}
+                          variant="list"
+                          playlistContext={tracks}
+                          indexInPlaylist={index}
+                        />
+                      </div>
+                      {/* В совместном плейлисте показываем, кто добавил трек */}
+                      {isShared && storedTracks[index].addedByName && (
+                        <span
+                          className="hidden md:block w-32 truncate text-xs text-muted-foreground"
+                          title={`Добавлено пользователем ${storedTracks[index].addedByName}`}
+                        >
+                          {storedTracks[index].addedByName}
+                        </span>
+                      )}
+                      {canEditTracks && storedTracks[index].entryId !== null && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 opacity-0 group-hover/row:opacity-100 flex-shrink-0"
+                          title="Удалить из плейлиста"
+                          disabled={removeTrackMutation.isPending}
+                          onClick={() => removeTrackMutation.mutate({ playlistId, entryId: storedTracks[index].entryId! })}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <EditPlaylistDialog
+                open={editing}
+                onOpenChange={setEditing}
+                playlist={playlist}
+                canChangeVisibility={isOwner}
+                onSaved={refresh}
+              />
+
+              {smartRules && (
+                <SmartPlaylistDialog
+                  open={rulesOpen}
+                  onOpenChange={setRulesOpen}
+                  playlist={{ id: playlist.id, name: playlist.name, smartRules }}
+                />
+              )}
+
+              <PlaylistMembersDialog
+                open={membersOpen}
+                onOpenChange={setMembersOpen}
+                playlistId={playlistId}
+                role={playlist.role}
+                onLeft={() => setLocation("/library")}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <MusicPlayer />
+    </MainLayout>
+  );
+}
+
+function EditPlaylistDialog({
+  open,
+  onOpenChange,
+  playlist,
+  canChangeVisibility,
+  onSaved,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  playlist: { id: number; name: string; description: string | null; isPublic: boolean };
+  canChangeVisibility: boolean;
+  onSaved: () => void;
+}) {
+  const [name, setName] = useState(playlist.name);
+  const [description, setDescription] = useState(playlist.description ?? "");
+  const [isPublic, setIsPublic] = useState(playlist.isPublic);
+
+  // При каждом открытии начинаем с актуальных значений
+  useEffect(() => {
+    if (open) {
+      setName(playlist.name);
+      setDescription(playlist.description ?? "");
+      setIsPublic(playlist.isPublic);
+    }
+  }, [open, playlist]);
+
+  const updateMutation = trpc.playlists.update.useMutation({
+    onSuccess: () => {
+      toast.success("Плейлист сохранён");
+      onSaved();
+      onOpenChange(false);
+    },
+    onError: () => toast.error("Не удалось сохранить плейлист"),
+  });
+
+  const trimmedName = name.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!trimmedName) return;
+            updateMutation.mutate({
+              playlistId: playlist.id,
+              name: trimmedName,
+              description: description.trim(),
+              // Видимость меняет только владелец - редактору сервер откажет
+              isPublic: canChangeVisibility ? isPublic : undefined,
+            });
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Изменить плейлист</DialogTitle>
+            <DialogDescription>Название, описание и видимость</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="playlist-name">Название</Label>
+            <Input
+              id="playlist-name"
+              value={name}
+              maxLength={255}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="playlist-description">Описание</Label>
+            <Textarea
+              id="playlist-description"
+              value={description}
+              rows={3}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          {canChangeVisibility && (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="playlist-public">Публичный</Label>
+                <p className="text-xs text-muted-foreground">Плейлист смогут открыть другие пользователи</p>
+              </div>
+              <Switch id="playlist-public" checked={isPublic} onCheckedChange={setIsPublic} />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Отмена
+            </Button>
+            <Button type="submit" disabled={!trimmedName || updateMutation.isPending}>
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { ListMusic, Play, Shuffle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import MainLayout from "@/components/MainLayout";
+import MusicPlayer from "@/components/MusicPlayer";
+import TrackCard from "@/components/TrackCard";
+import { trpc } from "@/lib/trpc";
+import { useMusicPlayer } from "@/contexts/MusicPlayerContext";
+
+function formatTotalDuration(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} мин`;
+  return `${Math.floor(minutes / 60)} ч ${minutes % 60} мин`;
+}
+
+export default function Playlist() {
+  const params = useParams<{ id: string }>();
+  const playlistId = Number.parseInt(params.id ?? "", 10);
+  const { playPlaylist, preloadTracks, shuffle, toggleShuffle } = useMusicPlayer();
+
+  const { data: playlist, isLoading, error } = trpc.catalog.playlist.useQuery(
+    { playlistId },
+    { enabled: Number.isFinite(playlistId) }
+  );
+
+  useEffect(() => {
+    if (playlist && playlist.tracks.length > 0) {
+      preloadTracks(playlist.tracks.slice(0, 5));
+    }
+  }, [playlist, preloadTracks]);
+
+  const handleShufflePlay = () => {
+    if (!playlist) return;
+    if (!shuffle) toggleShuffle();
+    playPlaylist(playlist.tracks, Math.floor(Math.random() * playlist.tracks.length));
+  };
+
+  return (
+    <MainLayout>
+      <div className="min-h-screen pb-40 md:pb-28">
+        <div className="container py-6">
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              <p className="mt-4 text-sm text-muted-foreground">Загружаем плейлист...</p>
+            </div>
+          )}
+
+          {(error || !Number.isFinite(playlistId)) && (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <div className="w-16 h-16 rounded-full bg-secondary flex items-center justify-center mb-4">
+                <ListMusic className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="font-semibold mb-1">Плейлист не найден</h3>
+              <p className="text-sm text-muted-foreground">Возможно, он был удалён или стал приватным</p>
+            </div>
+          )}
+
+          {playlist && (
+            <div className="space-y-8">
+              {/* Header */}
+              <div className="flex flex-col sm:flex-row gap-6 sm:items-end">
+                <div className="w-40 h-40 sm:w-52 sm:h-52 rounded-xl overflow-hidden bg-gradient-to-br from-primary/20 to-primary/5 flex-shrink-0 shadow-lg">
+                  {playlist.artwork_url ? (
+                    <img src={playlist.artwork_url} alt={playlist.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <ListMusic className="w-12 h-12 text-primary/40" />
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3 min-w-0">
+                  <p className="text-xs uppercase tracking-wider text-muted-foreground">Плейлист</p>
+                  <h1 className="text-2xl md:text-4xl font-bold break-words">{playlist.title}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {playlist.user.id ? (
+                      <Link href={`/artist/${playlist.user.id}`} className="font-medium text-foreground hover:underline">
+                        {playlist.user.username}
+                      </Link>
+                    ) : (
+                      <span className="font-medium text-foreground">{playlist.user.username}</span>
+                    )}
+                    {" · "}
+                    {playlist.tracks.length} трек(ов) · {formatTotalDuration(playlist.duration)}
+                  </p>
+                  {playlist.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-3 max-w-2xl">{playlist.description}</p>
+                  )}
+
+                  <div className="flex gap-2 pt-1">
+                    <Button
+                      className="rounded-full"
+                      disabled={playlist.tracks.length === 0}
+                      onClick={() => playPlaylist(playlist.tracks, 0)}
+                    >
+                      <Play className="w-4 h-4 mr-2" fill="currentColor" />
+                      Слушать
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="rounded-full"
+                      disabled={playlist.tracks.length === 0}
+                      onClick={handleShufflePlay}
+                    >
+                      <Shuffle className="w-4 h-4 mr-2" />
+                      Перемешать
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Tracks */}
+              <div className="space-y-1">
+                {playlist.tracks.map((track, index) => (
+                  <TrackCard
+                    key={track.id}
+                    track={track}
+                    variant="list"
+                    playlistContext={playlist.tracks}
+                    indexInPlaylist={index}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <MusicPlayer />
+    </MainLayout>
+  );
+}
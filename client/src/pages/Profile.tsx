@@ -1,10 +1,23 @@
+import { useState } from "react";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import MainLayout from "@/components/MainLayout";
 import MusicPlayer from "@/components/MusicPlayer";
+import ExportMenu from "@/components/ExportMenu";
 import { trpc } from "@/lib/trpc";
-import { User, Music2, Clock, Heart, LogOut, LogIn, ChevronRight, Play } from "lucide-react";
+import { User, Music2, Clock, Heart, LogOut, LogIn, ChevronRight, Play, Download, Archive, Trash2 } from "lucide-react";
 import { Link } from "wouter";
+import { toast } from "sonner";
 
 export default function Profile() {
   const { user, isAuthenticated, loading, logout } = useAuth();
@@ -188,6 +201,27 @@ export default function Profile() {
               </div>
             </Link>
           </section>
+
+          {/* Export */}
+          <section className="bg-card border border-border rounded-xl overflow-hidden">
+            <div className="flex items-center gap-3 p-4 border-b border-border">
+              <Download className="w-5 h-5 text-primary" />
+              <h2 className="font-semibold">Мои данные</h2>
+            </div>
+            <div className="divide-y divide-border">
+              <div className="flex items-center justify-between gap-3 p-3">
+                <span className="text-sm">Избранные треки</span>
+                <ExportMenu source="liked" label="Скачать" />
+              </div>
+              <div className="flex items-center justify-between gap-3 p-3">
+                <span className="text-sm">История прослушивания</span>
+                <ExportMenu source="history" label="Скачать" />
+              </div>
+              <AccountArchiveRow />
+            </div>
+          </section>
+
+          <DeleteAccountSection />
         </div>
       </div>
 
@@ -196,6 +230,121 @@ export default function Profile() {
   );
 }
 
+// Полный архив данных аккаунта: собирается на сервере в фоне, статус опрашиваем, пока он готовится
+function AccountArchiveRow() {
+  const utils = trpc.useUtils();
+  const { data: archive } = trpc.account.exportStatus.useQuery(undefined, {
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "running" ? 3000 : false;
+    },
+  });
+
+  const startMutation = trpc.account.startExport.useMutation({
+    onSuccess: (status) => utils.account.exportStatus.setData(undefined, status),
+    onError: () => toast.error("Не удалось начать выгрузку"),
+  });
+
+  const inProgress = archive?.status === "pending" || archive?.status === "running";
+
+  return (
+    <div className="flex items-center justify-between gap-3 p-3">
+      <div className="min-w-0">
+        <p className="text-sm">Все данные аккаунта</p>
+        <p className="text-xs text-muted-foreground">
+          {inProgress && "Собираем архив..."}
+          {archive?.status === "ready" && `Архив от ${new Date(archive.completedAt ?? archive.createdAt).toLocaleString("ru-RU")}`}
+          {archive?.status === "failed" && "Не удалось собрать архив, попробуйте ещё раз"}
+          {(!archive || archive.status === "none") && "ZIP с JSON: профиль, лайки, история, плейлисты"}
+        </p>
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {archive?.status === "ready" && (
+          <Button variant="ghost" size="sm" asChild>
+            <a href={archive.url} download>
+              <Download className="w-4 h-4 mr-2" />
+              Скачать
+            </a>
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={inProgress || startMutation.isPending}
+          onClick={() => startMutation.mutate()}
+        >
+          <Archive className="w-4 h-4 mr-2" />
+          {archive?.status === "ready" ? "Собрать заново" : "Собрать архив"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+const DELETE_CONFIRMATION = "удалить";
+
+function DeleteAccountSection() {
+  const utils = trpc.useUtils();
+  const [open, setOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+
+  const deleteMutation = trpc.account.delete.useMutation({
+    onSuccess: () => {
+      utils.auth.me.setData(undefined, null);
+      // Полная перезагрузка - чтобы не осталось закэшированных данных удалённого аккаунта
+      window.location.href = "/";
+    },
+    onError: () => toast.error("Не удалось удалить аккаунт"),
+  });
+
+  return (
+    <section className="bg-card border border-destructive/30 rounded-xl p-4 space-y-3">
+      <div>
+        <h2 className="font-semibold">Удаление аккаунта</h2>
+        <p className="text-sm text-muted-foreground">
+          Удалятся профиль, лайки, история, плейлисты и доступ к совместным плейлистам. Отменить это нельзя
+        </p>
+      </div>
+      <Button variant="destructive" size="sm" onClick={() => setOpen(true)}>
+        <Trash2 className="w-4 h-4 mr-2" />
+        Удалить аккаунт
+      </Button>
+
+      <AlertDialog
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) setConfirmation("");
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить аккаунт навсегда?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Если хотите сохранить данные, сначала соберите архив. Для подтверждения введите «{DELETE_CONFIRMATION}»
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            value={confirmation}
+            placeholder={DELETE_CONFIRMATION}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              disabled={confirmation.trim().toLowerCase() !== DELETE_CONFIRMATION || deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate({ confirm: true })}
+            >
+              Удалить
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </section>
+  );
+}
+
 function StatCard({ 
   icon: Icon, 
   label, 
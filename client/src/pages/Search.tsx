@@ -1,46 +1,203 @@
-import { useState, useEffect, useRef } from "react";
-import { Search as SearchIcon, X, TrendingUp } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Search as SearchIcon, TrendingUp, Link2, Music2, ListMusic, ListChecks, User, ChevronRight, X } from "lucide-react";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import MainLayout from "@/components/MainLayout";
 import MusicPlayer from "@/components/MusicPlayer";
 import { trpc } from "@/lib/trpc";
 import TrackCard from "@/components/TrackCard";
-import { useMusicPlayer } from "@/contexts/MusicPlayerContext";
+import SearchBox from "@/components/SearchBox";
+import { useAuth } from "@/_core/hooks/useAuth";
+import ArtistCard from "@/components/ArtistCard";
+import CatalogPlaylistCard from "@/components/CatalogPlaylistCard";
+import { AddToPlaylistButton } from "@/components/AddToPlaylistMenu";
+import { useMusicPlayer, type Track } from "@/contexts/MusicPlayerContext";
+import { parseSoundCloudUrl } from "@shared/soundcloudUrl";
+import { sortTracks } from "@shared/trackSort";
+import { cn } from "@/lib/utils";
+import SearchFiltersBar, {
+  DEFAULT_SEARCH_FILTERS,
+  SEARCH_GENRES,
+  toTrackSearchInput,
+  type SearchFilterState,
+} from "@/components/SearchFilters";
 
-const TRENDING_SEARCHES = [
-  "Hip-hop", "Electronic", "Lo-fi", "Jazz", "Rock", "Indie", "Pop", "R&B"
-];
+const PAGE_SIZE = 30;
+
+type SearchTab = "top" | "tracks" | "playlists" | "artists";
 
 export default function Search() {
   const [query, setQuery] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [provider, setProvider] = useState<string | undefined>(undefined);
+  const [filters, setFilters] = useState<SearchFilterState>(DEFAULT_SEARCH_FILTERS);
+  const [tab, setTab] = useState<SearchTab>("top");
+  const [resolving, setResolving] = useState(false);
+  // Мультивыбор треков для добавления в плейлист; null - режим выключен
+  const [selectedIds, setSelectedIds] = useState<Set<number> | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  const { preloadTracks } = useMusicPlayer();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { preloadTracks, playTrack } = useMusicPlayer();
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const { isAuthenticated } = useAuth();
+
+  const saveRecent = trpc.search.saveRecent.useMutation({
+    onSuccess: () => utils.search.recent.invalidate(),
+  });
+
+  // Источники показываем, только если кроме SoundCloud что-то подключено (например, медиатека)
+  const { data: providers } = trpc.providers.list.useQuery();
+
+  // По вставленной ссылке показываем только треки - сводный поиск по URL бессмыслен
+  const isUrlQuery = useMemo(() => parseSoundCloudUrl(searchQuery) !== null, [searchQuery]);
+  const activeTab: SearchTab = isUrlQuery ? "tracks" : tab;
+  const hasQuery = searchQuery.length > 0;
+
+  const { data: overview, isLoading: overviewLoading } = trpc.search.all.useQuery(
+    { query: searchQuery, provider },
+    { enabled: hasQuery && activeTab === "top" }
+  );
+
+  const { data: playlists, isLoading: playlistsLoading } = trpc.search.playlists.useQuery(
+    { query: searchQuery, provider, limit: PAGE_SIZE },
+    { enabled: hasQuery && activeTab === "playlists" }
+  );
 
-  const { data: tracks, isLoading } = trpc.search.tracks.useQuery(
-    { query: searchQuery, limit: 30 },
-    { enabled: searchQuery.length > 0 }
+  const { data: artists, isLoading: artistsLoading } = trpc.search.artists.useQuery(
+    { query: searchQuery, provider, limit: PAGE_SIZE },
+    { enabled: hasQuery && activeTab === "artists" }
   );
-  
+
+  // Мемоизируем: «за неделю» считается от текущего момента и иначе менял бы ключ запроса на каждом рендере
+  const searchInput = useMemo(() => toTrackSearchInput(filters), [filters]);
+
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = trpc.search.tracks.useInfiniteQuery(
+    { query: searchQuery, limit: PAGE_SIZE, provider, ...searchInput },
+    {
+      enabled: hasQuery && activeTab === "tracks",
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    }
+  );
+
+  // Страницы SoundCloud могут пересекаться - убираем повторы.
+  // Сервер сортирует только свою страницу, поэтому пересортировываем всё загруженное
+  const tracks = useMemo(() => {
+    if (!data) return undefined;
+    const seen = new Set<number>();
+    const unique = data.pages.flatMap(page => page.collection).filter(track => {
+      if (seen.has(track.id)) return false;
+      seen.add(track.id);
+      return true;
+    });
+    return sortTracks(unique, searchInput.sort);
+  }, [data, searchInput.sort]);
+
+  // Новая выдача - старый выбор теряет смысл
+  useEffect(() => {
+    setSelectedIds(null);
+  }, [searchQuery, provider, searchInput, activeTab]);
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedTracks = selectedIds && tracks ? tracks.filter(t => selectedIds.has(t.id)) : [];
+
   // Предзагружаем первые треки сразу при появлении результатов
+  const firstPage = activeTab === "top" ? overview?.tracks : data?.pages[0]?.collection;
   useEffect(() => {
-    if (tracks && tracks.length > 0) {
+    if (firstPage && firstPage.length > 0) {
       // Предзагружаем первые 5 треков для мгновенного воспроизведения
-      preloadTracks(tracks.slice(0, 5));
+      preloadTracks(firstPage.slice(0, 5));
+    }
+  }, [firstPage, preloadTracks]);
+
+  // Бесконечная прокрутка: догружаем, когда низ списка показался на экране
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, tracks]);
+
+  // Ссылка на SoundCloud: трек сразу играем, плейлист/исполнителя открываем на своей странице
+  const openSoundCloudUrl = async (url: string) => {
+    setResolving(true);
+    try {
+      const resolved = await utils.search.resolve.fetch({ url });
+      if (!resolved) {
+        toast.error("По этой ссылке ничего не найдено");
+        return;
+      }
+      switch (resolved.kind) {
+        case "track":
+          setProvider(undefined);
+          setSearchQuery(url);
+          playTrack(resolved.track);
+          break;
+        case "playlist":
+          setLocation(`/playlist/${resolved.playlist.id}`);
+          break;
+        case "user":
+          setLocation(`/artist/${resolved.user.id}`);
+          break;
+      }
+    } catch (error) {
+      toast.error("Не удалось открыть ссылку");
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const runSearch = (input: string) => {
+    const term = input.trim();
+    if (!term) return;
+
+    const url = parseSoundCloudUrl(term);
+    if (url) {
+      openSoundCloudUrl(url);
+      return;
     }
-  }, [tracks, preloadTracks]);
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (query.trim()) {
-      setSearchQuery(query.trim());
+    setTab("top");
+    setSearchQuery(term);
+    if (isAuthenticated) {
+      saveRecent.mutate({ query: term });
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const url = parseSoundCloudUrl(e.clipboardData.getData("text"));
+    if (url && !query.trim()) {
+      e.preventDefault();
+      setQuery(url);
+      openSoundCloudUrl(url);
     }
   };
 
   const handleQuickSearch = (term: string) => {
     setQuery(term);
-    setSearchQuery(term);
+    runSearch(term);
   };
 
   const clearSearch = () => {
@@ -60,36 +217,71 @@ export default function Search() {
         {/* Search Header - Sticky */}
         <header className="sticky top-0 z-30 bg-background/95 backdrop-blur-xl border-b border-border">
           <div className="container py-4">
-            <form onSubmit={handleSearch}>
-              <div className="relative">
-                <SearchIcon className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground pointer-events-none" />
-                <Input
-                  ref={inputRef}
-                  type="text"
-                  placeholder="Найти треки, исполнителей..."
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  className="pl-12 pr-12 h-12 text-base bg-secondary border-0 rounded-xl placeholder:text-muted-foreground"
-                />
-                {query && (
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    className="absolute right-2 top-1/2 -translate-y-1/2 h-8 w-8"
-                    onClick={clearSearch}
-                  >
-                    <X className="w-4 h-4" />
-                  </Button>
+            <SearchBox
+              ref={inputRef}
+              value={query}
+              onChange={setQuery}
+              onSubmit={runSearch}
+              onPaste={handlePaste}
+              onClear={clearSearch}
+              provider={provider}
+            />
+
+            {providers && providers.length > 1 && (
+              <div className="flex gap-2 mt-3">
+                {providers.map((p, index) => {
+                  const active = provider ? provider === p.id : index === 0;
+                  return (
+                    <Button
+                      key={p.id}
+                      type="button"
+                      variant={active ? "default" : "secondary"}
+                      size="sm"
+                      className="rounded-full h-8"
+                      onClick={() => setProvider(p.id)}
+                    >
+                      {p.displayName}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+
+            {hasQuery && !isUrlQuery && (
+              <Tabs value={activeTab} onValueChange={(value) => setTab(value as SearchTab)} className="mt-3">
+                <TabsList className="h-auto p-1 bg-secondary rounded-lg">
+                  <TabsTrigger value="top" className="px-3 py-1.5 data-[state=active]:bg-background rounded-md">
+                    Лучшее
+                  </TabsTrigger>
+                  <TabsTrigger value="tracks" className="px-3 py-1.5 data-[state=active]:bg-background rounded-md">
+                    Треки
+                  </TabsTrigger>
+                  <TabsTrigger value="playlists" className="px-3 py-1.5 data-[state=active]:bg-background rounded-md">
+                    Плейлисты
+                  </TabsTrigger>
+                  <TabsTrigger value="artists" className="px-3 py-1.5 data-[state=active]:bg-background rounded-md">
+                    Исполнители
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+
+            {hasQuery && activeTab === "tracks" && !isUrlQuery && (
+              <div className="mt-3">
+                <SearchFiltersBar value={filters} onChange={setFilters} />
+                {filters.sort !== "relevance" && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Сортируются загруженные результаты - при прокрутке список дополнится и пересортируется
+                  </p>
                 )}
               </div>
-            </form>
+            )}
           </div>
         </header>
 
         <div className="container py-6">
           {/* Initial State - Show Trending */}
-          {!searchQuery && (
+          {!searchQuery && !resolving && (
             <div className="space-y-8">
               <section>
                 <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -97,7 +289,7 @@ export default function Search() {
                   Популярные жанры
                 </h2>
                 <div className="flex flex-wrap gap-2">
-                  {TRENDING_SEARCHES.map((term) => (
+                  {SEARCH_GENRES.map((term) => (
                     <Button
                       key={term}
                       variant="secondary"
@@ -122,44 +314,182 @@ export default function Search() {
             </div>
           )}
 
-          {/* Loading State */}
-          {isLoading && (
+          {/* Resolving pasted link */}
+          {resolving && (
             <div className="flex flex-col items-center justify-center py-16">
-              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-              <p className="mt-4 text-sm text-muted-foreground">Ищем...</p>
+              <Link2 className="w-8 h-8 text-primary animate-pulse" />
+              <p className="mt-4 text-sm text-muted-foreground">Открываем ссылку...</p>
             </div>
           )}
 
+          {/* Top results */}
+          {hasQuery && !resolving && activeTab === "top" && (
+            overviewLoading ? (
+              <LoadingState />
+            ) : overview && (overview.tracks.length > 0 || overview.playlists.length > 0 || overview.artists.length > 0) ? (
+              <div className="space-y-10">
+                <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+                  {overview.topResult && (
+                    <section>
+                      <h2 className="text-lg font-semibold mb-4">Лучший результат</h2>
+                      <TopResultCard result={overview.topResult} onPlay={playTrack} />
+                    </section>
+                  )}
+                  {overview.tracks.length > 0 && (
+                    <section>
+                      <SectionHeader title="Треки" onShowAll={() => setTab("tracks")} />
+                      <div className="space-y-1">
+                        {overview.tracks.slice(0, 5).map((track, index) => (
+                          <TrackCard
+                            key={track.id}
+                            track={track}
+                            variant="list"
+                            playlistContext={overview.tracks}
+                            indexInPlaylist={index}
+                          />
+                        ))}
+                      </div>
+                    </section>
+                  )}
+                </div>
+
+                {overview.artists.length > 0 && (
+                  <section>
+                    <SectionHeader title="Исполнители" onShowAll={() => setTab("artists")} />
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-2">
+                      {overview.artists.slice(0, 6).map((artist) => (
+                        <ArtistCard key={artist.id} artist={artist} />
+                      ))}
+                    </div>
+                  </section>
+                )}
+
+                {overview.playlists.length > 0 && (
+                  <section>
+                    <SectionHeader title="Плейлисты" onShowAll={() => setTab("playlists")} />
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+                      {overview.playlists.slice(0, 6).map((playlist) => (
+                        <CatalogPlaylistCard key={playlist.id} playlist={playlist} />
+                      ))}
+                    </div>
+                  </section>
+                )}
+              </div>
+            ) : (
+              <NoResults query={searchQuery} onReset={clearSearch} />
+            )
+          )}
+
+          {/* Playlists */}
+          {hasQuery && !resolving && activeTab === "playlists" && (
+            playlistsLoading ? (
+              <LoadingState />
+            ) : playlists && playlists.length > 0 ? (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                {playlists.map((playlist) => (
+                  <CatalogPlaylistCard key={playlist.id} playlist={playlist} />
+                ))}
+              </div>
+            ) : (
+              <NoResults query={searchQuery} onReset={clearSearch} />
+            )
+          )}
+
+          {/* Artists */}
+          {hasQuery && !resolving && activeTab === "artists" && (
+            artistsLoading ? (
+              <LoadingState />
+            ) : artists && artists.length > 0 ? (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-2">
+                {artists.map((artist) => (
+                  <ArtistCard key={artist.id} artist={artist} />
+                ))}
+              </div>
+            ) : (
+              <NoResults query={searchQuery} onReset={clearSearch} />
+            )
+          )}
+
+          {/* Loading State */}
+          {activeTab === "tracks" && isLoading && (
+            <LoadingState />
+          )}
+
           {/* Results */}
-          {tracks && tracks.length > 0 && (
+          {activeTab === "tracks" && tracks && tracks.length > 0 && (
             <div className="space-y-6">
               <div className="flex items-center justify-between">
                 <h2 className="text-lg font-semibold">
                   Результаты по запросу «{searchQuery}»
                 </h2>
-                <span className="text-sm text-muted-foreground">
-                  {tracks.length} трек(ов)
-                </span>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    {tracks.length}{hasNextPage ? "+" : ""} трек(ов)
+                  </span>
+                  <Button
+                    variant={selectedIds ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => setSelectedIds(prev => (prev ? null : new Set()))}
+                  >
+                    <ListChecks className="w-4 h-4 mr-2" />
+                    {selectedIds ? "Готово" : "Выбрать"}
+                  </Button>
+                </div>
               </div>
               
               {/* Grid for larger screens, list for mobile */}
               <div className="hidden sm:grid sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4">
                 {tracks.map((track) => (
-                  <TrackCard key={track.id} track={track} />
+                  <TrackCard
+                    key={track.id}
+                    track={track}
+                    selected={selectedIds?.has(track.id)}
+                    onToggleSelect={selectedIds ? () => toggleSelected(track.id) : undefined}
+                  />
                 ))}
               </div>
               
               {/* List for mobile */}
               <div className="sm:hidden space-y-1">
                 {tracks.map((track) => (
-                  <TrackCard key={track.id} track={track} variant="list" />
+                  <TrackCard
+                    key={track.id}
+                    track={track}
+                    variant="list"
+                    selected={selectedIds?.has(track.id)}
+                    onToggleSelect={selectedIds ? () => toggleSelected(track.id) : undefined}
+                  />
                 ))}
               </div>
+
+              <div ref={loadMoreRef} className="flex justify-center py-4">
+                {isFetchingNextPage && (
+                  <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                )}
+              </div>
+
+              {/* Selection bar */}
+              {selectedIds && (
+                <div className="fixed left-1/2 -translate-x-1/2 bottom-40 md:bottom-28 z-40 flex items-center gap-2 rounded-full border border-border bg-card/95 backdrop-blur px-4 py-2 shadow-xl">
+                  <span className="text-sm font-medium whitespace-nowrap">Выбрано: {selectedTracks.length}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSelectedIds(new Set(tracks.map(t => t.id)))}
+                  >
+                    Все
+                  </Button>
+                  <AddToPlaylistButton tracks={selectedTracks} label="В плейлист" variant="default" align="center" />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Отменить выбор" onClick={() => setSelectedIds(null)}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
             </div>
           )}
 
           {/* No Results */}
-          {tracks && tracks.length === 0 && searchQuery && (
+          {activeTab === "tracks" && tracks && tracks.length === 0 && searchQuery && (
             <div className="flex flex-col items-center justify-center py-16 text-center">
               <div className="w-16 h-16 rounded-full bg-secondary flex items-center justify-center mb-4">
                 <SearchIcon className="w-8 h-8 text-muted-foreground" />
@@ -168,9 +498,16 @@ export default function Search() {
               <p className="text-sm text-muted-foreground mb-6">
                 По запросу «{searchQuery}» ничего не нашлось
               </p>
-              <Button variant="outline" onClick={clearSearch}>
-                Новый поиск
-              </Button>
+              <div className="flex gap-2">
+                {filters !== DEFAULT_SEARCH_FILTERS && (
+                  <Button variant="secondary" onClick={() => setFilters(DEFAULT_SEARCH_FILTERS)}>
+                    Сбросить фильтры
+                  </Button>
+                )}
+                <Button variant="outline" onClick={clearSearch}>
+                  Новый поиск
+                </Button>
+              </div>
             </div>
           )}
         </div>
@@ -180,3 +517,114 @@ export default function Search() {
     </MainLayout>
   );
 }
+
+function LoadingState() {
+  return (
+    <div className="flex flex-col items-center justify-center py-16">
+      <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      <p className="mt-4 text-sm text-muted-foreground">Ищем...</p>
+    </div>
+  );
+}
+
+function NoResults({ query, onReset }: { query: string; onReset: () => void }) {
+  return (
+    <div className="flex flex-col items-center justify-center py-16 text-center">
+      <div className="w-16 h-16 rounded-full bg-secondary flex items-center justify-center mb-4">
+        <SearchIcon className="w-8 h-8 text-muted-foreground" />
+      </div>
+      <h3 className="font-semibold mb-1">Ничего не найдено</h3>
+      <p className="text-sm text-muted-foreground mb-6">
+        По запросу «{query}» ничего не нашлось
+      </p>
+      <Button variant="outline" onClick={onReset}>
+        Новый поиск
+      </Button>
+    </div>
+  );
+}
+
+function SectionHeader({ title, onShowAll }: { title: string; onShowAll: () => void }) {
+  return (
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-lg font-semibold">{title}</h2>
+      <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={onShowAll}>
+        Все
+        <ChevronRight className="w-4 h-4 ml-1" />
+      </Button>
+    </div>
+  );
+}
+
+type TopResult =
+  | { kind: "track"; track: Track }
+  | { kind: "playlist"; playlist: { id: number; title: string; artwork_url: string | null; user: { username: string } } }
+  | { kind: "artist"; artist: { id: number; username: string; avatar_url: string | null } };
+
+function describeTopResult(result: TopResult) {
+  switch (result.kind) {
+    case "track":
+      return {
+        image: result.track.artwork_url,
+        title: result.track.title,
+        subtitle: result.track.user.username,
+        label: "Трек",
+        icon: Music2,
+      };
+    case "playlist":
+      return {
+        image: result.playlist.artwork_url,
+        title: result.playlist.title,
+        subtitle: result.playlist.user.username,
+        label: "Плейлист",
+        icon: ListMusic,
+      };
+    case "artist":
+      return {
+        image: result.artist.avatar_url,
+        title: result.artist.username,
+        subtitle: null,
+        label: "Исполнитель",
+        icon: User,
+      };
+  }
+}
+
+// Крупная карточка «Лучший результат»: трек запускается, плейлист и исполнитель открываются
+function TopResultCard({ result, onPlay }: { result: TopResult; onPlay: (track: Track) => void }) {
+  const [, setLocation] = useLocation();
+  const view = describeTopResult(result);
+  const Icon = view.icon;
+
+  const handleClick = () => {
+    if (result.kind === "track") onPlay(result.track);
+    else if (result.kind === "playlist") setLocation(`/playlist/${result.playlist.id}`);
+    else setLocation(`/artist/${result.artist.id}`);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      className="w-full text-left bg-card border border-border rounded-xl p-5 transition-all hover:bg-secondary/50 card-hover"
+    >
+      <div
+        className={cn(
+          "w-24 h-24 mb-4 overflow-hidden bg-secondary flex items-center justify-center shadow-lg",
+          result.kind === "artist" ? "rounded-full" : "rounded-lg"
+        )}
+      >
+        {view.image ? (
+          <img src={view.image} alt={view.title} className="w-full h-full object-cover" />
+        ) : (
+          <Icon className="w-10 h-10 text-muted-foreground" />
+        )}
+      </div>
+      <h3 className="text-2xl font-bold truncate">{view.title}</h3>
+      <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
+        <span className="px-2 py-0.5 rounded-full bg-secondary text-xs font-medium text-foreground">{view.label}</span>
+        {view.subtitle && <span className="truncate">{view.subtitle}</span>}
+      </p>
+    </button>
+  );
+}
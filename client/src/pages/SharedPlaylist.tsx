@@ -0,0 +1,192 @@
+import { useEffect } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { Copy, ListMusic, LogIn, Pencil, Play, Share2, Shuffle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import MainLayout from "@/components/MainLayout";
+import MusicPlayer from "@/components/MusicPlayer";
+import TrackCard from "@/components/TrackCard";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { fromStoredTrack, useMusicPlayer } from "@/contexts/MusicPlayerContext";
+import { playlistShareUrl, shareLink } from "@/utils/shareLink";
+
+function formatTotalDuration(ms: number) {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} мин`;
+  return `${Math.floor(minutes / 60)} ч ${minutes % 60} мин`;
+}
+
+/**
+ * Публичный плейлист по ссылке /p/:slug: только просмотр и прослушивание,
+ * вошедшие пользователи могут сохранить копию к себе
+ */
+export default function SharedPlaylist() {
+  const params = useParams<{ slug: string }>();
+  const shareSlug = params.slug ?? "";
+  const [, setLocation] = useLocation();
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+  const { playPlaylist, preloadTracks, shuffle, toggleShuffle } = useMusicPlayer();
+
+  const { data: playlist, isLoading, error } = trpc.playlists.getPublic.useQuery(
+    { shareSlug },
+    { enabled: shareSlug.length > 0, retry: false }
+  );
+
+  const tracks = playlist?.tracks.map(fromStoredTrack) ?? [];
+
+  useEffect(() => {
+    if (playlist && playlist.tracks.length > 0) {
+      preloadTracks(playlist.tracks.slice(0, 5).map(fromStoredTrack));
+    }
+  }, [playlist, preloadTracks]);
+
+  const saveCopyMutation = trpc.playlists.saveCopy.useMutation({
+    onSuccess: (copy) => {
+      utils.playlists.list.invalidate();
+      toast.success("Плейлист сохранён в медиатеку", {
+        action: { label: "Открыть", onClick: () => setLocation(`/library/playlist/${copy.id}`) },
+      });
+    },
+    onError: () => toast.error("Не удалось сохранить плейлист"),
+  });
+
+  const handleShufflePlay = () => {
+    if (tracks.length === 0) return;
+    if (!shuffle) toggleShuffle();
+    playPlaylist(tracks, Math.floor(Math.random() * tracks.length));
+  };
+
+  return (
+    <MainLayout>
+      <div className="min-h-screen pb-40 md:pb-28">
+        <div className="container py-6">
+          {isLoading && (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              <p className="mt-4 text-sm text-muted-foreground">Загружаем плейлист...</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <div className="w-16 h-16 rounded-full bg-secondary flex items-center justify-center mb-4">
+                <ListMusic className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h3 className="font-semibold mb-1">Плейлист не найден</h3>
+              <p className="text-sm text-muted-foreground">Возможно, владелец удалил его или закрыл доступ</p>
+            </div>
+          )}
+
+          {playlist && (
+            <div className="space-y-8">
+              {/* Header */}
+              <div className="flex flex-col sm:flex-row gap-6 sm:items-end">
+                <div className="w-40 h-40 sm:w-52 sm:h-52 rounded-xl bg-gradient-to-br from-primary/20 to-primary/5 flex-shrink-0 shadow-lg flex items-center justify-center">
+                  <span className="text-6xl font-bold text-primary/40">
+                    {playlist.name.charAt(0).toUpperCase()}
+                  </span>
+                </div>
+
+                <div className="space-y-3 min-w-0">
+                  <p className="text-xs uppercase tracking-wider text-muted-foreground">Плейлист</p>
+                  <h1 className="text-2xl md:text-4xl font-bold break-words">{playlist.name}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {playlist.ownerName && (
+                      <>
+                        <span className="font-medium text-foreground">{playlist.ownerName}</span>
+                        {" · "}
+                      </>
+                    )}
+                    {playlist.tracks.length} трек(ов) · {formatTotalDuration(playlist.tracks.reduce((sum, t) => sum + t.duration, 0))}
+                  </p>
+                  {playlist.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-3 max-w-2xl">{playlist.description}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    <Button
+                      className="rounded-full"
+                      disabled={tracks.length === 0}
+                      onClick={() => playPlaylist(tracks, 0)}
+                    >
+                      <Play className="w-4 h-4 mr-2" fill="currentColor" />
+                      Слушать
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      className="rounded-full"
+                      disabled={tracks.length === 0}
+                      onClick={handleShufflePlay}
+                    >
+                      <Shuffle className="w-4 h-4 mr-2" />
+                      Перемешать
+                    </Button>
+
+                    {playlist.isOwner && playlist.playlistId !== null ? (
+                      <Button variant="ghost" className="rounded-full" asChild>
+                        <Link href={`/library/playlist/${playlist.playlistId}`}>
+                          <Pencil className="w-4 h-4 mr-2" />
+                          Редактировать
+                        </Link>
+                      </Button>
+                    ) : isAuthenticated ? (
+                      <Button
+                        variant="ghost"
+                        className="rounded-full"
+                        disabled={saveCopyMutation.isPending}
+                        onClick={() => saveCopyMutation.mutate({ shareSlug })}
+                      >
+                        <Copy className="w-4 h-4 mr-2" />
+                        Сохранить копию
+                      </Button>
+                    ) : (
+                      <Button variant="ghost" className="rounded-full" asChild>
+                        <Link href="/login">
+                          <LogIn className="w-4 h-4 mr-2" />
+                          Войти, чтобы сохранить
+                        </Link>
+                      </Button>
+                    )}
+
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="rounded-full"
+                      title="Поделиться"
+                      onClick={() => shareLink(playlistShareUrl(shareSlug), playlist.name)}
+                    >
+                      <Share2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Tracks */}
+              {tracks.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  В плейлисте пока нет треков
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {tracks.map((track, index) => (
+                    <TrackCard
+                      key={`${playlist.tracks[index].id}-${index}`}
+                      track={track}
+                      variant="list"
+                      playlistContext={tracks}
+                      indexInPlaylist={index}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <MusicPlayer />
+    </MainLayout>
+  );
+}
@@ -0,0 +1,27 @@
+import { toast } from "sonner";
+
+/**
+ * Делится ссылкой: системное меню «Поделиться» на телефонах, иначе копирование в буфер обмена
+ */
+export async function shareLink(url: string, title: string) {
+  if (navigator.share && window.matchMedia("(pointer: coarse)").matches) {
+    try {
+      await navigator.share({ url, title });
+      return;
+    } catch (error) {
+      // Пользователь закрыл системное меню - это не ошибка
+      if (error instanceof DOMException && error.name === "AbortError") return;
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(url);
+    toast.success("Ссылка скопирована");
+  } catch (error) {
+    toast.info(url, { description: "Скопируйте ссылку вручную" });
+  }
+}
+
+export function playlistShareUrl(shareSlug: string) {
+  return `${window.location.origin}/p/${shareSlug}`;
+}
@@ -0,0 +1,13 @@
+CREATE TABLE `playback_state` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`queue` mediumtext NOT NULL,
+	`currentIndex` int NOT NULL,
+	`positionMs` int NOT NULL DEFAULT 0,
+	`shuffle` boolean NOT NULL DEFAULT false,
+	`repeatMode` enum('off','all','one') NOT NULL DEFAULT 'off',
+	`deviceId` varchar(64),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `playback_state_id` PRIMARY KEY(`id`),
+	CONSTRAINT `playback_state_userId_unique` UNIQUE(`userId`)
+);
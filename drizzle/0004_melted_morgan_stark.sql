@@ -0,0 +1,3 @@
+ALTER TABLE `tracks` DROP INDEX `tracks_soundcloudId_unique`;--> statement-breakpoint
+ALTER TABLE `tracks` ADD `provider` varchar(32) DEFAULT 'soundcloud' NOT NULL;--> statement-breakpoint
+ALTER TABLE `tracks` ADD CONSTRAINT `provider_track_unique` UNIQUE(`provider`,`soundcloudId`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `local_library_files` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`trackId` int,
+	`path` varchar(768) NOT NULL,
+	`size` bigint NOT NULL,
+	`mtimeMs` bigint NOT NULL,
+	`mimeType` varchar(64) NOT NULL,
+	`album` text,
+	`hasArtwork` boolean NOT NULL DEFAULT false,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `local_library_files_id` PRIMARY KEY(`id`),
+	CONSTRAINT `local_library_files_path_unique` UNIQUE(`path`)
+);
+--> statement-breakpoint
+CREATE INDEX `local_track_id_idx` ON `local_library_files` (`trackId`);
\ No newline at end of file
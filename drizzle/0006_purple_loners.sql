@@ -0,0 +1,10 @@
+CREATE TABLE `recent_searches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`query` varchar(255) NOT NULL,
+	`searchedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `recent_searches_id` PRIMARY KEY(`id`),
+	CONSTRAINT `recent_search_user_query_unique` UNIQUE(`userId`,`query`)
+);
+--> statement-breakpoint
+CREATE INDEX `recent_search_user_searched_at_idx` ON `recent_searches` (`userId`,`searchedAt`);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `playlists` ADD `shareSlug` varchar(32);--> statement-breakpoint
+ALTER TABLE `playlists` ADD CONSTRAINT `playlists_shareSlug_unique` UNIQUE(`shareSlug`);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `playlist_members` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`playlistId` int NOT NULL,
+	`userId` int NOT NULL,
+	`role` enum('owner','editor','viewer') NOT NULL,
+	`invitedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `playlist_members_id` PRIMARY KEY(`id`),
+	CONSTRAINT `playlist_member_unique` UNIQUE(`playlistId`,`userId`)
+);
+--> statement-breakpoint
+ALTER TABLE `playlist_tracks` ADD `addedBy` int;--> statement-breakpoint
+CREATE INDEX `playlist_member_user_id_idx` ON `playlist_members` (`userId`);--> statement-breakpoint
+INSERT INTO `playlist_members` (`playlistId`, `userId`, `role`) SELECT `id`, `userId`, 'owner' FROM `playlists`;--> statement-breakpoint
+UPDATE `playlist_tracks` pt JOIN `playlists` p ON p.`id` = pt.`playlistId` SET pt.`addedBy` = p.`userId`;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `account_exports` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`status` enum('pending','running','ready','failed') NOT NULL DEFAULT 'pending',
+	`storageKey` varchar(255),
+	`error` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`completedAt` timestamp,
+	CONSTRAINT `account_exports_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `account_export_user_created_at_idx` ON `account_exports` (`userId`,`createdAt`);
\ No newline at end of file
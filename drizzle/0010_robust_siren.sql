@@ -0,0 +1 @@
+ALTER TABLE `playlists` ADD `smartRules` text;
\ No newline at end of file
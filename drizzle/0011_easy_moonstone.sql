@@ -0,0 +1,15 @@
+CREATE TABLE `home_mixes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`generation` int NOT NULL,
+	`mixKey` varchar(255) NOT NULL,
+	`position` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`description` text,
+	`tracks` mediumtext NOT NULL,
+	`generatedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `home_mixes_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `home_mix_user_generation_idx` ON `home_mixes` (`userId`,`generation`);--> statement-breakpoint
+CREATE INDEX `home_mix_user_generated_at_idx` ON `home_mixes` (`userId`,`generatedAt`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `scheduled_playlists` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`kind` enum('daily','discover') NOT NULL,
+	`period` varchar(10) NOT NULL,
+	`position` int NOT NULL,
+	`title` varchar(255) NOT NULL,
+	`description` text,
+	`tracks` mediumtext NOT NULL,
+	`generatedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `scheduled_playlists_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `scheduled_playlist_user_kind_period_idx` ON `scheduled_playlists` (`userId`,`kind`,`period`);
\ No newline at end of file
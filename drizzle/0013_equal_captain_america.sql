@@ -0,0 +1,10 @@
+CREATE TABLE `track_similarities` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`trackId` int NOT NULL,
+	`similarTrackId` int NOT NULL,
+	`score` double NOT NULL,
+	`coUsers` int NOT NULL,
+	`computedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `track_similarities_id` PRIMARY KEY(`id`),
+	CONSTRAINT `track_similarity_pair_unique` UNIQUE(`trackId`,`similarTrackId`)
+);
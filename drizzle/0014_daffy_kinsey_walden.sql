@@ -0,0 +1,5 @@
+CREATE TABLE `deleted_accounts` (
+	`openId` varchar(64) NOT NULL,
+	`deletedAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `deleted_accounts_openId` PRIMARY KEY(`openId`)
+);
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, unique, index } from "drizzle-orm/mysql-core";
+import { int, bigint, double, mysqlEnum, mysqlTable, text, mediumtext, timestamp, varchar, boolean, unique, index } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -20,11 +20,13 @@ export type InsertUser = typeof users.$inferInsert;
 
 /**
  * Tracks that users have interacted with (liked/disliked)
- * Stores SoundCloud track metadata for quick access
+ * Stores provider track metadata for quick access
  */
 export const tracks = mysqlTable("tracks", {
   id: int("id").autoincrement().primaryKey(),
-  soundcloudId: varchar("soundcloudId", { length: 255 }).notNull().unique(),
+  provider: varchar("provider", { length: 32 }).default("soundcloud").notNull(),
+  // Id трека внутри провайдера (имя колонки осталось с тех пор, когда был только SoundCloud)
+  soundcloudId: varchar("soundcloudId", { length: 255 }).notNull(),
   title: text("title").notNull(),
   artist: text("artist").notNull(),
   artworkUrl: text("artworkUrl"),
@@ -35,6 +37,7 @@ export const tracks = mysqlTable("tracks", {
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 }, (table) => ({
+  providerTrackUnique: unique("provider_track_unique").on(table.provider, table.soundcloudId),
   soundcloudIdIdx: index("soundcloud_id_idx").on(table.soundcloudId),
 }));
 
@@ -109,6 +112,8 @@ export const playlists = mysqlTable("playlists", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   isPublic: boolean("isPublic").default(false).notNull(),
+  shareSlug: varchar("shareSlug", { length: 32 }).unique(), // random id for /p/:slug, issued on first share
+  smartRules: text("smartRules"), // JSON rule set (shared/smartPlaylist.ts); null - regular playlist with playlist_tracks
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 }, (table) => ({
@@ -126,6 +131,7 @@ export const playlistTracks = mysqlTable("playlist_tracks", {
   playlistId: int("playlistId").notNull(),
   trackId: int("trackId").notNull(),
   position: int("position").notNull(), // order in playlist
+  addedBy: int("addedBy"), // user who added the track
   addedAt: timestamp("addedAt").defaultNow().notNull(),
 }, (table) => ({
   playlistIdIdx: index("playlist_id_idx").on(table.playlistId),
@@ -134,3 +140,169 @@ export const playlistTracks = mysqlTable("playlist_tracks", {
 
 export type PlaylistTrack = typeof playlistTracks.$inferSelect;
 export type InsertPlaylistTrack = typeof playlistTracks.$inferInsert;
+
+/**
+ * Access to playlists: the owner plus invited editors (may change tracks) and viewers.
+ * playlists.userId stays the owner; every playlist also has an "owner" row here
+ */
+export const playlistMembers = mysqlTable("playlist_members", {
+  id: int("id").autoincrement().primaryKey(),
+  playlistId: int("playlistId").notNull(),
+  userId: int("userId").notNull(),
+  role: mysqlEnum("role", ["owner", "editor", "viewer"]).notNull(),
+  invitedBy: int("invitedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  playlistUserUnique: unique("playlist_member_unique").on(table.playlistId, table.userId),
+  userIdIdx: index("playlist_member_user_id_idx").on(table.userId),
+}));
+
+export type PlaylistMember = typeof playlistMembers.$inferSelect;
+export type InsertPlaylistMember = typeof playlistMembers.$inferInsert;
+
+/**
+ * Last known player state per user (queue, position, shuffle/repeat)
+ * Used to resume playback after reload or on another device
+ */
+export const playbackState = mysqlTable("playback_state", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull().unique(),
+  queue: mediumtext("queue").notNull(), // JSON: { playOrder, originalOrder }
+  currentIndex: int("currentIndex").notNull(),
+  positionMs: int("positionMs").default(0).notNull(),
+  shuffle: boolean("shuffle").default(false).notNull(),
+  repeatMode: mysqlEnum("repeatMode", ["off", "all", "one"]).default("off").notNull(),
+  deviceId: varchar("deviceId", { length: 64 }), // player session that saved the state
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type PlaybackState = typeof playbackState.$inferSelect;
+export type InsertPlaybackState = typeof playbackState.$inferInsert;
+
+/**
+ * Files of the local music library (LOCAL_MUSIC_DIR).
+ * Metadata lives in tracks (provider "local", soundcloudId = id of this row)
+ */
+export const localLibraryFiles = mysqlTable("local_library_files", {
+  id: int("id").autoincrement().primaryKey(),
+  trackId: int("trackId"),
+  path: varchar("path", { length: 768 }).notNull().unique(), // relative to LOCAL_MUSIC_DIR
+  size: bigint("size", { mode: "number" }).notNull(),
+  mtimeMs: bigint("mtimeMs", { mode: "number" }).notNull(),
+  mimeType: varchar("mimeType", { length: 64 }).notNull(),
+  album: text("album"),
+  hasArtwork: boolean("hasArtwork").default(false).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  trackIdIdx: index("local_track_id_idx").on(table.trackId),
+}));
+
+export type LocalLibraryFile = typeof localLibraryFiles.$inferSelect;
+export type InsertLocalLibraryFile = typeof localLibraryFiles.$inferInsert;
+
+/**
+ * Recent search queries per user (one row per distinct query, bumped on repeat)
+ */
+export const recentSearches = mysqlTable("recent_searches", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  query: varchar("query", { length: 255 }).notNull(),
+  searchedAt: timestamp("searchedAt").defaultNow().notNull(),
+}, (table) => ({
+  userQueryUnique: unique("recent_search_user_query_unique").on(table.userId, table.query),
+  userSearchedAtIdx: index("recent_search_user_searched_at_idx").on(table.userId, table.searchedAt),
+}));
+
+export type RecentSearch = typeof recentSearches.$inferSelect;
+export type InsertRecentSearch = typeof recentSearches.$inferInsert;
+
+/**
+ * "Download all my data" jobs: a zip of JSON dumps is built in the background
+ * and uploaded to storage; the link is signed on every status request
+ */
+export const accountExports = mysqlTable("account_exports", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "ready", "failed"]).default("pending").notNull(),
+  storageKey: varchar("storageKey", { length: 255 }),
+  error: text("error"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  completedAt: timestamp("completedAt"),
+}, (table) => ({
+  userCreatedAtIdx: index("account_export_user_created_at_idx").on(table.userId, table.createdAt),
+}));
+
+export type AccountExport = typeof accountExports.$inferSelect;
+export type InsertAccountExport = typeof accountExports.$inferInsert;
+
+/**
+ * Tombstones of deleted accounts. A session issued before deletedAt is rejected
+ * instead of silently re-creating the user from OAuth; a fresh sign-in is allowed
+ */
+export const deletedAccounts = mysqlTable("deleted_accounts", {
+  openId: varchar("openId", { length: 64 }).primaryKey(),
+  deletedAt: timestamp("deletedAt").defaultNow().notNull(),
+});
+
+/**
+ * Generated home-feed mixes. Every run of the feed generator is a new generation;
+ * tracks are stored as provider JSON so a past mix plays back exactly as it was shown
+ */
+export const homeMixes = mysqlTable("home_mixes", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  generation: int("generation").notNull(), // per-user feed generation counter
+  mixKey: varchar("mixKey", { length: 255 }).notNull(), // stable id of the mix kind, e.g. "mix-genre-House"
+  position: int("position").notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description"),
+  tracks: mediumtext("tracks").notNull(), // JSON: MusicTrack[]
+  generatedAt: timestamp("generatedAt").defaultNow().notNull(),
+}, (table) => ({
+  userGenerationIdx: index("home_mix_user_generation_idx").on(table.userId, table.generation),
+  userGeneratedAtIdx: index("home_mix_user_generated_at_idx").on(table.userId, table.generatedAt),
+}));
+
+export type HomeMix = typeof homeMixes.$inferSelect;
+export type InsertHomeMix = typeof homeMixes.$inferInsert;
+
+/**
+ * Scheduled playlists built in the background: a "Daily Mix" per taste cluster
+ * and a weekly "Discover" playlist. Only the current day/week is kept per kind
+ */
+export const scheduledPlaylists = mysqlTable("scheduled_playlists", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  kind: mysqlEnum("kind", ["daily", "discover"]).notNull(),
+  period: varchar("period", { length: 10 }).notNull(), // YYYY-MM-DD (UTC): the day, or the Monday of the week
+  position: int("position").notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  description: text("description"),
+  tracks: mediumtext("tracks").notNull(), // JSON: MusicTrack[]
+  generatedAt: timestamp("generatedAt").defaultNow().notNull(),
+}, (table) => ({
+  userKindPeriodIdx: index("scheduled_playlist_user_kind_period_idx").on(table.userId, table.kind, table.period),
+}));
+
+export type ScheduledPlaylist = typeof scheduledPlaylists.$inferSelect;
+export type InsertScheduledPlaylist = typeof scheduledPlaylists.$inferInsert;
+
+/**
+ * Item-item similarity computed offline from all users' likes and listens
+ * (co-occurrence, cosine). Top neighbours per track; the table is rebuilt by a background job
+ */
+export const trackSimilarities = mysqlTable("track_similarities", {
+  id: int("id").autoincrement().primaryKey(),
+  trackId: int("trackId").notNull(),
+  similarTrackId: int("similarTrackId").notNull(),
+  score: double("score").notNull(), // cosine similarity, 0..1
+  coUsers: int("coUsers").notNull(), // users who have both tracks
+  computedAt: timestamp("computedAt").defaultNow().notNull(),
+}, (table) => ({
+  trackPairUnique: unique("track_similarity_pair_unique").on(table.trackId, table.similarTrackId),
+}));
+
+export type TrackSimilarity = typeof trackSimilarities.$inferSelect;
+export type InsertTrackSimilarity = typeof trackSimilarities.$inferInsert;
@@ -7,4 +7,6 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  // Папка с музыкой для локальной медиатеки (пусто - провайдер отключён)
+  localMusicDir: process.env.LOCAL_MUSIC_DIR ?? "",
 };
@@ -4,6 +4,11 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerStreamRoutes } from "../stream";
+import { registerExportRoutes } from "../libraryExport";
+import { isLocalLibraryEnabled, registerLocalLibraryRoutes, scanLocalLibrary } from "../localLibrary";
+import { startPlaylistScheduler } from "../scheduledPlaylists";
+import { startTrackSimilarityJob } from "../trackSimilarity";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
@@ -38,6 +43,12 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Audio proxy under /api/stream/:trackId (Range/206 passthrough)
+  registerStreamRoutes(app);
+  // Embedded artwork of local library files
+  registerLocalLibraryRoutes(app);
+  // Playlist / liked / history downloads under /api/export/*
+  registerExportRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -75,6 +86,14 @@ app.get("*", (req, res, next) => {
 });
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
+    // Индексируем локальную медиатеку в фоне, чтобы не задерживать старт
+    if (isLocalLibraryEnabled()) {
+      scanLocalLibrary().catch(error => console.error("[LocalLibrary] Scan failed:", error));
+    }
+    // Daily Mix и Discover собираются заранее, а не при открытии главной
+    startPlaylistScheduler();
+    // Похожесть треков по лайкам и прослушиваниям всех пользователей
+    startTrackSimilarityJob();
   });
 }
 
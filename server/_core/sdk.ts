@@ -193,13 +193,14 @@ class SDKServer {
       name: payload.name,
     })
       .setProtectedHeader({ alg: "HS256", typ: "JWT" })
+      .setIssuedAt(Math.floor(issuedAt / 1000))
       .setExpirationTime(expirationSeconds)
       .sign(secretKey);
   }
 
   async verifySession(
     cookieValue: string | undefined | null
-  ): Promise<{ openId: string; appId: string; name: string } | null> {
+  ): Promise<{ openId: string; appId: string; name: string; issuedAt: Date | null } | null> {
     if (!cookieValue) {
       console.warn("[Auth] Missing session cookie");
       return null;
@@ -210,7 +211,7 @@ class SDKServer {
       const { payload } = await jwtVerify(cookieValue, secretKey, {
         algorithms: ["HS256"],
       });
-      const { openId, appId, name } = payload as Record<string, unknown>;
+      const { openId, appId, name, iat } = payload as Record<string, unknown>;
 
       if (
         !isNonEmptyString(openId) ||
@@ -225,6 +226,8 @@ class SDKServer {
         openId,
         appId,
         name,
+        // Sessions signed before iat was added carry no issue time
+        issuedAt: typeof iat === "number" ? new Date(iat * 1000) : null,
       };
     } catch (error) {
       console.warn("[Auth] Session verification failed", String(error));
@@ -272,6 +275,12 @@ class SDKServer {
 
     // If user not in DB, sync from OAuth server automatically
     if (!user) {
+      // Deleted account: sessions issued before the deletion must not re-create it
+      const deletedAt = await db.getAccountDeletedAt(sessionUserId);
+      if (deletedAt && (!session.issuedAt || session.issuedAt <= deletedAt)) {
+        throw ForbiddenError("Account deleted");
+      }
+
       try {
         const userInfo = await this.getUserInfoWithJwt(sessionCookie ?? "");
         await db.upsertUser({
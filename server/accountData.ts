@@ -0,0 +1,120 @@
+import { nanoid } from "nanoid";
+import * as db from "./db";
+import { storageErase, storageGet, storagePut } from "./storage";
+import { createZip } from "./zip";
+import type { AccountExport } from "../drizzle/schema";
+
+// Задача, которая столько висит в pending/running, считается потерянной (сервер перезапускался)
+const EXPORT_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+export type AccountExportStatus =
+  | { status: "none" }
+  | { status: "pending" | "running"; createdAt: Date }
+  | { status: "ready"; createdAt: Date; completedAt: Date | null; url: string }
+  | { status: "failed"; createdAt: Date };
+
+function isStale(job: AccountExport) {
+  return (job.status === "pending" || job.status === "running")
+    && Date.now() - job.createdAt.getTime() > EXPORT_JOB_TIMEOUT_MS;
+}
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+async function buildArchive(userId: number): Promise<Buffer> {
+  const dump = await db.getAccountDataDump(userId);
+
+  return createZip([
+    {
+      name: "README.txt",
+      data: "Все данные вашего аккаунта. Каждый файл - JSON, время указано в UTC.\n",
+    },
+    { name: "profile.json", data: json(dump.user ?? null) },
+    { name: "track_preferences.json", data: json(dump.trackPreferences) },
+    { name: "listening_history.json", data: json(dump.listeningHistory) },
+    { name: "player_events.json", data: json(dump.playerEvents) },
+    { name: "playlists.json", data: json(dump.playlists) },
+    { name: "playback_state.json", data: json(dump.playbackState) },
+    { name: "recent_searches.json", data: json(dump.recentSearches) },
+    { name: "home_mixes.json", data: json(dump.homeMixes) },
+    { name: "scheduled_playlists.json", data: json(dump.scheduledPlaylists) },
+  ]);
+}
+
+async function runAccountExport(job: AccountExport) {
+  try {
+    await db.updateAccountExport(job.id, { status: "running" });
+    const archive = await buildArchive(job.userId);
+    // Ключ со случайной частью: ссылку на архив не подобрать по id пользователя
+    const { key } = await storagePut(
+      `account-exports/${job.userId}/${nanoid()}.zip`,
+      archive,
+      "application/zip"
+    );
+    // Пока архив собирался, аккаунт удалили (или задачу сочли потерянной) - архив никому не нужен
+    if ((await db.getLatestAccountExport(job.userId))?.id !== job.id) {
+      await storageErase(key);
+      return;
+    }
+    await db.updateAccountExport(job.id, { status: "ready", storageKey: key, completedAt: new Date() });
+  } catch (error) {
+    console.error("[Account] Export failed", job.userId, error instanceof Error ? error.message : error);
+    await db.updateAccountExport(job.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    }).catch(() => undefined);
+  }
+}
+
+/**
+ * Ставит выгрузку всех данных в работу и сразу возвращается.
+ * Повторный запрос, пока прошлая задача не закончилась, новую не создаёт
+ */
+export async function startAccountExport(userId: number): Promise<AccountExportStatus> {
+  const latest = await db.getLatestAccountExport(userId);
+  if (latest && (latest.status === "pending" || latest.status === "running") && !isStale(latest)) {
+    return { status: latest.status, createdAt: latest.createdAt };
+  }
+
+  const job = await db.createAccountExport(userId);
+  void runAccountExport(job);
+  return { status: "pending", createdAt: job.createdAt };
+}
+
+export async function getAccountExportStatus(userId: number): Promise<AccountExportStatus> {
+  const job = await db.getLatestAccountExport(userId);
+  if (!job) return { status: "none" };
+  if (isStale(job)) return { status: "failed", createdAt: job.createdAt };
+
+  switch (job.status) {
+    case "ready":
+      if (!job.storageKey) return { status: "failed", createdAt: job.createdAt };
+      // Подписанная ссылка живёт недолго, поэтому выдаём свежую при каждом запросе
+      return {
+        status: "ready",
+        createdAt: job.createdAt,
+        completedAt: job.completedAt,
+        url: (await storageGet(job.storageKey)).url,
+      };
+    case "failed":
+      return { status: "failed", createdAt: job.createdAt };
+    default:
+      return { status: job.status, createdAt: job.createdAt };
+  }
+}
+
+/**
+ * Удаляет аккаунт вместе с архивами выгрузки в хранилище.
+ * Ключи берём до удаления строк; архив, который не удалось стереть, только логируем -
+ * аккаунт всё равно удаляется
+ */
+export async function deleteAccount(userId: number): Promise<void> {
+  const storageKeys = await db.getAccountExportStorageKeys(userId);
+  await db.deleteUserAccount(userId);
+
+  for (const key of storageKeys) {
+    await storageErase(key).catch((error) => {
+      console.error("[Account] Failed to erase export", key, error instanceof Error ? error.message : error);
+    });
+  }
+}
@@ -1,5 +1,6 @@
-import { eq, and, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, or, asc, desc, ne, gte, lt, lte, sql, inArray, notInArray, count, max, type SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
+import type { AnyMySqlColumn } from "drizzle-orm/mysql-core";
 import mysql from "mysql2";
 import { 
   InsertUser, users, 
@@ -8,9 +9,20 @@ import {
   listeningHistory, ListeningHistory, InsertListeningHistory,
   playerEvents, InsertPlayerEvent,
   playlists, Playlist, InsertPlaylist,
-  playlistTracks, PlaylistTrack, InsertPlaylistTrack
+  playlistTracks, PlaylistTrack, InsertPlaylistTrack,
+  playlistMembers, PlaylistMember,
+  playbackState, PlaybackState, InsertPlaybackState,
+  localLibraryFiles, LocalLibraryFile, InsertLocalLibraryFile,
+  recentSearches, RecentSearch,
+  accountExports, AccountExport, InsertAccountExport,
+  deletedAccounts,
+  homeMixes, HomeMix, InsertHomeMix,
+  scheduledPlaylists, ScheduledPlaylist, InsertScheduledPlaylist,
+  trackSimilarities, InsertTrackSimilarity
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { TrackSearchFilters, TrackSearchSort } from "./providers/types";
+import { mergePlaylistOrder } from "./playlistOrder";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -105,20 +117,35 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getUserByEmail(email: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  return result[0];
+}
+
+export async function getUserById(userId: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  return result[0];
+}
+
 // ============ Track Functions ============
 
 export async function upsertTrack(track: InsertTrack): Promise<Track> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const existing = await db
-    .select()
-    .from(tracks)
-    .where(eq(tracks.soundcloudId, track.soundcloudId))
-    .limit(1);
+  const existing = await getTrackByRef({
+    provider: track.provider ?? "soundcloud",
+    externalId: track.soundcloudId,
+  });
 
-  if (existing.length > 0) {
-    return existing[0]!;
+  if (existing) {
+    return existing;
   }
 
   const result = await db.insert(tracks).values(track);
@@ -133,19 +160,26 @@ export async function upsertTrack(track: InsertTrack): Promise<Track> {
   return inserted[0]!;
 }
 
-export async function getTrackBySoundcloudId(soundcloudId: string): Promise<Track | undefined> {
+export async function getTrackByRef(ref: { provider: string; externalId: string }): Promise<Track | undefined> {
   const db = await getDb();
   if (!db) return undefined;
 
   const result = await db
     .select()
     .from(tracks)
-    .where(eq(tracks.soundcloudId, soundcloudId))
+    .where(and(eq(tracks.provider, ref.provider), eq(tracks.soundcloudId, ref.externalId)))
     .limit(1);
 
   return result[0];
 }
 
+export async function updateTrack(trackId: number, updates: Partial<InsertTrack>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(tracks).set(updates).where(eq(tracks.id, trackId));
+}
+
 export async function getTrackById(trackId: number): Promise<Track | undefined> {
   const db = await getDb();
   if (!db) return undefined;
@@ -202,7 +236,7 @@ export async function getUserTrackPreference(
   return result[0];
 }
 
-export async function getUserLikedTracks(userId: number, limit: number = 50): Promise<Track[]> {
+export async function getUserLikedTracks(userId: number, limit: number = 50, offset: number = 0): Promise<Track[]> {
   const db = await getDb();
   if (!db) return [];
 
@@ -211,8 +245,10 @@ export async function getUserLikedTracks(userId: number, limit: number = 50): Pr
     .from(trackPreferences)
     .innerJoin(tracks, eq(trackPreferences.trackId, tracks.id))
     .where(and(eq(trackPreferences.userId, userId), eq(trackPreferences.preference, "like")))
-    .orderBy(desc(trackPreferences.createdAt))
-    .limit(limit);
+    // id - для стабильного порядка при постраничном чтении (экспорт)
+    .orderBy(desc(trackPreferences.createdAt), desc(trackPreferences.id))
+    .limit(limit)
+    .offset(offset);
 
   return result.map((r) => r.track);
 }
@@ -249,22 +285,22 @@ export async function getUserTrackPreferencesDetailed(
   }));
 }
 
-export async function getUserDislikedSoundcloudIds(
+export async function getUserDislikedTrackRefs(
   userId: number,
   limit: number = 500
-): Promise<string[]> {
+): Promise<{ provider: string; externalId: string }[]> {
   const db = await getDb();
   if (!db) return [];
 
   const result = await db
-    .select({ soundcloudId: tracks.soundcloudId })
+    .select({ provider: tracks.provider, externalId: tracks.soundcloudId })
     .from(trackPreferences)
     .innerJoin(tracks, eq(trackPreferences.trackId, tracks.id))
     .where(and(eq(trackPreferences.userId, userId), eq(trackPreferences.preference, "dislike")))
     .orderBy(desc(trackPreferences.createdAt))
     .limit(limit);
 
-  return result.map(r => r.soundcloudId);
+  return result;
 }
 
 // ============ Listening History Functions ============
@@ -292,7 +328,8 @@ export async function addPlayerEvent(event: InsertPlayerEvent): Promise<void> {
 
 export async function getUserListeningHistory(
   userId: number,
-  limit: number = 50
+  limit: number = 50,
+  offset: number = 0
 ): Promise<(ListeningHistory & { track: Track })[]> {
   const db = await getDb();
   if (!db) return [];
@@ -305,12 +342,70 @@ export async function getUserListeningHistory(
     .from(listeningHistory)
     .innerJoin(tracks, eq(listeningHistory.trackId, tracks.id))
     .where(eq(listeningHistory.userId, userId))
-    .orderBy(desc(listeningHistory.playedAt))
-    .limit(limit);
+    .orderBy(desc(listeningHistory.playedAt), desc(listeningHistory.id))
+    .limit(limit)
+    .offset(offset);
 
   return result.map((r) => ({ ...r.history, track: r.track }));
 }
 
+// Треки, с которыми пользователь имел дело (лайкнул или слушал), со статистикой -
+// по ним отбираются умные плейлисты. Дизлайкнутые не попадают
+export type LibraryTrackStats = {
+  track: Track;
+  likedAt: Date | null;
+  playCount: number;
+  maxPlayedMs: number;
+  lastPlayedAt: Date | null;
+};
+
+export async function getUserLibraryTrackStats(userId: number): Promise<LibraryTrackStats[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const plays = await db
+    .select({
+      trackId: listeningHistory.trackId,
+      playCount: count(),
+      maxPlayedMs: max(listeningHistory.playDuration),
+      lastPlayedAt: max(listeningHistory.playedAt),
+    })
+    .from(listeningHistory)
+    .where(eq(listeningHistory.userId, userId))
+    .groupBy(listeningHistory.trackId);
+
+  const preferences = await db
+    .select({
+      trackId: trackPreferences.trackId,
+      preference: trackPreferences.preference,
+      createdAt: trackPreferences.createdAt,
+    })
+    .from(trackPreferences)
+    .where(eq(trackPreferences.userId, userId));
+
+  const disliked = new Set(preferences.filter((p) => p.preference === "dislike").map((p) => p.trackId));
+  const likedAt = new Map(
+    preferences.filter((p) => p.preference === "like").map((p) => [p.trackId, p.createdAt])
+  );
+  const playsByTrack = new Map(plays.map((p) => [p.trackId, p]));
+
+  const trackIds = Array.from(new Set([...Array.from(likedAt.keys()), ...Array.from(playsByTrack.keys())]))
+    .filter((id) => !disliked.has(id));
+  if (trackIds.length === 0) return [];
+
+  const rows = await db.select().from(tracks).where(inArray(tracks.id, trackIds));
+  return rows.map((track) => {
+    const stats = playsByTrack.get(track.id);
+    return {
+      track,
+      likedAt: likedAt.get(track.id) ?? null,
+      playCount: stats?.playCount ?? 0,
+      maxPlayedMs: stats?.maxPlayedMs ?? 0,
+      lastPlayedAt: stats?.lastPlayedAt ?? null,
+    };
+  });
+}
+
 // ============ Playlist Functions ============
 
 export async function createPlaylist(playlist: InsertPlaylist): Promise<Playlist> {
@@ -320,6 +415,12 @@ export async function createPlaylist(playlist: InsertPlaylist): Promise<Playlist
   const result = await db.insert(playlists).values(playlist);
   const insertedId = Number(result[0].insertId);
 
+  await db.insert(playlistMembers).values({
+    playlistId: insertedId,
+    userId: playlist.userId,
+    role: "owner",
+  });
+
   const inserted = await db
     .select()
     .from(playlists)
@@ -329,15 +430,27 @@ export async function createPlaylist(playlist: InsertPlaylist): Promise<Playlist
   return inserted[0]!;
 }
 
-export async function getUserPlaylists(userId: number): Promise<Playlist[]> {
+// Свои плейлисты и те, куда пользователя пригласили, с его ролью
+export async function getUserPlaylists(
+  userId: number
+): Promise<Array<Playlist & { role: PlaylistMember["role"] }>> {
   const db = await getDb();
   if (!db) return [];
 
-  return await db
-    .select()
+  const result = await db
+    .select({ playlist: playlists, role: playlistMembers.role })
     .from(playlists)
-    .where(eq(playlists.userId, userId))
+    .leftJoin(
+      playlistMembers,
+      and(eq(playlistMembers.playlistId, playlists.id), eq(playlistMembers.userId, userId))
+    )
+    .where(or(eq(playlists.userId, userId), eq(playlistMembers.userId, userId)))
     .orderBy(desc(playlists.createdAt));
+
+  return result.map((r) => ({
+    ...r.playlist,
+    role: r.playlist.userId === userId ? "owner" : r.role ?? "viewer",
+  }));
 }
 
 export async function getPlaylistById(playlistId: number): Promise<Playlist | undefined> {
@@ -353,9 +466,22 @@ export async function getPlaylistById(playlistId: number): Promise<Playlist | un
   return result[0];
 }
 
+export async function getPlaylistByShareSlug(shareSlug: string): Promise<Playlist | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(playlists)
+    .where(eq(playlists.shareSlug, shareSlug))
+    .limit(1);
+
+  return result[0];
+}
+
 export async function updatePlaylist(
   playlistId: number,
-  updates: Partial<Pick<Playlist, "name" | "description" | "isPublic">>
+  updates: Partial<Pick<Playlist, "name" | "description" | "isPublic" | "shareSlug" | "smartRules">>
 ): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -370,17 +496,79 @@ export async function deletePlaylist(playlistId: number): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Delete playlist tracks first
+  // Delete playlist tracks and members first
   await db.delete(playlistTracks).where(eq(playlistTracks.playlistId, playlistId));
+  await db.delete(playlistMembers).where(eq(playlistMembers.playlistId, playlistId));
   // Then delete the playlist
   await db.delete(playlists).where(eq(playlists.id, playlistId));
 }
 
+// ============ Playlist Member Functions ============
+
+export async function getPlaylistMemberRole(
+  playlistId: number,
+  userId: number
+): Promise<PlaylistMember["role"] | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select({ role: playlistMembers.role })
+    .from(playlistMembers)
+    .where(and(eq(playlistMembers.playlistId, playlistId), eq(playlistMembers.userId, userId)))
+    .limit(1);
+
+  return result[0]?.role;
+}
+
+export async function getPlaylistMembers(playlistId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      userId: playlistMembers.userId,
+      role: playlistMembers.role,
+      name: users.name,
+      email: users.email,
+      createdAt: playlistMembers.createdAt,
+    })
+    .from(playlistMembers)
+    .innerJoin(users, eq(playlistMembers.userId, users.id))
+    .where(eq(playlistMembers.playlistId, playlistId))
+    .orderBy(asc(playlistMembers.createdAt));
+}
+
+export async function upsertPlaylistMember(
+  playlistId: number,
+  userId: number,
+  role: PlaylistMember["role"],
+  invitedBy: number
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(playlistMembers)
+    .values({ playlistId, userId, role, invitedBy })
+    .onDuplicateKeyUpdate({ set: { role } });
+}
+
+export async function removePlaylistMember(playlistId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(playlistMembers)
+    .where(and(eq(playlistMembers.playlistId, playlistId), eq(playlistMembers.userId, userId)));
+}
+
 // ============ Playlist Track Functions ============
 
 export async function addTrackToPlaylist(
   playlistId: number,
-  trackId: number
+  trackId: number,
+  addedBy: number | null = null
 ): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -397,53 +585,914 @@ export async function addTrackToPlaylist(
     playlistId,
     trackId,
     position: nextPosition,
+    addedBy,
   });
 }
 
-export async function removeTrackFromPlaylist(
+// Добавляет несколько треков в конец плейлиста одной вставкой
+export async function addTracksToPlaylist(
   playlistId: number,
-  trackId: number
+  trackIds: number[],
+  addedBy: number | null = null
 ): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
+  if (trackIds.length === 0) return;
 
-  await db
+  const maxPosition = await db
+    .select({ max: sql<number>`MAX(${playlistTracks.position})` })
+    .from(playlistTracks)
+    .where(eq(playlistTracks.playlistId, playlistId));
+
+  const firstPosition = (maxPosition[0]?.max ?? -1) + 1;
+
+  await db.insert(playlistTracks).values(
+    trackIds.map((trackId, index) => ({
+      playlistId,
+      trackId,
+      position: firstPosition + index,
+      addedBy,
+    }))
+  );
+}
+
+// Какие из переданных треков уже есть в плейлисте
+export async function getPlaylistTrackIdsIn(
+  playlistId: number,
+  trackIds: number[]
+): Promise<Set<number>> {
+  const db = await getDb();
+  if (!db || trackIds.length === 0) return new Set();
+
+  const result = await db
+    .selectDistinct({ trackId: playlistTracks.trackId })
+    .from(playlistTracks)
+    .where(and(eq(playlistTracks.playlistId, playlistId), inArray(playlistTracks.trackId, trackIds)));
+
+  return new Set(result.map((r) => r.trackId));
+}
+
+/**
+ * Удаляет одну строку плейлиста: трек может стоять в нём несколько раз,
+ * остальные копии остаются. false - строки уже нет (плейлист успел измениться)
+ */
+export async function removePlaylistEntry(playlistId: number, entryId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [result] = await db
     .delete(playlistTracks)
-    .where(and(eq(playlistTracks.playlistId, playlistId), eq(playlistTracks.trackId, trackId)));
+    .where(and(eq(playlistTracks.playlistId, playlistId), eq(playlistTracks.id, entryId)));
+  return result.affectedRows > 0;
 }
 
-export async function getPlaylistTracks(playlistId: number): Promise<Track[]> {
+// entryId - id строки playlist_tracks; entryId/addedAt/addedBy пустые у треков умного плейлиста -
+// их подбирают правила
+export type PlaylistTrackEntry = Track & {
+  entryId: number | null;
+  addedAt: Date | null;
+  addedBy: number | null;
+  addedByName: string | null;
+};
+
+export async function getPlaylistTracks(playlistId: number): Promise<PlaylistTrackEntry[]> {
   const db = await getDb();
   if (!db) return [];
 
   const result = await db
-    .select({ track: tracks })
+    .select({
+      track: tracks,
+      entryId: playlistTracks.id,
+      addedAt: playlistTracks.addedAt,
+      addedBy: playlistTracks.addedBy,
+      addedByName: users.name,
+    })
     .from(playlistTracks)
     .innerJoin(tracks, eq(playlistTracks.trackId, tracks.id))
+    .leftJoin(users, eq(playlistTracks.addedBy, users.id))
     .where(eq(playlistTracks.playlistId, playlistId))
     .orderBy(playlistTracks.position);
 
-  return result.map((r) => r.track);
+  return result.map((r) => ({
+    ...r.track,
+    entryId: r.entryId,
+    addedAt: r.addedAt,
+    addedBy: r.addedBy,
+    addedByName: r.addedByName,
+  }));
 }
 
 export async function reorderPlaylistTracks(
   playlistId: number,
   trackIds: number[]
+): Promise<number[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    // Блокируем строки плейлиста, чтобы параллельные добавления/удаления не потерялись
+    const current = await tx
+      .select({ trackId: playlistTracks.trackId, addedBy: playlistTracks.addedBy, addedAt: playlistTracks.addedAt })
+      .from(playlistTracks)
+      .where(eq(playlistTracks.playlistId, playlistId))
+      .orderBy(playlistTracks.position)
+      .for("update");
+
+    const order = mergePlaylistOrder(current.map((r) => r.trackId), trackIds);
+
+    // Строки пересоздаются - переносим, кто и когда добавил трек (повторы - по очереди)
+    const rowsByTrack = new Map<number, typeof current>();
+    for (const row of current) {
+      rowsByTrack.set(row.trackId, [...(rowsByTrack.get(row.trackId) ?? []), row]);
+    }
+
+    // Delete existing tracks
+    await tx.delete(playlistTracks).where(eq(playlistTracks.playlistId, playlistId));
+
+    // Insert in new order
+    const values = order.map((trackId, index) => {
+      const row = rowsByTrack.get(trackId)!.shift()!;
+      return {
+        playlistId,
+        trackId,
+        position: index,
+        addedBy: row.addedBy,
+        addedAt: row.addedAt,
+      };
+    });
+
+    if (values.length > 0) {
+      await tx.insert(playlistTracks).values(values);
+    }
+
+    return order;
+  });
+}
+
+// ============ Playback State Functions ============
+
+export async function getPlaybackState(userId: number): Promise<PlaybackState | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(playbackState)
+    .where(eq(playbackState.userId, userId))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function upsertPlaybackState(state: InsertPlaybackState): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { userId, ...updates } = state;
+  await db
+    .insert(playbackState)
+    .values(state)
+    .onDuplicateKeyUpdate({
+      set: { ...updates, updatedAt: new Date() },
+    });
+}
+
+export async function deletePlaybackState(userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(playbackState).where(eq(playbackState.userId, userId));
+}
+
+// ============ Search History Functions ============
+
+// Сколько последних запросов храним на пользователя
+const RECENT_SEARCHES_LIMIT = 20;
+
+export async function getRecentSearches(userId: number, limit: number = 10): Promise<RecentSearch[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(recentSearches)
+    .where(eq(recentSearches.userId, userId))
+    .orderBy(desc(recentSearches.searchedAt), desc(recentSearches.id))
+    .limit(limit);
+}
+
+export async function addRecentSearch(userId: number, query: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Повторный запрос поднимаем наверх, а не дублируем
+  await db
+    .insert(recentSearches)
+    .values({ userId, query })
+    .onDuplicateKeyUpdate({ set: { searchedAt: new Date() } });
+
+  const stale = await db
+    .select({ id: recentSearches.id })
+    .from(recentSearches)
+    .where(eq(recentSearches.userId, userId))
+    .orderBy(desc(recentSearches.searchedAt), desc(recentSearches.id))
+    .limit(1000)
+    .offset(RECENT_SEARCHES_LIMIT);
+  if (stale.length > 0) {
+    await db.delete(recentSearches).where(inArray(recentSearches.id, stale.map(r => r.id)));
+  }
+}
+
+export async function deleteRecentSearch(userId: number, id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(recentSearches).where(and(eq(recentSearches.id, id), eq(recentSearches.userId, userId)));
+}
+
+export async function clearRecentSearches(userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(recentSearches).where(eq(recentSearches.userId, userId));
+}
+
+// Ввод пользователя в LIKE: %, _ и \ из текста должны совпадать буквально
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+function likeEscaped(column: AnyMySqlColumn, pattern: string): SQL {
+  // В SQL уходит escape '\\' - строковый литерал из одного обратного слэша
+  return sql`${column} like ${pattern} escape '\\\\'`;
+}
+
+/**
+ * Подсказки из собственной музыки пользователя: прослушанные и лайкнутые треки,
+ * у которых название или исполнитель начинается с введённого текста
+ */
+export async function getUserTrackSuggestions(
+  userId: number,
+  prefix: string,
+  limit: number = 8
+): Promise<{ title: string; artist: string }[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const q = escapeLikePattern(prefix.trim());
+  if (!q) return [];
+
+  const heard = db
+    .select({ trackId: listeningHistory.trackId })
+    .from(listeningHistory)
+    .where(eq(listeningHistory.userId, userId));
+  const liked = db
+    .select({ trackId: trackPreferences.trackId })
+    .from(trackPreferences)
+    .where(and(eq(trackPreferences.userId, userId), eq(trackPreferences.preference, "like")));
+
+  return await db
+    .selectDistinct({ title: tracks.title, artist: tracks.artist })
+    .from(tracks)
+    .where(and(
+      or(inArray(tracks.id, heard), inArray(tracks.id, liked)),
+      or(
+        likeEscaped(tracks.title, `${q}%`),
+        likeEscaped(tracks.title, `% ${q}%`),
+        likeEscaped(tracks.artist, `${q}%`)
+      )
+    ))
+    .limit(limit);
+}
+
+// ============ Local Library Functions ============
+
+export type LocalLibraryEntry = { file: LocalLibraryFile; track: Track };
+
+export async function getLocalLibraryFiles(): Promise<LocalLibraryFile[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(localLibraryFiles);
+}
+
+export async function getLocalLibraryFileById(fileId: number): Promise<LocalLibraryFile | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(localLibraryFiles)
+    .where(eq(localLibraryFiles.id, fileId))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function insertLocalLibraryFile(file: InsertLocalLibraryFile): Promise<LocalLibraryFile> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(localLibraryFiles).values(file);
+  const insertedId = Number(result[0].insertId);
+
+  const inserted = await db
+    .select()
+    .from(localLibraryFiles)
+    .where(eq(localLibraryFiles.id, insertedId))
+    .limit(1);
+
+  return inserted[0]!;
+}
+
+export async function updateLocalLibraryFile(
+  fileId: number,
+  updates: Partial<InsertLocalLibraryFile>
 ): Promise<void> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  // Delete existing tracks
-  await db.delete(playlistTracks).where(eq(playlistTracks.playlistId, playlistId));
+  await db.update(localLibraryFiles).set(updates).where(eq(localLibraryFiles.id, fileId));
+}
 
-  // Insert in new order
-  const values = trackIds.map((trackId, index) => ({
-    playlistId,
-    trackId,
-    position: index,
-  }));
+// Треки удалённых файлов остаются в tracks, чтобы не терять лайки и плейлисты
+export async function deleteLocalLibraryFiles(fileIds: number[]): Promise<void> {
+  if (fileIds.length === 0) return;
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(localLibraryFiles).where(inArray(localLibraryFiles.id, fileIds));
+}
+
+function localLibraryQuery(db: NonNullable<Awaited<ReturnType<typeof getDb>>>) {
+  return db
+    .select({ file: localLibraryFiles, track: tracks })
+    .from(localLibraryFiles)
+    .innerJoin(tracks, eq(localLibraryFiles.trackId, tracks.id));
+}
+
+export async function getLocalLibraryEntry(fileId: number): Promise<LocalLibraryEntry | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
 
-  if (values.length > 0) {
-    await db.insert(playlistTracks).values(values);
+  const result = await localLibraryQuery(db)
+    .where(eq(localLibraryFiles.id, fileId))
+    .limit(1);
+
+  return result[0];
+}
+
+// Подстрока в названии, исполнителе или альбоме; % и _ из запроса ищутся буквально
+export function localLibrarySearchCondition(query: string): SQL {
+  const pattern = `%${escapeLikePattern(query)}%`;
+  return or(
+    likeEscaped(tracks.title, pattern),
+    likeEscaped(tracks.artist, pattern),
+    likeEscaped(localLibraryFiles.album, pattern)
+  )!;
+}
+
+export async function searchLocalLibrary(query: string, limit: number = 20): Promise<LocalLibraryEntry[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const q = query.trim();
+  if (!q) {
+    // Пустой запрос - последние добавленные
+    return await localLibraryQuery(db)
+      .orderBy(desc(localLibraryFiles.createdAt))
+      .limit(limit);
+  }
+
+  return await localLibraryQuery(db)
+    .where(localLibrarySearchCondition(q))
+    .orderBy(tracks.artist, tracks.title)
+    .limit(limit);
+}
+
+/**
+ * Постраничный поиск по медиатеке с фильтрами. Лицензий у локальных файлов нет - фильтр игнорируется,
+ * «популярность» тоже неизвестна - такая сортировка совпадает с обычной
+ */
+export async function searchLocalLibraryPage(
+  query: string,
+  options: { limit: number; offset: number; filters?: TrackSearchFilters; sort?: TrackSearchSort }
+): Promise<LocalLibraryEntry[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const { filters = {} } = options;
+  const conditions: SQL[] = [];
+  const q = query.trim();
+  if (q) {
+    conditions.push(localLibrarySearchCondition(q));
   }
-}
\ No newline at end of file
+  if (filters.genre) conditions.push(eq(tracks.genre, filters.genre));
+  if (filters.minDuration !== undefined) conditions.push(gte(tracks.duration, filters.minDuration));
+  if (filters.maxDuration !== undefined) conditions.push(lte(tracks.duration, filters.maxDuration));
+  if (filters.createdFrom) conditions.push(gte(localLibraryFiles.createdAt, filters.createdFrom));
+  if (filters.createdTo) conditions.push(lte(localLibraryFiles.createdAt, filters.createdTo));
+
+  const orderBy = {
+    newest: [desc(localLibraryFiles.createdAt)],
+    oldest: [asc(localLibraryFiles.createdAt)],
+    longest: [desc(tracks.duration)],
+    shortest: [asc(tracks.duration)],
+  }[options.sort as string] ?? [tracks.artist, tracks.title];
+
+  return await localLibraryQuery(db)
+    .where(and(...conditions))
+    .orderBy(...orderBy, localLibraryFiles.id)
+    .limit(options.limit)
+    .offset(options.offset);
+}
+
+export async function getLocalLibraryRelated(
+  fileId: number,
+  artist: string,
+  genre: string | null,
+  limit: number = 20
+): Promise<LocalLibraryEntry[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const sameArtist = eq(tracks.artist, artist);
+  return await localLibraryQuery(db)
+    .where(and(
+      ne(localLibraryFiles.id, fileId),
+      genre ? or(sameArtist, eq(tracks.genre, genre)) : sameArtist
+    ))
+    // Сначала тот же исполнитель, потом тот же жанр
+    .orderBy(desc(sameArtist), sql`RAND()`)
+    .limit(limit);
+}
+
+export async function countLocalLibraryFiles(): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db.select({ count: sql<number>`count(*)` }).from(localLibraryFiles);
+  return Number(result[0]?.count ?? 0);
+}
+
+// ============ Home Mix Functions ============
+
+// Последнее поколение миксов главной страницы, в порядке показа
+export async function getLatestHomeMixes(userId: number): Promise<HomeMix[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const [latest] = await db
+    .select({ generation: max(homeMixes.generation) })
+    .from(homeMixes)
+    .where(eq(homeMixes.userId, userId));
+  if (latest?.generation == null) return [];
+
+  return await db
+    .select()
+    .from(homeMixes)
+    .where(and(eq(homeMixes.userId, userId), eq(homeMixes.generation, latest.generation)))
+    .orderBy(asc(homeMixes.position));
+}
+
+/**
+ * Сохраняет миксы одного запуска генератора как новое поколение
+ * или вместо поколения replaceGeneration.
+ * Возвращает сохранённые строки (с id - по нему микс можно сохранить в плейлист)
+ */
+export async function insertHomeMixGeneration(
+  userId: number,
+  mixes: Pick<InsertHomeMix, "mixKey" | "title" | "description" | "tracks">[],
+  replaceGeneration?: number
+): Promise<HomeMix[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    let generation: number;
+    if (replaceGeneration !== undefined) {
+      generation = replaceGeneration;
+      await tx
+        .delete(homeMixes)
+        .where(and(eq(homeMixes.userId, userId), eq(homeMixes.generation, generation)));
+    } else {
+      const [latest] = await tx
+        .select({ generation: max(homeMixes.generation) })
+        .from(homeMixes)
+        .where(eq(homeMixes.userId, userId));
+      generation = (latest?.generation ?? 0) + 1;
+    }
+
+    if (mixes.length > 0) {
+      const generatedAt = new Date();
+      await tx.insert(homeMixes).values(
+        mixes.map((mix, position) => ({ ...mix, userId, generation, position, generatedAt }))
+      );
+    }
+
+    return await tx
+      .select()
+      .from(homeMixes)
+      .where(and(eq(homeMixes.userId, userId), eq(homeMixes.generation, generation)))
+      .orderBy(asc(homeMixes.position));
+  });
+}
+
+// Миксы, сгенерированные начиная с since, новые поколения первыми
+export async function getHomeMixesSince(userId: number, since: Date): Promise<HomeMix[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(homeMixes)
+    .where(and(eq(homeMixes.userId, userId), gte(homeMixes.generatedAt, since)))
+    .orderBy(desc(homeMixes.generation), asc(homeMixes.position));
+}
+
+export async function getHomeMixById(mixId: number): Promise<HomeMix | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(homeMixes).where(eq(homeMixes.id, mixId)).limit(1);
+  return result[0];
+}
+
+// Удаляет поколения старше olderThan или с номером не больше upToGeneration
+export async function pruneHomeMixes(userId: number, olderThan: Date, upToGeneration: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(homeMixes)
+    .where(and(
+      eq(homeMixes.userId, userId),
+      or(lt(homeMixes.generatedAt, olderThan), lte(homeMixes.generation, upToGeneration))
+    ));
+}
+
+// ============ Scheduled Playlist Functions ============
+
+// Пользователи, заходившие с since - для них фоновые плейлисты собираются заранее
+export async function getActiveUserIds(since: Date): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const result = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(gte(users.lastSignedIn, since))
+    .orderBy(asc(users.id));
+
+  return result.map((row) => row.id);
+}
+
+export async function getScheduledPlaylists(
+  userId: number,
+  kind: ScheduledPlaylist["kind"],
+  period: string
+): Promise<ScheduledPlaylist[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(scheduledPlaylists)
+    .where(and(
+      eq(scheduledPlaylists.userId, userId),
+      eq(scheduledPlaylists.kind, kind),
+      eq(scheduledPlaylists.period, period)
+    ))
+    .orderBy(asc(scheduledPlaylists.position));
+}
+
+/**
+ * Сохраняет плейлисты пользователя этого вида на новый период, заменяя прошлые целиком
+ * (прошлые дни/недели не храним). Сборки одного пользователя из планировщика, с главной
+ * и с других инстансов идут по очереди под блокировкой строки users; если период уже
+ * сохранил кто-то другой, его результат остаётся. false - ничего не записано
+ */
+export async function saveScheduledPlaylists(
+  userId: number,
+  kind: ScheduledPlaylist["kind"],
+  period: string,
+  items: Pick<InsertScheduledPlaylist, "title" | "description" | "tracks">[]
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+    const [existing] = await tx
+      .select({ id: scheduledPlaylists.id })
+      .from(scheduledPlaylists)
+      .where(and(
+        eq(scheduledPlaylists.userId, userId),
+        eq(scheduledPlaylists.kind, kind),
+        eq(scheduledPlaylists.period, period)
+      ))
+      .limit(1);
+    if (existing) return false;
+
+    await tx
+      .delete(scheduledPlaylists)
+      .where(and(eq(scheduledPlaylists.userId, userId), eq(scheduledPlaylists.kind, kind)));
+
+    if (items.length > 0) {
+      await tx.insert(scheduledPlaylists).values(
+        items.map((item, position) => ({ ...item, userId, kind, period, position }))
+      );
+    }
+    return true;
+  });
+}
+
+// ============ Track Similarity Functions ============
+
+export type TrackInteraction = { userId: number; trackId: number; at: Date };
+
+/**
+ * Положительные сигналы всех пользователей для коллаборативной фильтрации:
+ * лайки и прослушивания с since, которые не были пропуском (от minPlayMs).
+ * У каждого пользователя берём не больше perUserLimit последних лайков и прослушиваний -
+ * старше всё равно не участвуют в подсчёте, а вся история целиком в память не влезет
+ */
+export async function getPositiveInteractions(
+  since: Date,
+  minPlayMs: number,
+  perUserLimit: number
+): Promise<TrackInteraction[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const likeCondition = eq(trackPreferences.preference, "like");
+  const playCondition = and(gte(listeningHistory.playedAt, since), gte(listeningHistory.playDuration, minPlayMs));
+
+  const [likers, listeners] = await Promise.all([
+    db.selectDistinct({ userId: trackPreferences.userId }).from(trackPreferences).where(likeCondition),
+    db.selectDistinct({ userId: listeningHistory.userId }).from(listeningHistory).where(playCondition),
+  ]);
+  const userIds = Array.from(new Set([...likers, ...listeners].map((row) => row.userId)));
+
+  const interactions: TrackInteraction[] = [];
+  // По одному пользователю: в памяти одновременно только его ограниченная выборка
+  for (const userId of userIds) {
+    const likes = await db
+      .select({
+        userId: trackPreferences.userId,
+        trackId: trackPreferences.trackId,
+        at: trackPreferences.createdAt,
+      })
+      .from(trackPreferences)
+      .where(and(eq(trackPreferences.userId, userId), likeCondition))
+      .orderBy(desc(trackPreferences.createdAt))
+      .limit(perUserLimit);
+
+    const lastPlayedAt = max(listeningHistory.playedAt);
+    const plays = await db
+      .select({
+        userId: listeningHistory.userId,
+        trackId: listeningHistory.trackId,
+        at: lastPlayedAt,
+      })
+      .from(listeningHistory)
+      .where(and(eq(listeningHistory.userId, userId), playCondition))
+      .groupBy(listeningHistory.userId, listeningHistory.trackId)
+      .orderBy(desc(lastPlayedAt))
+      .limit(perUserLimit);
+
+    interactions.push(...likes, ...plays.filter((p): p is TrackInteraction => p.at !== null));
+  }
+
+  return interactions;
+}
+
+// Перестраивает таблицу похожести целиком - старые пары не должны пережить пересчёт
+export async function replaceTrackSimilarities(
+  rows: Pick<InsertTrackSimilarity, "trackId" | "similarTrackId" | "score" | "coUsers">[]
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const computedAt = new Date();
+  await db.transaction(async (tx) => {
+    await tx.delete(trackSimilarities);
+    for (let i = 0; i < rows.length; i += 1000) {
+      await tx.insert(trackSimilarities).values(
+        rows.slice(i, i + 1000).map((row) => ({ ...row, computedAt }))
+      );
+    }
+  });
+}
+
+// Треки, похожие на любой из trackIds (сумма похожести), кроме самих trackIds
+export async function getSimilarTracks(
+  trackIds: number[],
+  limit: number = 50
+): Promise<{ track: Track; score: number }[]> {
+  const db = await getDb();
+  if (!db) return [];
+  if (trackIds.length === 0) return [];
+
+  const score = sql<number>`sum(${trackSimilarities.score})`;
+  const result = await db
+    .select({ track: tracks, score })
+    .from(trackSimilarities)
+    .innerJoin(tracks, eq(trackSimilarities.similarTrackId, tracks.id))
+    .where(and(
+      inArray(trackSimilarities.trackId, trackIds),
+      notInArray(trackSimilarities.similarTrackId, trackIds)
+    ))
+    .groupBy(tracks.id)
+    .orderBy(desc(score))
+    .limit(limit);
+
+  return result.map((row) => ({ track: row.track, score: Number(row.score) }));
+}
+
+// ============ Account Functions ============
+
+export async function createAccountExport(userId: number): Promise<AccountExport> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(accountExports).values({ userId });
+  const inserted = await db
+    .select()
+    .from(accountExports)
+    .where(eq(accountExports.id, Number(result[0].insertId)))
+    .limit(1);
+
+  return inserted[0]!;
+}
+
+// Ключи всех архивов пользователя в хранилище - их нужно стереть вместе с аккаунтом
+export async function getAccountExportStorageKeys(userId: number): Promise<string[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ storageKey: accountExports.storageKey })
+    .from(accountExports)
+    .where(eq(accountExports.userId, userId));
+
+  return rows.map(row => row.storageKey).filter((key): key is string => !!key);
+}
+
+export async function getLatestAccountExport(userId: number): Promise<AccountExport | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select()
+    .from(accountExports)
+    .where(eq(accountExports.userId, userId))
+    .orderBy(desc(accountExports.createdAt), desc(accountExports.id))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function updateAccountExport(
+  exportId: number,
+  updates: Partial<Pick<InsertAccountExport, "status" | "storageKey" | "error" | "completedAt">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(accountExports).set(updates).where(eq(accountExports.id, exportId));
+}
+
+/**
+ * Всё, что хранится о пользователе, для выгрузки «скачать мои данные».
+ * Плейлисты - свои и совместные, с треками
+ */
+export async function getAccountDataDump(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+  const preferences = await db
+    .select({
+      preference: trackPreferences.preference,
+      createdAt: trackPreferences.createdAt,
+      updatedAt: trackPreferences.updatedAt,
+      track: tracks,
+    })
+    .from(trackPreferences)
+    .innerJoin(tracks, eq(trackPreferences.trackId, tracks.id))
+    .where(eq(trackPreferences.userId, userId))
+    .orderBy(desc(trackPreferences.createdAt));
+
+  const history = await db
+    .select({
+      playedAt: listeningHistory.playedAt,
+      playDuration: listeningHistory.playDuration,
+      track: tracks,
+    })
+    .from(listeningHistory)
+    .innerJoin(tracks, eq(listeningHistory.trackId, tracks.id))
+    .where(eq(listeningHistory.userId, userId))
+    .orderBy(desc(listeningHistory.playedAt));
+
+  const events = await db
+    .select()
+    .from(playerEvents)
+    .where(eq(playerEvents.userId, userId))
+    .orderBy(desc(playerEvents.createdAt));
+
+  const userPlaylists = [];
+  for (const playlist of await getUserPlaylists(userId)) {
+    userPlaylists.push({ ...playlist, tracks: await getPlaylistTracks(playlist.id) });
+  }
+
+  const searches = await db
+    .select()
+    .from(recentSearches)
+    .where(eq(recentSearches.userId, userId))
+    .orderBy(desc(recentSearches.searchedAt));
+
+  const mixes = await db
+    .select()
+    .from(homeMixes)
+    .where(eq(homeMixes.userId, userId))
+    .orderBy(desc(homeMixes.generation), asc(homeMixes.position));
+
+  const scheduled = await db
+    .select()
+    .from(scheduledPlaylists)
+    .where(eq(scheduledPlaylists.userId, userId))
+    .orderBy(asc(scheduledPlaylists.kind), asc(scheduledPlaylists.position));
+
+  return {
+    user,
+    trackPreferences: preferences,
+    listeningHistory: history,
+    playerEvents: events,
+    playlists: userPlaylists,
+    playbackState: (await getPlaybackState(userId)) ?? null,
+    recentSearches: searches,
+    homeMixes: mixes.map(({ tracks: mixTracks, ...mix }) => ({ ...mix, tracks: JSON.parse(mixTracks) })),
+    scheduledPlaylists: scheduled.map(({ tracks: mixTracks, ...mix }) => ({ ...mix, tracks: JSON.parse(mixTracks) })),
+  };
+}
+
+// Когда аккаунт с этим openId удалили (если удаляли)
+export async function getAccountDeletedAt(openId: string): Promise<Date | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db
+    .select({ deletedAt: deletedAccounts.deletedAt })
+    .from(deletedAccounts)
+    .where(eq(deletedAccounts.openId, openId))
+    .limit(1);
+
+  return result[0]?.deletedAt;
+}
+
+/**
+ * Удаляет аккаунт и всё, что принадлежит пользователю. Общий каталог tracks не трогаем.
+ * В чужих совместных плейлистах добавленные им треки остаются, но без автора.
+ * openId запоминается, чтобы старые сессии не создали пользователя заново
+ */
+export async function deleteUserAccount(userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.transaction(async (tx) => {
+    const [user] = await tx.select({ openId: users.openId }).from(users).where(eq(users.id, userId)).limit(1);
+    if (user) {
+      const deletedAt = new Date();
+      await tx.insert(deletedAccounts).values({ openId: user.openId, deletedAt }).onDuplicateKeyUpdate({ set: { deletedAt } });
+    }
+
+    const owned = await tx
+      .select({ id: playlists.id })
+      .from(playlists)
+      .where(eq(playlists.userId, userId));
+    const ownedIds = owned.map((p) => p.id);
+
+    if (ownedIds.length > 0) {
+      await tx.delete(playlistTracks).where(inArray(playlistTracks.playlistId, ownedIds));
+      await tx.delete(playlistMembers).where(inArray(playlistMembers.playlistId, ownedIds));
+      await tx.delete(playlists).where(inArray(playlists.id, ownedIds));
+    }
+
+    await tx.delete(playlistMembers).where(eq(playlistMembers.userId, userId));
+    await tx.update(playlistMembers).set({ invitedBy: null }).where(eq(playlistMembers.invitedBy, userId));
+    await tx.update(playlistTracks).set({ addedBy: null }).where(eq(playlistTracks.addedBy, userId));
+
+    await tx.delete(trackPreferences).where(eq(trackPreferences.userId, userId));
+    await tx.delete(listeningHistory).where(eq(listeningHistory.userId, userId));
+    await tx.delete(playerEvents).where(eq(playerEvents.userId, userId));
+    await tx.delete(playbackState).where(eq(playbackState.userId, userId));
+    await tx.delete(recentSearches).where(eq(recentSearches.userId, userId));
+    await tx.delete(accountExports).where(eq(accountExports.userId, userId));
+    await tx.delete(homeMixes).where(eq(homeMixes.userId, userId));
+    await tx.delete(scheduledPlaylists).where(eq(scheduledPlaylists.userId, userId));
+    await tx.delete(users).where(eq(users.id, userId));
+  });
+}
@@ -0,0 +1,231 @@
+import { isSoundCloudMediaUrl } from "./soundcloud";
+
+/**
+ * Склейка HLS-плейлиста в один непрерывный поток.
+ * Сегменты SoundCloud (mp3, ogg/opus, fMP4/aac) можно просто конкатенировать -
+ * <audio> проигрывает результат как обычный файл. Размеры сегментов узнаём через HEAD,
+ * поэтому Range-запросы (перемотка) поддерживаются так же, как у progressive.
+ */
+
+const USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
+const HEAD_CONCURRENCY = 8;
+const LAYOUT_TTL = 30 * 60 * 1000;
+
+export interface HlsPart {
+  url: string;
+  size: number | null;
+}
+
+export interface HlsLayout {
+  parts: HlsPart[];
+  // null - размер хотя бы одного сегмента неизвестен, Range не поддерживается
+  totalSize: number | null;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // включительно
+}
+
+export class HlsExpiredError extends Error {
+  constructor(public readonly status: number) {
+    super(`HLS resource expired (${status})`);
+    this.name = "HlsExpiredError";
+  }
+}
+
+// CDN отвечает на протухшую подписанную ссылку этими статусами
+const EXPIRED_STATUSES = new Set([401, 403, 404, 410]);
+
+export function isExpiredStatus(status: number): boolean {
+  return EXPIRED_STATUSES.has(status);
+}
+
+const layoutCache = new Map<string, { layout: HlsLayout; expires: number }>();
+
+/**
+ * Разбор media-плейлиста: URL init-сегмента (EXT-X-MAP, если есть) и сегментов по порядку
+ */
+export function parseHlsPlaylist(text: string, baseUrl: string): string[] {
+  const urls: string[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#EXT-X-MAP:")) {
+      const uri = /URI="([^"]+)"/.exec(line)?.[1];
+      if (uri) urls.push(new URL(uri, baseUrl).toString());
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+
+    urls.push(new URL(line, baseUrl).toString());
+  }
+
+  return urls;
+}
+
+/**
+ * Разбор заголовка Range для одного диапазона.
+ * undefined - заголовка нет (отдаём всё), null - диапазон невыполним (416)
+ */
+export function parseRange(header: string | undefined, totalSize: number): ByteRange | null | undefined {
+  if (!header) return undefined;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  // Несколько диапазонов и прочие форматы не поддерживаем - отдаём файл целиком
+  if (!match) return undefined;
+
+  const [, startRaw, endRaw] = match;
+  if (!startRaw && !endRaw) return undefined;
+
+  let start: number;
+  let end: number;
+  if (!startRaw) {
+    // bytes=-N - последние N байт
+    start = Math.max(0, totalSize - Number(endRaw));
+    end = totalSize - 1;
+  } else {
+    start = Number(startRaw);
+    end = endRaw ? Math.min(Number(endRaw), totalSize - 1) : totalSize - 1;
+  }
+
+  if (start >= totalSize || start > end) return null;
+  return { start, end };
+}
+
+async function fetchSegmentSize(url: string, signal: AbortSignal): Promise<number | null> {
+  try {
+    const response = await fetch(url, {
+      method: "HEAD",
+      headers: { "User-Agent": USER_AGENT },
+      signal,
+    });
+    if (EXPIRED_STATUSES.has(response.status)) {
+      throw new HlsExpiredError(response.status);
+    }
+    const length = Number(response.headers.get("content-length"));
+    return response.ok && Number.isFinite(length) && length > 0 ? length : null;
+  } catch (error) {
+    if (error instanceof HlsExpiredError || signal.aborted) throw error;
+    return null;
+  }
+}
+
+/**
+ * Загружает плейлист и размеры сегментов (с кэшированием по URL плейлиста)
+ */
+export async function loadHlsLayout(playlistUrl: string, signal: AbortSignal): Promise<HlsLayout> {
+  if (!isSoundCloudMediaUrl(playlistUrl)) {
+    throw new Error("Untrusted HLS playlist URL");
+  }
+  const cached = layoutCache.get(playlistUrl);
+  if (cached && cached.expires > Date.now()) {
+    return cached.layout;
+  }
+  layoutCache.delete(playlistUrl);
+
+  const response = await fetch(playlistUrl, {
+    headers: { "User-Agent": USER_AGENT },
+    signal,
+  });
+  if (EXPIRED_STATUSES.has(response.status)) {
+    throw new HlsExpiredError(response.status);
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load HLS playlist (${response.status})`);
+  }
+
+  const urls = parseHlsPlaylist(await response.text(), playlistUrl);
+  if (urls.length === 0) {
+    throw new Error("HLS playlist has no segments");
+  }
+  // Плейлист может сослаться на любой адрес - сегменты качаем только с CDN
+  if (!urls.every(isSoundCloudMediaUrl)) {
+    throw new Error("Untrusted HLS segment URL");
+  }
+
+  const sizes: (number | null)[] = new Array(urls.length).fill(null);
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < urls.length) {
+      const index = cursor++;
+      sizes[index] = await fetchSegmentSize(urls[index]!, signal);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(HEAD_CONCURRENCY, urls.length) }, worker));
+
+  const parts = urls.map((url, i) => ({ url, size: sizes[i]! }));
+  const layout: HlsLayout = {
+    parts,
+    totalSize: parts.every(p => p.size !== null)
+      ? parts.reduce((sum, p) => sum + p.size!, 0)
+      : null,
+  };
+
+  if (layoutCache.size > 100) {
+    const now = Date.now();
+    layoutCache.forEach((value, key) => {
+      if (value.expires < now) layoutCache.delete(key);
+    });
+  }
+  layoutCache.set(playlistUrl, { layout, expires: Date.now() + LAYOUT_TTL });
+
+  return layout;
+}
+
+/**
+ * Отдаёт байты [range.start, range.end] склеенного потока.
+ * reload вызывается, если подписанные ссылки на сегменты протухли посреди отдачи.
+ */
+export async function* readHlsRange(
+  layout: HlsLayout,
+  range: ByteRange | undefined,
+  signal: AbortSignal,
+  reload: () => Promise<HlsLayout>
+): AsyncGenerator<Uint8Array> {
+  let parts = layout.parts;
+  let reloaded = false;
+  let offset = 0;
+
+  for (let i = 0; i < parts.length; i++) {
+    const size = parts[i]!.size;
+    const partStart = offset;
+    if (size !== null) offset += size;
+
+    if (range && size !== null) {
+      if (partStart + size <= range.start) continue;
+      if (partStart > range.end) return;
+    }
+
+    const response = await fetch(parts[i]!.url, {
+      headers: { "User-Agent": USER_AGENT },
+      signal,
+    });
+
+    if (EXPIRED_STATUSES.has(response.status) && !reloaded) {
+      await response.body?.cancel();
+      reloaded = true;
+      const fresh = await reload();
+      if (fresh.parts.length !== parts.length) {
+        throw new Error("HLS playlist changed after reload");
+      }
+      parts = fresh.parts;
+      offset = partStart;
+      i--;
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to load HLS segment (${response.status})`);
+    }
+
+    let chunk = new Uint8Array(await response.arrayBuffer());
+    if (range && size !== null) {
+      const from = Math.max(0, range.start - partStart);
+      const to = Math.min(chunk.length, range.end - partStart + 1);
+      chunk = chunk.subarray(from, to);
+    }
+    if (chunk.length > 0) yield chunk;
+  }
+}
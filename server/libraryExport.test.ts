@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { createExportWriter, type ExportFormat, type ExportItem } from "./libraryExport";
+import { parsePlaylistFile } from "./playlistImport";
+import type { Track } from "../drizzle/schema";
+
+const item: ExportItem = {
+  track: {
+    id: 1,
+    provider: "soundcloud",
+    soundcloudId: "123",
+    title: "Harder, Better, \"Faster\"",
+    artist: "Daft Punk",
+    artworkUrl: null,
+    duration: 224_000,
+    streamUrl: null,
+    permalinkUrl: "https://soundcloud.com/daftpunk/hbfs",
+    genre: "=HYPERLINK(\"x\")",
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  } satisfies Track,
+  date: new Date("2024-05-01T12:00:00Z"),
+};
+
+function render(format: ExportFormat) {
+  const writer = createExportWriter(format, { title: "Mix <1>", dateField: "addedAt" });
+  return writer.begin() + writer.row(item, 0) + writer.end();
+}
+
+describe("createExportWriter", () => {
+  it("writes M3U8 with EXTINF durations and permalinks", () => {
+    expect(render("m3u8")).toBe(
+      "#EXTM3U\n#PLAYLIST:Mix <1>\n#EXTINF:224,Daft Punk - Harder, Better, \"Faster\"\nhttps://soundcloud.com/daftpunk/hbfs\n"
+    );
+  });
+
+  it("produces valid JSON", () => {
+    const parsed = JSON.parse(render("json"));
+    expect(parsed.title).toBe("Mix <1>");
+    expect(parsed.tracks).toEqual([
+      expect.objectContaining({ title: item.track.title, durationMs: 224_000, addedAt: "2024-05-01T12:00:00.000Z" }),
+    ]);
+  });
+
+  it("escapes CSV quotes and formula-like cells", () => {
+    const [, row] = render("csv").split("\r\n");
+    expect(row).toContain("\"Harder, Better, \"\"Faster\"\"\"");
+    expect(row).toContain("\"'=HYPERLINK(\"\"x\"\")\"");
+  });
+
+  it("round-trips through playlist import", () => {
+    for (const format of ["m3u8", "xspf", "csv"] as const) {
+      const importFormat = format === "m3u8" ? "m3u" : format;
+      expect(parsePlaylistFile(render(format), importFormat)).toEqual([
+        { position: 1, artist: "Daft Punk", title: item.track.title, durationMs: 224_000 },
+      ]);
+    }
+  });
+});
@@ -0,0 +1,260 @@
+import { once } from "events";
+import type { Express, Request, Response } from "express";
+import * as db from "./db";
+import { sdk } from "./_core/sdk";
+import { requirePlaylistRole } from "./playlistAccess";
+import { getPlaylistTrackEntries } from "./smartPlaylists";
+import type { Track } from "../drizzle/schema";
+
+/**
+ * Выгрузка плейлиста, избранного и истории в M3U8, XSPF, JSON и CSV.
+ * Ответ пишется страницами из БД, так что длинная история не держится в памяти целиком
+ */
+
+export const EXPORT_FORMATS = ["m3u8", "xspf", "json", "csv"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportItem {
+  track: Track;
+  // Когда трек добавили в плейлист или прослушали; у избранного даты нет
+  date: Date | null;
+}
+
+export interface ExportMeta {
+  title: string;
+  // Имя поля даты в JSON/CSV
+  dateField: "addedAt" | "playedAt" | null;
+}
+
+export interface ExportWriter {
+  contentType: string;
+  begin(): string;
+  row(item: ExportItem, index: number): string;
+  end(): string;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+// В однострочных форматах перевод строки сломал бы разметку
+function singleLine(value: string) {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function escapeCsv(value: string) {
+  // Ячейки, начинающиеся с =, +, -, @, табличные редакторы выполняют как формулы
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, "\"\"")}"` : safe;
+}
+
+// Колонки title/artist/duration_ms совпадают с тем, что понимает импорт CSV
+const CSV_COLUMNS = ["title", "artist", "duration_ms", "permalink_url", "genre", "provider", "id"];
+
+export function createExportWriter(format: ExportFormat, meta: ExportMeta): ExportWriter {
+  switch (format) {
+    case "m3u8":
+      return {
+        contentType: "audio/x-mpegurl; charset=utf-8",
+        begin: () => `#EXTM3U\n#PLAYLIST:${singleLine(meta.title)}\n`,
+        row: ({ track }) =>
+          `#EXTINF:${Math.round(track.duration / 1000)},${singleLine(`${track.artist} - ${track.title}`)}\n` +
+          `${track.permalinkUrl ?? ""}\n`,
+        end: () => "",
+      };
+
+    case "xspf":
+      return {
+        contentType: "application/xspf+xml; charset=utf-8",
+        begin: () =>
+          `<?xml version="1.0" encoding="UTF-8"?>\n<playlist version="1" xmlns="http://xspf.org/ns/0/">\n` +
+          `  <title>${escapeXml(meta.title)}</title>\n  <trackList>\n`,
+        row: ({ track }) => {
+          const fields = [
+            track.permalinkUrl && `<location>${escapeXml(track.permalinkUrl)}</location>`,
+            `<creator>${escapeXml(track.artist)}</creator>`,
+            `<title>${escapeXml(track.title)}</title>`,
+            `<duration>${track.duration}</duration>`,
+            track.artworkUrl && `<image>${escapeXml(track.artworkUrl)}</image>`,
+          ].filter(Boolean);
+          return `    <track>${fields.join("")}</track>\n`;
+        },
+        end: () => "  </trackList>\n</playlist>\n",
+      };
+
+    case "json":
+      return {
+        contentType: "application/json; charset=utf-8",
+        begin: () => `{"title":${JSON.stringify(meta.title)},"exportedAt":${JSON.stringify(new Date())},"tracks":[\n`,
+        row: ({ track, date }, index) => {
+          const entry: Record<string, unknown> = {
+            title: track.title,
+            artist: track.artist,
+            durationMs: track.duration,
+            permalinkUrl: track.permalinkUrl,
+            artworkUrl: track.artworkUrl,
+            genre: track.genre,
+            provider: track.provider,
+            id: track.soundcloudId,
+          };
+          if (meta.dateField && date) entry[meta.dateField] = date;
+          return `${index > 0 ? ",\n" : ""}${JSON.stringify(entry)}`;
+        },
+        end: () => "\n]}\n",
+      };
+
+    case "csv": {
+      const dateColumn = meta.dateField === "addedAt" ? "added_at" : meta.dateField === "playedAt" ? "played_at" : null;
+      const columns = dateColumn ? [...CSV_COLUMNS, dateColumn] : CSV_COLUMNS;
+      return {
+        contentType: "text/csv; charset=utf-8",
+        // BOM - чтобы Excel открыл кириллицу как UTF-8
+        begin: () => `\uFEFF${columns.join(",")}\r\n`,
+        row: ({ track, date }) => {
+          const cells = [
+            track.title,
+            track.artist,
+            String(track.duration),
+            track.permalinkUrl ?? "",
+            track.genre ?? "",
+            track.provider,
+            track.soundcloudId,
+          ];
+          if (dateColumn) cells.push(date ? date.toISOString() : "");
+          return `${cells.map(escapeCsv).join(",")}\r\n`;
+        },
+        end: () => "",
+      };
+    }
+  }
+}
+
+function contentDisposition(name: string, format: ExportFormat) {
+  const fileName = `${name.replace(/[\\/:*?"<>|\r\n]+/g, " ").trim() || "export"}.${format}`;
+  // filename - ASCII-запасной вариант для старых клиентов, filename* - настоящее имя
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, "_");
+  return `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+async function* paginate(fetchPage: (offset: number, limit: number) => Promise<ExportItem[]>) {
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const page = await fetchPage(offset, EXPORT_PAGE_SIZE);
+    if (page.length > 0) yield page;
+    if (page.length < EXPORT_PAGE_SIZE) return;
+  }
+}
+
+async function writeExport(
+  res: Response,
+  format: ExportFormat,
+  meta: ExportMeta,
+  pages: AsyncIterable<ExportItem[]> | Iterable<ExportItem[]>
+) {
+  const writer = createExportWriter(format, meta);
+  res.setHeader("Content-Type", writer.contentType);
+  res.setHeader("Content-Disposition", contentDisposition(meta.title, format));
+  res.setHeader("Cache-Control", "private, no-store");
+
+  const write = async (chunk: string) => {
+    // Буфер сокета полон - ждём, пока клиент заберёт данные (или отключится)
+    if (chunk && !res.write(chunk)) await Promise.race([once(res, "drain"), once(res, "close")]);
+  };
+
+  await write(writer.begin());
+  let index = 0;
+  for await (const page of pages) {
+    // Клиент отменил загрузку - дальше из БД не читаем
+    if (res.destroyed) return;
+    await write(page.map(item => writer.row(item, index++)).join(""));
+  }
+  await write(writer.end());
+  res.end();
+}
+
+function parseFormat(value: unknown): ExportFormat | null {
+  return EXPORT_FORMATS.find(format => format === value) ?? null;
+}
+
+export function registerExportRoutes(app: Express) {
+  // /api/export/liked | /api/export/history | /api/export/playlist/:playlistId, ?format=m3u8|xspf|json|csv
+  app.get(["/api/export/:source", "/api/export/:source/:playlistId"], async (req: Request, res: Response) => {
+    const format = parseFormat(req.query.format ?? "m3u8");
+    if (!format) {
+      res.status(400).json({ error: "Unknown export format" });
+      return;
+    }
+
+    let userId: number;
+    try {
+      userId = (await sdk.authenticateRequest(req)).id;
+    } catch {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    try {
+      switch (req.params.source) {
+        case "liked":
+          await writeExport(
+            res,
+            format,
+            { title: "Избранное", dateField: null },
+            paginate(async (offset, limit) =>
+              (await db.getUserLikedTracks(userId, limit, offset)).map(track => ({ track, date: null }))
+            )
+          );
+          return;
+
+        case "history":
+          await writeExport(
+            res,
+            format,
+            { title: "История прослушивания", dateField: "playedAt" },
+            paginate(async (offset, limit) =>
+              (await db.getUserListeningHistory(userId, limit, offset)).map(entry => ({
+                track: entry.track,
+                date: entry.playedAt,
+              }))
+            )
+          );
+          return;
+
+        case "playlist": {
+          const playlistId = Number.parseInt(req.params.playlistId ?? "", 10);
+          if (!Number.isFinite(playlistId)) break;
+
+          // Выгрузить может любой участник, как и послушать
+          const { playlist } = await requirePlaylistRole(playlistId, userId, "viewer");
+          // Плейлист и так читается целиком (playlists.get), одной страницей
+          const tracks = await getPlaylistTrackEntries(playlist);
+          await writeExport(
+            res,
+            format,
+            { title: playlist.name, dateField: "addedAt" },
+            [tracks.map(track => ({ track, date: track.addedAt }))]
+          );
+          return;
+        }
+      }
+      res.status(404).json({ error: "Not found" });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Playlist not found") {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      console.error("[Export] Failed", req.path, error instanceof Error ? error.message : error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Export failed" });
+      } else {
+        res.destroy();
+      }
+    }
+  });
+}
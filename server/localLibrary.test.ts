@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { MySqlDialect } from "drizzle-orm/mysql-core";
+import { localLibrarySearchCondition } from "./db";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+function createGuestContext(): TrpcContext {
+  return {
+    user: null,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  };
+}
+
+describe("local library access", () => {
+  it("rejects anonymous searches and lookups in the local library", async () => {
+    const caller = appRouter.createCaller(createGuestContext());
+
+    await expect(caller.search.tracks({ query: "song", provider: "local" })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    await expect(caller.tracks.get({ trackId: 1, provider: "local" })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    await expect(caller.recommendations.forTrack({ trackId: "local:1" })).rejects.toMatchObject({
+      code: "UNAUTHORIZED",
+    });
+    await expect(caller.localLibrary.status()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
+
+describe("localLibrarySearchCondition", () => {
+  it("matches % and _ from the query literally", () => {
+    const query = new MySqlDialect().sqlToQuery(localLibrarySearchCondition("100%_mix\\"));
+
+    expect(query.params).toEqual(Array(3).fill("%100\\%\\_mix\\\\%"));
+    expect(query.sql.match(/ like \? escape '\\\\'/g)).toHaveLength(3);
+  });
+});
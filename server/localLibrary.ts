@@ -0,0 +1,265 @@
+import type { Express, Request, Response } from "express";
+import { promises as fs } from "fs";
+import path from "path";
+import { parseFile, selectCover } from "music-metadata";
+import { ENV } from "./_core/env";
+import { sdk } from "./_core/sdk";
+import * as db from "./db";
+import type { MusicTrack } from "./providers/types";
+
+export const LOCAL_PROVIDER_ID = "local";
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".flac": "audio/flac",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/ogg",
+  ".opus": "audio/ogg",
+  ".m4a": "audio/mp4",
+};
+
+export interface LocalScanResult {
+  scanned: number;
+  added: number;
+  updated: number;
+  removed: number;
+  failed: number;
+}
+
+export interface LocalLibraryStatus {
+  enabled: boolean;
+  scanning: boolean;
+  fileCount: number;
+  lastScan: (LocalScanResult & { finishedAt: Date }) | null;
+}
+
+let currentScan: Promise<LocalScanResult> | null = null;
+let lastScan: LocalLibraryStatus["lastScan"] = null;
+
+export function isLocalLibraryEnabled(): boolean {
+  return Boolean(ENV.localMusicDir);
+}
+
+function getLibraryRoot(): string {
+  if (!ENV.localMusicDir) {
+    throw new Error("Local library is not configured (LOCAL_MUSIC_DIR)");
+  }
+  return path.resolve(ENV.localMusicDir);
+}
+
+/**
+ * Абсолютный путь к файлу медиатеки (с защитой от выхода за пределы папки)
+ */
+export function resolveLibraryPath(relativePath: string): string {
+  const root = getLibraryRoot();
+  const absolute = path.resolve(root, relativePath);
+  if (absolute !== root && !absolute.startsWith(root + path.sep)) {
+    throw new Error("Path is outside of the local library");
+  }
+  return absolute;
+}
+
+async function* walk(dir: string): AsyncGenerator<string> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    console.warn("[LocalLibrary] Cannot read directory:", dir, error instanceof Error ? error.message : error);
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      yield* walk(fullPath);
+    } else if (entry.isFile() && AUDIO_MIME_TYPES[path.extname(entry.name).toLowerCase()]) {
+      yield fullPath;
+    }
+  }
+}
+
+async function readTags(absolutePath: string) {
+  const metadata = await parseFile(absolutePath, { duration: true, skipCovers: false });
+  const { common, format } = metadata;
+  const fallbackTitle = path.basename(absolutePath, path.extname(absolutePath));
+
+  return {
+    title: common.title?.trim() || fallbackTitle,
+    artist: common.artist?.trim() || common.albumartist?.trim() || "Неизвестный исполнитель",
+    album: common.album?.trim() || null,
+    genre: common.genre?.[0]?.trim() || null,
+    duration: Math.round((format.duration ?? 0) * 1000),
+    hasArtwork: Boolean(common.picture && common.picture.length > 0),
+  };
+}
+
+async function runScan(): Promise<LocalScanResult> {
+  const root = getLibraryRoot();
+  const result: LocalScanResult = { scanned: 0, added: 0, updated: 0, removed: 0, failed: 0 };
+
+  const known = new Map((await db.getLocalLibraryFiles()).map(f => [f.path, f]));
+  const seen = new Set<string>();
+
+  for await (const absolutePath of walk(root)) {
+    const relativePath = path.relative(root, absolutePath).split(path.sep).join("/");
+    seen.add(relativePath);
+    result.scanned++;
+
+    try {
+      const stat = await fs.stat(absolutePath);
+      const existing = known.get(relativePath);
+      // Файл не менялся - теги не перечитываем
+      if (existing && existing.trackId && existing.size === stat.size && existing.mtimeMs === Math.floor(stat.mtimeMs)) {
+        continue;
+      }
+
+      const tags = await readTags(absolutePath);
+      const fileData = {
+        path: relativePath,
+        size: stat.size,
+        mtimeMs: Math.floor(stat.mtimeMs),
+        mimeType: AUDIO_MIME_TYPES[path.extname(absolutePath).toLowerCase()]!,
+        album: tags.album,
+        hasArtwork: tags.hasArtwork,
+      };
+
+      const file = existing
+        ? { ...existing, ...fileData }
+        : await db.insertLocalLibraryFile(fileData);
+      if (existing) {
+        await db.updateLocalLibraryFile(existing.id, fileData);
+      }
+
+      const trackData = {
+        title: tags.title,
+        artist: tags.artist,
+        artworkUrl: tags.hasArtwork ? localArtworkPath(file.id) : null,
+        duration: tags.duration,
+        genre: tags.genre,
+      };
+      const track = await db.upsertTrack({
+        provider: LOCAL_PROVIDER_ID,
+        soundcloudId: String(file.id),
+        ...trackData,
+      });
+      await db.updateTrack(track.id, trackData);
+      if (file.trackId !== track.id) {
+        await db.updateLocalLibraryFile(file.id, { trackId: track.id });
+      }
+
+      if (existing) {
+        result.updated++;
+      } else {
+        result.added++;
+      }
+    } catch (error) {
+      result.failed++;
+      console.warn("[LocalLibrary] Failed to index", relativePath, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const removed = Array.from(known.values()).filter(f => !seen.has(f.path));
+  await db.deleteLocalLibraryFiles(removed.map(f => f.id));
+  result.removed = removed.length;
+
+  return result;
+}
+
+/**
+ * Сканирует LOCAL_MUSIC_DIR и синхронизирует медиатеку с БД.
+ * Повторный вызов во время сканирования возвращает текущий прогон
+ */
+export function scanLocalLibrary(): Promise<LocalScanResult> {
+  if (!currentScan) {
+    currentScan = runScan()
+      .then((result) => {
+        lastScan = { ...result, finishedAt: new Date() };
+        return result;
+      })
+      .finally(() => {
+        currentScan = null;
+      });
+  }
+  return currentScan;
+}
+
+export async function getLocalLibraryStatus(): Promise<LocalLibraryStatus> {
+  const enabled = isLocalLibraryEnabled();
+  return {
+    enabled,
+    scanning: currentScan !== null,
+    fileCount: enabled ? await db.countLocalLibraryFiles() : 0,
+    lastScan,
+  };
+}
+
+export function localArtworkPath(fileId: number): string {
+  return `/api/local/artwork/${fileId}`;
+}
+
+export function toLocalMusicTrack({ file, track }: db.LocalLibraryEntry): MusicTrack {
+  return {
+    id: file.id,
+    provider: LOCAL_PROVIDER_ID,
+    title: track.title,
+    duration: track.duration,
+    artwork_url: track.artworkUrl,
+    permalink_url: "",
+    genre: track.genre,
+    user: {
+      id: 0,
+      username: track.artist,
+      avatar_url: null,
+    },
+    created_at: file.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Файлы медиатеки лежат на диске сервера - отдаём их (поток и обложки) только вошедшим пользователям.
+ * false - ответ 401 уже отправлен
+ */
+export async function authorizeLocalLibraryRequest(req: Request, res: Response): Promise<boolean> {
+  try {
+    await sdk.authenticateRequest(req);
+    return true;
+  } catch {
+    res.status(401).json({ error: "Unauthorized" });
+    return false;
+  }
+}
+
+export function registerLocalLibraryRoutes(app: Express) {
+  // Обложка, встроенная в теги файла
+  app.get("/api/local/artwork/:fileId", async (req: Request, res: Response) => {
+    const fileId = Number.parseInt(req.params.fileId, 10);
+    if (!isLocalLibraryEnabled() || !Number.isFinite(fileId)) {
+      res.status(404).end();
+      return;
+    }
+    if (!(await authorizeLocalLibraryRequest(req, res))) return;
+
+    try {
+      const file = await db.getLocalLibraryFileById(fileId);
+      if (!file || !file.hasArtwork) {
+        res.status(404).end();
+        return;
+      }
+
+      const metadata = await parseFile(resolveLibraryPath(file.path), { skipCovers: false });
+      const cover = selectCover(metadata.common.picture);
+      if (!cover) {
+        res.status(404).end();
+        return;
+      }
+
+      res.setHeader("Content-Type", cover.format);
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.end(Buffer.from(cover.data));
+    } catch (error) {
+      console.error("[LocalLibrary] Failed to read artwork", fileId, error instanceof Error ? error.message : error);
+      res.status(500).end();
+    }
+  });
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { hasPlaylistRole } from "./playlistAccess";
+
+describe("hasPlaylistRole", () => {
+  it("orders roles owner > editor > viewer", () => {
+    expect(hasPlaylistRole("owner", "editor")).toBe(true);
+    expect(hasPlaylistRole("editor", "editor")).toBe(true);
+    expect(hasPlaylistRole("editor", "owner")).toBe(false);
+    expect(hasPlaylistRole("viewer", "editor")).toBe(false);
+    expect(hasPlaylistRole("viewer", "viewer")).toBe(true);
+  });
+
+  it("denies non-members", () => {
+    expect(hasPlaylistRole(undefined, "viewer")).toBe(false);
+    expect(hasPlaylistRole(null, "viewer")).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import * as db from "./db";
+import type { Playlist, PlaylistMember } from "../drizzle/schema";
+
+export type PlaylistRole = PlaylistMember["role"];
+
+const ROLE_RANK: Record<PlaylistRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+/**
+ * owner - всё, включая участников, видимость и удаление;
+ * editor - треки, название и описание; viewer - только просмотр и прослушивание
+ */
+export function hasPlaylistRole(role: PlaylistRole | null | undefined, required: PlaylistRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export async function getPlaylistRole(playlist: Playlist, userId: number): Promise<PlaylistRole | undefined> {
+  // Владелец - по playlists.userId, даже если строки в playlist_members нет
+  if (playlist.userId === userId) return "owner";
+  return await db.getPlaylistMemberRole(playlist.id, userId);
+}
+
+/**
+ * Загружает плейлист и проверяет, что у пользователя есть нужная роль.
+ * Чужой плейлист неотличим от несуществующего
+ */
+export async function requirePlaylistRole(
+  playlistId: number,
+  userId: number,
+  required: PlaylistRole
+): Promise<{ playlist: Playlist; role: PlaylistRole }> {
+  const playlist = await db.getPlaylistById(playlistId);
+  if (!playlist) {
+    throw new Error("Playlist not found");
+  }
+
+  const role = await getPlaylistRole(playlist, userId);
+  if (!role) {
+    throw new Error("Playlist not found");
+  }
+  if (!hasPlaylistRole(role, required)) {
+    throw new Error("Unauthorized");
+  }
+
+  return { playlist, role };
+}
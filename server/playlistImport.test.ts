@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { detectPlaylistFormat, matchImportEntry, parsePlaylistFile, takeImportSlot } from "./playlistImport";
+import type { MusicTrack } from "./providers/types";
+
+function track(id: number, title: string, username: string, duration = 200_000): MusicTrack {
+  return {
+    id,
+    title,
+    duration,
+    artwork_url: null,
+    permalink_url: `https://soundcloud.com/${username}/${id}`,
+    genre: null,
+    user: { id, username, avatar_url: null },
+    created_at: "2024-01-01T00:00:00Z",
+  } as MusicTrack;
+}
+
+describe("parsePlaylistFile", () => {
+  it("reads EXTINF metadata and falls back to file names in M3U", () => {
+    const content = [
+      "#EXTM3U",
+      "#EXTINF:215,Daft Punk - Harder, Better, Faster, Stronger",
+      "music/daft.mp3",
+      "D:\\Music\\02_Massive_Attack_-_Teardrop.flac",
+    ].join("\n");
+
+    expect(parsePlaylistFile(content, "m3u")).toEqual([
+      { position: 1, artist: "Daft Punk", title: "Harder, Better, Faster, Stronger", durationMs: 215_000 },
+      { position: 2, artist: "Massive Attack", title: "Teardrop", durationMs: null },
+    ]);
+  });
+
+  it("reads creator, title and duration from XSPF", () => {
+    const content = `<?xml version="1.0" encoding="UTF-8"?>
+      <playlist version="1" xmlns="http://xspf.org/ns/0/">
+        <trackList>
+          <track><creator>Simon &amp; Garfunkel</creator><title>The Boxer</title><duration>308000</duration></track>
+        </trackList>
+      </playlist>`;
+
+    expect(parsePlaylistFile(content, "xspf")).toEqual([
+      { position: 1, artist: "Simon & Garfunkel", title: "The Boxer", durationMs: 308_000 },
+    ]);
+  });
+
+  it("maps CSV columns by header and defaults to title, artist without one", () => {
+    const withHeader = "\"Track Name\",\"Artist Name(s)\"\n\"Song, Pt. 2\",Band\n";
+    expect(parsePlaylistFile(withHeader, "csv")).toEqual([
+      { position: 1, artist: "Band", title: "Song, Pt. 2", durationMs: null },
+    ]);
+
+    expect(parsePlaylistFile("Кукушка;Кино", "csv")).toEqual([
+      { position: 1, artist: "Кино", title: "Кукушка", durationMs: null },
+    ]);
+  });
+
+  it("splits plain text lines on a dash and skips numbering", () => {
+    expect(parsePlaylistFile("1. Radiohead – Creep\n\nUntitled", "text")).toEqual([
+      { position: 1, artist: "Radiohead", title: "Creep", durationMs: null },
+      { position: 2, artist: null, title: "Untitled", durationMs: null },
+    ]);
+  });
+});
+
+describe("detectPlaylistFormat", () => {
+  it("prefers the file extension, then sniffs the content", () => {
+    expect(detectPlaylistFormat("anything", "list.M3U8")).toBe("m3u");
+    expect(detectPlaylistFormat("#EXTM3U\n")).toBe("m3u");
+    expect(detectPlaylistFormat("<?xml version=\"1.0\"?><playlist/>")).toBe("xspf");
+    expect(detectPlaylistFormat("Artist - Title")).toBe("text");
+  });
+});
+
+describe("matchImportEntry", () => {
+  const entry = { position: 1, artist: "Radiohead", title: "Creep", durationMs: null };
+
+  it("accepts a clear best candidate", () => {
+    const match = matchImportEntry(entry, [track(1, "Creep", "Radiohead"), track(2, "Something else", "Someone")]);
+    expect(match.status).toBe("matched");
+    expect(match.candidates[0].track.id).toBe(1);
+  });
+
+  it("recognizes the artist in an uploaded title", () => {
+    const match = matchImportEntry(entry, [track(1, "Radiohead - Creep", "Some Label")]);
+    expect(match.status).toBe("matched");
+  });
+
+  it("asks the user when two candidates are equally close", () => {
+    const match = matchImportEntry(entry, [track(1, "Creep", "Radiohead"), track(2, "Creep", "Radiohead")]);
+    expect(match.status).toBe("ambiguous");
+  });
+
+  it("reports entries without plausible candidates as missing", () => {
+    const match = matchImportEntry(entry, [track(1, "Totally unrelated", "Nobody")]);
+    expect(match.status).toBe("missing");
+    expect(match.candidates).toEqual([]);
+  });
+});
+
+describe("takeImportSlot", () => {
+  it("allows a few imports per window and frees slots as the window moves", () => {
+    const start = 1_000_000_000;
+    const userId = 42;
+    for (let i = 0; i < 5; i++) {
+      expect(takeImportSlot(userId, start + i)).toBe(true);
+    }
+    expect(takeImportSlot(userId, start + 10)).toBe(false);
+    // Лимит у каждого свой
+    expect(takeImportSlot(userId + 1, start + 10)).toBe(true);
+    expect(takeImportSlot(userId, start + 10 * 60 * 1000 + 1)).toBe(true);
+  });
+});
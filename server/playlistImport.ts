@@ -0,0 +1,373 @@
+import { calculateTextSimilarity } from "./textSimilarity";
+import type { MusicTrack } from "./providers/types";
+
+/**
+ * Импорт плейлистов из других плееров: разбор файла в список «исполнитель - название»
+ * и подбор треков из каталога с оценкой уверенности.
+ * Сам плейлист здесь не создаётся - пользователь сначала смотрит отчёт
+ */
+
+export type PlaylistImportFormat = "m3u" | "xspf" | "csv" | "text";
+
+export interface ImportEntry {
+  // Номер записи в файле, с 1
+  position: number;
+  artist: string | null;
+  title: string;
+  durationMs: number | null;
+}
+
+export type ImportMatchStatus = "matched" | "ambiguous" | "missing";
+
+export interface ImportCandidate {
+  track: MusicTrack;
+  // 0-100
+  confidence: number;
+}
+
+export interface ImportMatch {
+  entry: ImportEntry;
+  status: ImportMatchStatus;
+  // По убыванию уверенности, лучший - первый
+  candidates: ImportCandidate[];
+}
+
+// Каждая строка - запрос к каталогу, и весь подбор идёт внутри одного HTTP-запроса
+export const MAX_IMPORT_ENTRIES = 100;
+
+// Импортов на пользователя за окно: больше - это уже нагрузка на каталог, а не разбор плейлистов
+const IMPORT_RATE_LIMIT = 5;
+const IMPORT_RATE_WINDOW_MS = 10 * 60 * 1000;
+const importAttempts = new Map<number, number[]>();
+
+/**
+ * Засчитывает пользователю импорт, если лимит за окно не исчерпан.
+ * false - импорт запускать нельзя
+ */
+export function takeImportSlot(userId: number, now: number = Date.now()): boolean {
+  const since = now - IMPORT_RATE_WINDOW_MS;
+  if (importAttempts.size > 1000) {
+    importAttempts.forEach((times, key) => {
+      if (times.every(time => time <= since)) importAttempts.delete(key);
+    });
+  }
+
+  const recent = (importAttempts.get(userId) ?? []).filter(time => time > since);
+  if (recent.length >= IMPORT_RATE_LIMIT) {
+    importAttempts.set(userId, recent);
+    return false;
+  }
+  importAttempts.set(userId, [...recent, now]);
+  return true;
+}
+
+// Уверенность, с которой трек принимается без вопросов
+const MATCH_CONFIDENCE = 75;
+// Ниже этого кандидат не показывается вовсе
+const MIN_CONFIDENCE = 45;
+// Если второй кандидат ближе этого к первому - пусть выбирает пользователь
+const AMBIGUITY_GAP = 10;
+// Расхождение длительности, после которого уверенность снижается
+const DURATION_TOLERANCE_MS = 15_000;
+const MAX_CANDIDATES = 3;
+
+const ARTIST_TITLE_SEPARATOR = /\s+[-–—]\s+/;
+
+// "Artist - Title" -> { artist, title }; без разделителя - только название
+export function splitArtistTitle(value: string): { artist: string | null; title: string } {
+  const text = value.trim();
+  const match = ARTIST_TITLE_SEPARATOR.exec(text);
+  if (!match) return { artist: null, title: text };
+
+  const artist = text.slice(0, match.index).trim();
+  const title = text.slice(match.index + match[0].length).trim();
+  if (!artist || !title) return { artist: null, title: text };
+  return { artist, title };
+}
+
+export function detectPlaylistFormat(content: string, fileName?: string): PlaylistImportFormat {
+  const extension = fileName?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  switch (extension) {
+    case "m3u":
+    case "m3u8":
+      return "m3u";
+    case "xspf":
+      return "xspf";
+    case "csv":
+      return "csv";
+  }
+
+  const head = content.replace(/^\uFEFF/, "").trimStart();
+  if (head.startsWith("#EXTM3U")) return "m3u";
+  if (head.startsWith("<?xml") || /^<playlist[\s>]/.test(head)) return "xspf";
+  return "text";
+}
+
+export function parsePlaylistFile(content: string, format: PlaylistImportFormat): ImportEntry[] {
+  const text = content.replace(/^\uFEFF/, "");
+  const entries = (() => {
+    switch (format) {
+      case "m3u":
+        return parseM3u(text);
+      case "xspf":
+        return parseXspf(text);
+      case "csv":
+        return parseCsv(text);
+      default:
+        return parseText(text);
+    }
+  })();
+
+  return entries
+    .filter(entry => entry.title.length > 0)
+    .map((entry, index) => ({ ...entry, position: index + 1 }));
+}
+
+type RawEntry = Omit<ImportEntry, "position">;
+
+function fromFileLocation(location: string): RawEntry {
+  // Путь или URL файла: берём имя без расширения, "01 - Artist - Title" -> "Artist - Title"
+  let name = location.trim().split(/[\\/]/).pop() ?? "";
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Битое %-кодирование - оставляем как есть
+  }
+  name = name
+    .replace(/\.[a-z0-9]{2,5}$/i, "")
+    .replace(/_/g, " ")
+    .replace(/^\d{1,3}(\s*[-.]\s*|\s+)/, "");
+  return { ...splitArtistTitle(name), durationMs: null };
+}
+
+function parseM3u(content: string): RawEntry[] {
+  const entries: RawEntry[] = [];
+  let info: RawEntry | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#EXTINF:")) {
+      // #EXTINF:215,Artist - Title (длительность в секундах, -1 - неизвестна)
+      const body = line.slice("#EXTINF:".length);
+      const comma = body.indexOf(",");
+      const seconds = Number.parseFloat(comma === -1 ? body : body.slice(0, comma));
+      const label = comma === -1 ? "" : body.slice(comma + 1);
+      info = {
+        ...splitArtistTitle(label),
+        durationMs: Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : null,
+      };
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+
+    entries.push(info && info.title ? info : fromFileLocation(line));
+    info = null;
+  }
+
+  return entries;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number.parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function xmlField(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i").exec(block);
+  return match ? decodeXml(match[1]) : null;
+}
+
+function parseXspf(content: string): RawEntry[] {
+  const entries: RawEntry[] = [];
+
+  for (const [, block] of content.matchAll(/<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/gi)) {
+    const title = xmlField(block, "title");
+    const creator = xmlField(block, "creator");
+    const duration = Number.parseInt(xmlField(block, "duration") ?? "", 10);
+    const durationMs = Number.isFinite(duration) && duration > 0 ? duration : null;
+
+    if (title) {
+      entries.push(creator ? { artist: creator, title, durationMs } : { ...splitArtistTitle(title), durationMs });
+      continue;
+    }
+
+    const location = xmlField(block, "location");
+    if (location) entries.push({ ...fromFileLocation(location), durationMs });
+  }
+
+  return entries;
+}
+
+// Разбор CSV с кавычками ("a, b" и "" внутри), разделитель - запятая или точка с запятой
+function parseCsvRows(content: string): string[][] {
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === "\"" && content[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell.length > 0));
+}
+
+// Заголовки колонок из популярных выгрузок (в т.ч. Exportify: "Track Name", "Artist Name(s)")
+const CSV_TITLE_COLUMNS = ["title", "track", "track name", "name", "song", "название", "трек"];
+const CSV_ARTIST_COLUMNS = ["artist", "artists", "artist name", "artist name(s)", "исполнитель", "артист"];
+const CSV_DURATION_COLUMNS = ["duration (ms)", "duration_ms"];
+
+function parseCsv(content: string): RawEntry[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const findColumn = (names: string[]) => header.findIndex(cell => names.includes(cell));
+  const headerTitle = findColumn(CSV_TITLE_COLUMNS);
+
+  // Без заголовка колонки идут в порядке title, artist
+  const hasHeader = headerTitle !== -1;
+  const titleColumn = hasHeader ? headerTitle : 0;
+  const artistColumn = hasHeader ? findColumn(CSV_ARTIST_COLUMNS) : 1;
+  const durationColumn = hasHeader ? findColumn(CSV_DURATION_COLUMNS) : -1;
+
+  return rows.slice(hasHeader ? 1 : 0).map(cells => {
+    const title = cells[titleColumn] ?? "";
+    const artist = artistColumn === -1 ? "" : cells[artistColumn] ?? "";
+    const duration = durationColumn === -1 ? NaN : Number.parseInt(cells[durationColumn] ?? "", 10);
+    const durationMs = Number.isFinite(duration) && duration > 0 ? duration : null;
+    return artist ? { artist, title, durationMs } : { ...splitArtistTitle(title), durationMs };
+  });
+}
+
+function parseText(content: string): RawEntry[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(/^\d{1,4}[.)]\s+/, ""))
+    .filter(line => line.length > 0 && !line.startsWith("#"))
+    .map(line => ({ ...splitArtistTitle(line), durationMs: null }));
+}
+
+export function buildImportQuery(entry: ImportEntry): string {
+  return entry.artist ? `${entry.artist} ${entry.title}` : entry.title;
+}
+
+/**
+ * Уверенность 0-100, что трек каталога - это запись из файла.
+ * На SoundCloud исполнитель часто сидит в названии ("Artist - Title"), а аккаунт - лейбл,
+ * поэтому название сравнивается и целиком, и по частям
+ */
+export function scoreImportCandidate(entry: ImportEntry, track: MusicTrack): number {
+  const uploaded = splitArtistTitle(track.title);
+  const username = track.user?.username ?? "";
+
+  let confidence: number;
+  if (entry.artist) {
+    const titleScore = Math.max(
+      calculateTextSimilarity(entry.title, track.title),
+      calculateTextSimilarity(entry.title, uploaded.title)
+    );
+    const artistScore = Math.max(
+      calculateTextSimilarity(entry.artist, username),
+      uploaded.artist ? calculateTextSimilarity(entry.artist, uploaded.artist) : 0
+    );
+    confidence = Math.max(
+      Math.round(titleScore * 0.65 + artistScore * 0.35),
+      calculateTextSimilarity(`${entry.artist} ${entry.title}`, track.title)
+    );
+  } else {
+    confidence = Math.max(
+      calculateTextSimilarity(entry.title, track.title),
+      calculateTextSimilarity(entry.title, `${username} ${track.title}`)
+    );
+  }
+
+  if (entry.durationMs && track.duration > 0 && Math.abs(entry.durationMs - track.duration) > DURATION_TOLERANCE_MS) {
+    confidence = Math.round(confidence * 0.8);
+  }
+  return confidence;
+}
+
+export function matchImportEntry(entry: ImportEntry, found: MusicTrack[]): ImportMatch {
+  const seen = new Set<number>();
+  const candidates = found
+    .filter(track => !seen.has(track.id) && seen.add(track.id))
+    .map(track => ({ track, confidence: scoreImportCandidate(entry, track) }))
+    .filter(candidate => candidate.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+
+  const [best, runnerUp] = candidates;
+  let status: ImportMatchStatus = "missing";
+  if (best) {
+    const clearWinner = !runnerUp || best.confidence - runnerUp.confidence > AMBIGUITY_GAP;
+    status = best.confidence >= MATCH_CONFIDENCE && clearWinner ? "matched" : "ambiguous";
+  }
+
+  return { entry, status, candidates };
+}
+
+/**
+ * Подбор треков для всех записей. Поиск идёт несколькими параллельными запросами,
+ * чтобы не упираться в лимиты каталога
+ */
+export async function matchImportEntries(
+  entries: ImportEntry[],
+  search: (query: string) => Promise<MusicTrack[]>,
+  concurrency = 4
+): Promise<ImportMatch[]> {
+  const results: ImportMatch[] = new Array(entries.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      const entry = entries[index];
+      const found = await search(buildImportQuery(entry)).catch(() => []);
+      results[index] = matchImportEntry(entry, found);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, entries.length) }, worker));
+  return results;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { mergePlaylistOrder } from "./playlistOrder";
+
+describe("mergePlaylistOrder", () => {
+  it("applies the requested order when nothing changed", () => {
+    expect(mergePlaylistOrder([1, 2, 3], [3, 1, 2])).toEqual([3, 1, 2]);
+  });
+
+  it("drops tracks removed concurrently", () => {
+    expect(mergePlaylistOrder([1, 3], [3, 2, 1])).toEqual([3, 1]);
+  });
+
+  it("keeps tracks added concurrently at their position", () => {
+    expect(mergePlaylistOrder([1, 2, 3, 4], [2, 1, 3])).toEqual([2, 1, 3, 4]);
+    expect(mergePlaylistOrder([5, 1, 2], [2, 1])).toEqual([5, 2, 1]);
+  });
+
+  it("counts duplicates separately", () => {
+    expect(mergePlaylistOrder([1, 2, 1], [2, 1, 1, 1])).toEqual([2, 1, 1]);
+    expect(mergePlaylistOrder([1, 2, 1], [1, 2])).toEqual([1, 2, 1]);
+  });
+});
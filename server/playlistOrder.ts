@@ -0,0 +1,38 @@
+/**
+ * Слияние порядка треков плейлиста, присланного клиентом, с текущим порядком в БД.
+ *
+ * Клиент мог работать со старой версией плейлиста: пока он перетаскивал треки,
+ * в другой вкладке что-то добавили или удалили. Поэтому:
+ * - треки, которых уже нет в плейлисте, отбрасываются;
+ * - треки, о которых клиент не знал, остаются на своей текущей позиции
+ *   (новые добавляются в конец, так что обычно это конец списка).
+ * Повторы одного трека учитываются поштучно.
+ */
+export function mergePlaylistOrder(current: number[], requested: number[]): number[] {
+  const available = new Map<number, number>();
+  for (const id of current) {
+    available.set(id, (available.get(id) ?? 0) + 1);
+  }
+
+  const result: number[] = [];
+  const matched = new Map<number, number>();
+  for (const id of requested) {
+    const left = available.get(id) ?? 0;
+    if (left === 0) continue;
+    available.set(id, left - 1);
+    matched.set(id, (matched.get(id) ?? 0) + 1);
+    result.push(id);
+  }
+
+  // Первые вхождения уже расставлены клиентом, остальные вставляем по старому индексу
+  const seen = new Map<number, number>();
+  current.forEach((id, index) => {
+    const occurrence = (seen.get(id) ?? 0) + 1;
+    seen.set(id, occurrence);
+    if (occurrence > (matched.get(id) ?? 0)) {
+      result.splice(Math.min(index, result.length), 0, id);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,69 @@
+import { isLocalLibraryEnabled } from "../localLibrary";
+import { localProvider } from "./local";
+import { soundcloudProvider } from "./soundcloud";
+import type { MusicProvider } from "./types";
+
+export type {
+  MusicArtist,
+  MusicPage,
+  MusicProvider,
+  MusicPlaylist,
+  MusicTrack,
+  ResolvedStream,
+  StreamOptions,
+  TrackLicense,
+  TrackSearchFilters,
+  TrackSearchOptions,
+  TrackSearchSort,
+} from "./types";
+
+export const DEFAULT_PROVIDER_ID = soundcloudProvider.id;
+
+const providers = new Map<string, MusicProvider>([[soundcloudProvider.id, soundcloudProvider]]);
+
+if (isLocalLibraryEnabled()) {
+  providers.set(localProvider.id, localProvider);
+}
+
+export function registerProvider(provider: MusicProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function hasProvider(providerId: string): boolean {
+  return providers.has(providerId);
+}
+
+export function getProvider(providerId: string = DEFAULT_PROVIDER_ID): MusicProvider {
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`Unknown music provider: ${providerId}`);
+  }
+  return provider;
+}
+
+export function listProviders(): { id: string; displayName: string }[] {
+  return Array.from(providers.values()).map(p => ({ id: p.id, displayName: p.displayName }));
+}
+
+// ============ Provider-qualified IDs ============
+
+export interface TrackRef {
+  provider: string;
+  externalId: string;
+}
+
+/**
+ * "local:42" -> { provider: "local", externalId: "42" }.
+ * Id без префикса - трек SoundCloud (так хранились все треки до появления провайдеров)
+ */
+export function parseTrackRef(ref: string): TrackRef {
+  const separator = ref.indexOf(":");
+  if (separator <= 0) {
+    return { provider: DEFAULT_PROVIDER_ID, externalId: ref };
+  }
+  return { provider: ref.slice(0, separator), externalId: ref.slice(separator + 1) };
+}
+
+export function formatTrackRef(provider: string, externalId: string | number): string {
+  return provider === DEFAULT_PROVIDER_ID ? String(externalId) : `${provider}:${externalId}`;
+}
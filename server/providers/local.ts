@@ -0,0 +1,57 @@
+import * as db from "../db";
+import { LOCAL_PROVIDER_ID, resolveLibraryPath, toLocalMusicTrack } from "../localLibrary";
+import type { MusicProvider } from "./types";
+
+async function getEntry(trackId: string): Promise<db.LocalLibraryEntry> {
+  const fileId = Number.parseInt(trackId, 10);
+  const entry = Number.isFinite(fileId) ? await db.getLocalLibraryEntry(fileId) : undefined;
+  if (!entry) {
+    throw new Error("Track not found");
+  }
+  return entry;
+}
+
+export const localProvider: MusicProvider = {
+  id: LOCAL_PROVIDER_ID,
+  displayName: "Медиатека",
+
+  searchTracks: async (query, limit) => {
+    const entries = await db.searchLocalLibrary(query, limit);
+    return entries.map(toLocalMusicTrack);
+  },
+
+  // Курсор - смещение в выдаче
+  searchTracksPage: async (query, { limit, cursor, filters, sort }) => {
+    const offset = cursor ? Number.parseInt(cursor, 10) || 0 : 0;
+    // Берём на одну запись больше, чтобы понять, есть ли следующая страница
+    const entries = await db.searchLocalLibraryPage(query, { limit: limit + 1, offset, filters, sort });
+    return {
+      collection: entries.slice(0, limit).map(toLocalMusicTrack),
+      nextCursor: entries.length > limit ? String(offset + limit) : null,
+    };
+  },
+
+  // Плейлистов у локальной медиатеки нет
+  searchPlaylists: async () => [],
+
+  getTrack: async (trackId) => toLocalMusicTrack(await getEntry(trackId)),
+
+  getRelatedTracks: async (trackId, limit) => {
+    const { file, track } = await getEntry(trackId);
+    const entries = await db.getLocalLibraryRelated(file.id, track.artist, track.genre, limit);
+    return entries.map(toLocalMusicTrack);
+  },
+
+  getPlaylist: async () => {
+    throw new Error("Playlists are not supported by the local library");
+  },
+
+  resolveStream: async (trackId) => {
+    const { file } = await getEntry(trackId);
+    return {
+      url: resolveLibraryPath(file.path),
+      protocol: "file",
+      mimeType: file.mimeType,
+    };
+  },
+};
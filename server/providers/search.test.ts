@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { matchesTrackFilters, pickTopResult, sortTracks } from "./search";
+import type { MusicArtist, MusicPlaylist, MusicTrack } from "./types";
+
+function track(id: number, duration: number, createdAt: string, plays = 0): MusicTrack {
+  return {
+    id,
+    title: `Track ${id}`,
+    duration,
+    artwork_url: null,
+    permalink_url: "",
+    genre: null,
+    user: { id: 1, username: "artist", avatar_url: null },
+    playback_count: plays,
+    created_at: createdAt,
+  };
+}
+
+describe("matchesTrackFilters", () => {
+  const t = track(1, 180_000, "2024-06-01T12:00:00Z");
+
+  it("passes everything without filters", () => {
+    expect(matchesTrackFilters(t)).toBe(true);
+  });
+
+  it("checks duration bounds inclusively", () => {
+    expect(matchesTrackFilters(t, { minDuration: 180_000, maxDuration: 180_000 })).toBe(true);
+    expect(matchesTrackFilters(t, { minDuration: 181_000 })).toBe(false);
+    expect(matchesTrackFilters(t, { maxDuration: 120_000 })).toBe(false);
+  });
+
+  it("checks created-at range", () => {
+    expect(matchesTrackFilters(t, { createdFrom: new Date("2024-01-01") })).toBe(true);
+    expect(matchesTrackFilters(t, { createdFrom: new Date("2024-07-01") })).toBe(false);
+    expect(matchesTrackFilters(t, { createdTo: new Date("2024-05-01") })).toBe(false);
+    expect(matchesTrackFilters(track(2, 1, "not a date"), { createdTo: new Date() })).toBe(false);
+  });
+});
+
+describe("sortTracks", () => {
+  const tracks = [
+    track(1, 300_000, "2023-01-01T00:00:00Z", 10),
+    track(2, 100_000, "2024-01-01T00:00:00Z", 500),
+    track(3, 200_000, "2022-01-01T00:00:00Z", 50),
+  ];
+  const ids = (list: MusicTrack[]) => list.map(t => t.id);
+
+  it("keeps catalog order for relevance", () => {
+    expect(ids(sortTracks(tracks))).toEqual([1, 2, 3]);
+  });
+
+  it("sorts by date, popularity and duration", () => {
+    expect(ids(sortTracks(tracks, "newest"))).toEqual([2, 1, 3]);
+    expect(ids(sortTracks(tracks, "oldest"))).toEqual([3, 1, 2]);
+    expect(ids(sortTracks(tracks, "popular"))).toEqual([2, 3, 1]);
+    expect(ids(sortTracks(tracks, "longest"))).toEqual([1, 3, 2]);
+    expect(ids(sortTracks(tracks, "shortest"))).toEqual([2, 3, 1]);
+  });
+});
+
+describe("pickTopResult", () => {
+  const tracks = [track(1, 1000, "2024-01-01T00:00:00Z"), { ...track(2, 1000, "2024-01-01T00:00:00Z"), title: "Essential Mix" }];
+  const playlist = { id: 10, title: "Essential Mix" } as MusicPlaylist;
+  const artist = { id: 20, username: "Bicep", full_name: null } as MusicArtist;
+
+  it("prefers an exact artist match", () => {
+    expect(pickTopResult(" bicep ", { tracks, playlists: [playlist], artists: [artist] })).toEqual({ kind: "artist", artist });
+  });
+
+  it("falls back to exact playlist, then exact track title", () => {
+    expect(pickTopResult("essential mix", { tracks, playlists: [playlist], artists: [artist] })?.kind).toBe("playlist");
+    expect(pickTopResult("essential mix", { tracks, playlists: [], artists: [] })).toEqual({ kind: "track", track: tracks[1] });
+  });
+
+  it("uses the first track when nothing matches exactly", () => {
+    expect(pickTopResult("house", { tracks, playlists: [playlist], artists: [artist] })).toEqual({ kind: "track", track: tracks[0] });
+    expect(pickTopResult("house", { tracks: [], playlists: [], artists: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import type { MusicArtist, MusicPlaylist, MusicTrack, TrackSearchFilters } from "./types";
+
+export { sortTracks } from "@shared/trackSort";
+
+/**
+ * Точная проверка фильтров, которые каталог не умеет применять сам
+ * (у SoundCloud для длительности и даты есть только грубые корзины)
+ */
+export function matchesTrackFilters(track: MusicTrack, filters: TrackSearchFilters = {}): boolean {
+  if (filters.minDuration !== undefined && track.duration < filters.minDuration) return false;
+  if (filters.maxDuration !== undefined && track.duration > filters.maxDuration) return false;
+
+  if (filters.createdFrom || filters.createdTo) {
+    const createdAt = new Date(track.created_at).getTime();
+    if (!Number.isFinite(createdAt)) return false;
+    if (filters.createdFrom && createdAt < filters.createdFrom.getTime()) return false;
+    if (filters.createdTo && createdAt > filters.createdTo.getTime()) return false;
+  }
+
+  return true;
+}
+
+export type TopSearchResult =
+  | { kind: "track"; track: MusicTrack }
+  | { kind: "playlist"; playlist: MusicPlaylist }
+  | { kind: "artist"; artist: MusicArtist };
+
+const normalize = (value: string | null | undefined) => (value ?? "").trim().toLowerCase();
+
+/**
+ * «Лучший результат» сводного поиска: точное совпадение имени исполнителя,
+ * затем названия плейлиста, затем трека; иначе - первый трек выдачи
+ */
+export function pickTopResult(
+  query: string,
+  results: { tracks: MusicTrack[]; playlists: MusicPlaylist[]; artists: MusicArtist[] }
+): TopSearchResult | null {
+  const q = normalize(query);
+
+  const artist = results.artists.find(a => normalize(a.username) === q || normalize(a.full_name) === q);
+  if (artist) return { kind: "artist", artist };
+
+  const playlist = results.playlists.find(p => normalize(p.title) === q);
+  if (playlist) return { kind: "playlist", playlist };
+
+  const track = results.tracks.find(
+    t => normalize(t.title) === q || normalize(`${t.user.username} - ${t.title}`) === q
+  );
+  if (track) return { kind: "track", track };
+
+  if (results.tracks[0]) return { kind: "track", track: results.tracks[0] };
+  if (results.playlists[0]) return { kind: "playlist", playlist: results.playlists[0] };
+  if (results.artists[0]) return { kind: "artist", artist: results.artists[0] };
+  return null;
+}
@@ -0,0 +1,57 @@
+import * as soundcloud from "../soundcloud";
+import { matchesTrackFilters, sortTracks } from "./search";
+import type { MusicProvider, MusicTrack } from "./types";
+
+// Сколько страниц SoundCloud подгружаем за один запрос, если фильтры отсеяли почти всё
+const MAX_SEARCH_PAGES = 3;
+
+function toNumericId(id: string): number {
+  const value = Number.parseInt(id, 10);
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid SoundCloud id: ${id}`);
+  }
+  return value;
+}
+
+export const soundcloudProvider: MusicProvider = {
+  id: "soundcloud",
+  displayName: "SoundCloud",
+
+  searchTracks: (query, limit) => soundcloud.searchTracks(query, limit),
+
+  searchTracksPage: async (query, { limit, cursor, filters = {}, sort }) => {
+    const collection: MusicTrack[] = [];
+    let nextCursor = cursor ?? null;
+
+    for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+      const result = await soundcloud.searchTracksPage(query, {
+        limit,
+        cursor: nextCursor,
+        genre: filters.genre,
+        license: filters.license,
+      });
+      collection.push(...result.collection.filter(track => matchesTrackFilters(track, filters)));
+      nextCursor = result.nextCursor;
+      if (!nextCursor || collection.length >= limit) break;
+    }
+
+    return { collection: sortTracks(collection, sort), nextCursor };
+  },
+
+  searchPlaylists: (query, limit) => soundcloud.searchPlaylists(query, limit),
+  getTrack: (trackId) => soundcloud.getTrack(toNumericId(trackId)),
+  getRelatedTracks: (trackId, limit) => soundcloud.getRelatedTracks(toNumericId(trackId), limit),
+  getPlaylist: (playlistId) => soundcloud.getPlaylist(toNumericId(playlistId)),
+
+  resolveStream: (trackId, options) => {
+    const id = toNumericId(trackId);
+    if (options?.forceRefresh) soundcloud.invalidateStreamUrl(id);
+    return soundcloud.getStream(id, options?.transcodings);
+  },
+
+  searchArtists: (query, limit) => soundcloud.searchUsers(query, limit),
+  getArtist: (artistId) => soundcloud.getUser(toNumericId(artistId)),
+  getArtistTracks: (artistId, limit, cursor) => soundcloud.getUserTracks(toNumericId(artistId), limit, cursor),
+  getArtistPlaylists: (artistId, limit, cursor) =>
+    soundcloud.getUserPlaylists(toNumericId(artistId), limit, cursor),
+};
@@ -0,0 +1,85 @@
+import type {
+  SoundCloudPage,
+  SoundCloudPlaylistV2,
+  SoundCloudUserV2,
+  SoundCloudTrackV2,
+  SoundCloudTranscoding,
+} from "../soundcloud";
+import type { TrackSearchSort } from "@shared/trackSort";
+
+/**
+ * Откуда брать аудио: progressive - файл по URL, hls - плейлист сегментов,
+ * file - путь к файлу на диске сервера
+ */
+export interface ResolvedStream {
+  url: string;
+  protocol: "progressive" | "hls" | "file";
+  mimeType: string;
+}
+
+/**
+ * Трек в общем формате приложения (исторически совпадает с SoundCloud V2).
+ * id уникален в пределах провайдера; provider не задан - значит SoundCloud.
+ */
+export type MusicTrack = SoundCloudTrackV2 & { provider?: string };
+
+export type MusicPlaylist = Omit<SoundCloudPlaylistV2, "tracks"> & {
+  provider?: string;
+  tracks: MusicTrack[];
+};
+
+export type MusicArtist = SoundCloudUserV2 & { provider?: string };
+
+// Страница коллекции; nextCursor непрозрачен для клиента
+export type MusicPage<T> = Omit<SoundCloudPage<T>, "collection"> & { collection: T[] };
+
+export type TrackLicense = "to_share" | "to_use_commercially" | "to_modify_commercially";
+
+export type { TrackSearchSort };
+
+// Длительность в миллисекундах, границы включительно
+export interface TrackSearchFilters {
+  genre?: string;
+  minDuration?: number;
+  maxDuration?: number;
+  createdFrom?: Date;
+  createdTo?: Date;
+  license?: TrackLicense;
+}
+
+export interface TrackSearchOptions {
+  limit: number;
+  cursor?: string | null;
+  filters?: TrackSearchFilters;
+  sort?: TrackSearchSort;
+}
+
+export interface StreamOptions {
+  // Закэшированная ссылка протухла - резолвим заново
+  forceRefresh?: boolean;
+  // Подсказка от клиента, чтобы не запрашивать трек целиком (SoundCloud)
+  transcodings?: SoundCloudTranscoding[];
+}
+
+/**
+ * Каталог музыки. Все id здесь - id внутри провайдера (без префикса).
+ */
+export interface MusicProvider {
+  readonly id: string;
+  readonly displayName: string;
+
+  searchTracks(query: string, limit: number): Promise<MusicTrack[]>;
+  // Постраничный поиск с фильтрами; курсор непрозрачен и годится только для того же запроса
+  searchTracksPage(query: string, options: TrackSearchOptions): Promise<MusicPage<MusicTrack>>;
+  searchPlaylists(query: string, limit: number): Promise<MusicPlaylist[]>;
+  getTrack(trackId: string): Promise<MusicTrack>;
+  getRelatedTracks(trackId: string, limit: number): Promise<MusicTrack[]>;
+  getPlaylist(playlistId: string): Promise<MusicPlaylist>;
+  resolveStream(trackId: string, options?: StreamOptions): Promise<ResolvedStream>;
+
+  // Страницы исполнителей есть не у всех каталогов
+  searchArtists?(query: string, limit: number): Promise<MusicArtist[]>;
+  getArtist?(artistId: string): Promise<MusicArtist>;
+  getArtistTracks?(artistId: string, limit: number, cursor?: string | null): Promise<MusicPage<MusicTrack>>;
+  getArtistPlaylists?(artistId: string, limit: number, cursor?: string | null): Promise<MusicPage<MusicPlaylist>>;
+}
@@ -1,19 +1,58 @@
-import { getRelatedTracks, searchTracks, SoundCloudTrackV2 } from './soundcloud';
-import { getUserDislikedSoundcloudIds, getUserListeningHistory, getUserTrackPreferencesDetailed } from './db';
+import { DEFAULT_PROVIDER_ID, formatTrackRef, getProvider, hasProvider, MusicTrack, parseTrackRef } from './providers';
+import {
+  addTracksToPlaylist,
+  createPlaylist,
+  getHomeMixById,
+  getHomeMixesSince,
+  getLatestHomeMixes,
+  getSimilarTracks,
+  getUserDislikedTrackRefs,
+  getUserListeningHistory,
+  getUserTrackPreferencesDetailed,
+  insertHomeMixGeneration,
+  pruneHomeMixes,
+  upsertTrack,
+} from './db';
+import type { HomeMix, InsertTrack, Playlist, Track } from '../drizzle/schema';
+import { LOCAL_PROVIDER_ID } from './localLibrary';
+import type { RecommendationReason, TrackRecommendation } from '@shared/recommendationReason';
+
+// Трек микса с объяснением, откуда он взялся
+export type RecommendedTrack = MusicTrack & { recommendation?: TrackRecommendation };
 
 export interface RecommendedPlaylist {
   id: string;
   title: string;
   description?: string;
-  tracks: SoundCloudTrackV2[];
+  tracks: RecommendedTrack[];
+  // Есть у миксов, сохранённых в БД: по mixId микс можно сохранить как плейлист
+  mixId?: number;
+  generatedAt?: Date;
 }
 
-const HOME_FEED_TTL_MS = 2 * 60 * 1000; // Уменьшено до 2 минут для более частого обновления
-const homeFeedCache = new Map<number, { 
-  expires: number; 
-  data: RecommendedPlaylist[];
-  shownTrackIds: Set<number>; // Треки, которые уже были показаны
-}>();
+// Миксы одного прошлого запуска генератора
+export interface PastHomeFeed {
+  generation: number;
+  generatedAt: Date;
+  mixes: RecommendedPlaylist[];
+}
+
+// Чаще не пересобираем даже по кнопке «Обновить» (повторный запрос, фокус окна)
+const HOME_FEED_MIN_REFRESH_MS = 2 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Хранение поколений миксов: не дольше 30 дней и не больше 60 последних
+const HOME_MIX_RETENTION_MS = 30 * DAY_MS;
+const HOME_MIX_MAX_GENERATIONS = 60;
+
+// День поколения миксов (UTC): в сутки хранится одно поколение
+function mixDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Ключ трека для дедупликации: id разных провайдеров могут совпадать
+export function trackKey(track: MusicTrack): string {
+  return formatTrackRef(track.provider ?? DEFAULT_PROVIDER_ID, track.id);
+}
 
 function timeDecayFactor(date: Date, halfLifeDays: number = 14): number {
   const ageDays = (Date.now() - date.getTime()) / (1000 * 60 * 60 * 24);
@@ -29,9 +68,9 @@ function pushScore(map: Map<string, number>, key: string | null | undefined, add
   map.set(k, (map.get(k) ?? 0) + add);
 }
 
-function diversifyByArtist(tracks: SoundCloudTrackV2[], maxPerArtist: number): SoundCloudTrackV2[] {
+function diversifyByArtist<T extends MusicTrack>(tracks: T[], maxPerArtist: number): T[] {
   const counts = new Map<string, number>();
-  const out: SoundCloudTrackV2[] = [];
+  const out: T[] = [];
 
   for (const t of tracks) {
     const artist = t.user?.username ?? "unknown";
@@ -44,28 +83,46 @@ function diversifyByArtist(tracks: SoundCloudTrackV2[], maxPerArtist: number): S
   return out;
 }
 
-function filterAndDedupeTracks(options: {
-  tracks: SoundCloudTrackV2[];
-  excludeIds: Set<number>;
-  dislikedIds: Set<number>;
+export function filterAndDedupeTracks<T extends MusicTrack>(options: {
+  tracks: T[];
+  excludeIds: Set<string>;
+  dislikedIds: Set<string>;
   maxPerArtist: number;
   limit: number;
-}): SoundCloudTrackV2[] {
-  const seen = new Set<number>();
-  const filtered: SoundCloudTrackV2[] = [];
+}): T[] {
+  const seen = new Set<string>();
+  const filtered: T[] = [];
 
   for (const t of options.tracks) {
     if (!t || typeof t.id !== "number") continue;
-    if (options.dislikedIds.has(t.id)) continue;
-    if (options.excludeIds.has(t.id)) continue;
-    if (seen.has(t.id)) continue;
-    seen.add(t.id);
+    const key = trackKey(t);
+    if (options.dislikedIds.has(key)) continue;
+    if (options.excludeIds.has(key)) continue;
+    if (seen.has(key)) continue;
+    seen.add(key);
     filtered.push(t);
   }
 
   return diversifyByArtist(filtered, options.maxPerArtist).slice(0, options.limit);
 }
 
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Помечает выдачу одного источника причиной рекомендации.
+ * rank - место трека в исходной выдаче, до фильтрации и дедупликации
+ */
+export function withRecommendation(
+  tracks: MusicTrack[],
+  reason: RecommendationReason,
+  breakdown: Record<string, number> = {}
+): RecommendedTrack[] {
+  return tracks.map((track, index) => ({
+    ...track,
+    recommendation: { reason, breakdown: { ...breakdown, rank: index + 1 } },
+  }));
+}
+
 /**
  * Взвешенный случайный выбор из массива кандидатов
  * Использует веса для вероятности выбора, но добавляет случайность
@@ -131,35 +188,88 @@ function weightedRandomSelect<T extends { score: number }>(
   return selected;
 }
 
+function parseMixTracks(mix: HomeMix): RecommendedTrack[] {
+  return JSON.parse(mix.tracks) as RecommendedTrack[];
+}
+
+function toRecommendedPlaylist(mix: HomeMix): RecommendedPlaylist {
+  return {
+    id: mix.mixKey,
+    title: mix.title,
+    description: mix.description ?? undefined,
+    tracks: parseMixTracks(mix),
+    mixId: mix.id,
+    generatedAt: mix.generatedAt,
+  };
+}
+
+/**
+ * Сохраняет результат генерации и чистит старые поколения.
+ * replaceGeneration - сегодняшнее поколение, которое пересобрали по кнопке: заменяем его,
+ * а не копим новые. Без БД лента всё равно показывается, просто не переживёт перезапуск
+ */
+async function persistHomeFeed(
+  userId: number,
+  playlists: RecommendedPlaylist[],
+  replaceGeneration?: number
+): Promise<RecommendedPlaylist[]> {
+  if (playlists.length === 0) return playlists;
+  try {
+    const stored = await insertHomeMixGeneration(
+      userId,
+      playlists.map(p => ({
+        mixKey: p.id.slice(0, 255),
+        title: p.title.slice(0, 255),
+        description: p.description ?? null,
+        tracks: JSON.stringify(p.tracks),
+      })),
+      replaceGeneration
+    );
+    await pruneHomeMixes(
+      userId,
+      new Date(Date.now() - HOME_MIX_RETENTION_MS),
+      stored[0].generation - HOME_MIX_MAX_GENERATIONS
+    );
+    return stored.map(toRecommendedPlaylist);
+  } catch (error) {
+    console.error('[Recommendations] Failed to persist home feed:', error instanceof Error ? error.message : error);
+    return playlists;
+  }
+}
+
 /**
  * Генерация главной страницы с плейлистами (Home Feed)
  * Создает минимум 4 плейлиста по 25-30 треков.
+ * Результат хранится в БД: сама лента обновляется раз в день, по кнопке - не чаще
+ * раза в пару минут, и пересборка в тот же день заменяет сегодняшнее поколение
  */
 export async function generateHomeFeed(
   userId: number,
   forceRefresh: boolean = false
 ): Promise<RecommendedPlaylist[]> {
-  const cached = homeFeedCache.get(userId);
-  if (!forceRefresh && cached && cached.expires > Date.now()) {
-    return cached.data;
+  const latest = await getLatestHomeMixes(userId);
+  const latestAt = latest[0]?.generatedAt;
+  const today = mixDay(new Date());
+  if (latestAt) {
+    const isFresh = latestAt.getTime() + HOME_FEED_MIN_REFRESH_MS > Date.now();
+    if (isFresh || (!forceRefresh && mixDay(latestAt) === today)) {
+      return latest.map(toRecommendedPlaylist);
+    }
   }
+  const replaceGeneration = latestAt && mixDay(latestAt) === today ? latest[0].generation : undefined;
 
-  // Получаем уже показанные треки из предыдущего кэша для исключения
-  const previouslyShown = cached?.shownTrackIds ?? new Set<number>();
+  // Треки прошлого поколения исключаем, чтобы лента не повторялась
+  const previouslyShown = new Set<string>(latest.flatMap(mix => parseMixTracks(mix).map(trackKey)));
 
   try {
     // 1) Данные пользователя: лайки/дизлайки + история с playDuration
-    const [prefs, history, dislikedSoundcloudIds] = await Promise.all([
+    const [prefs, history, dislikedRefs] = await Promise.all([
       getUserTrackPreferencesDetailed(userId, 200),
       getUserListeningHistory(userId, 50),
-      getUserDislikedSoundcloudIds(userId, 500),
+      getUserDislikedTrackRefs(userId, 500),
     ]);
 
-    const dislikedIds = new Set<number>(
-      dislikedSoundcloudIds
-        .map(s => Number.parseInt(s, 10))
-        .filter(n => Number.isFinite(n))
-    );
+    const dislikedIds = new Set<string>(dislikedRefs.map(r => formatTrackRef(r.provider, r.externalId)));
 
     const liked = prefs.filter(p => p.preference === "like");
 
@@ -205,14 +315,15 @@ export async function generateHomeFeed(
     ).map(a => a.artist);
 
     // 3) Выбор seed треков (взвешенно)
-    type Seed = { soundcloudId: number; title: string; reason: string; score: number };
+    // Seed может быть из любого подключённого каталога (SoundCloud, медиатека...)
+    type Seed = { provider: string; externalId: string; title: string; reason: "like" | "history"; score: number };
     const candidates: Seed[] = [];
 
     for (const p of liked) {
-      const scId = Number.parseInt(p.track.soundcloudId, 10);
-      if (!Number.isFinite(scId)) continue;
+      if (!hasProvider(p.track.provider)) continue;
       candidates.push({
-        soundcloudId: scId,
+        provider: p.track.provider,
+        externalId: p.track.soundcloudId,
         title: p.track.title,
         reason: "like",
         score: 5 * timeDecayFactor(p.createdAt, 21),
@@ -220,12 +331,12 @@ export async function generateHomeFeed(
     }
 
     for (const h of history) {
-      const scId = Number.parseInt(h.track.soundcloudId, 10);
-      if (!Number.isFinite(scId)) continue;
+      if (!hasProvider(h.track.provider)) continue;
       const playedMs = h.playDuration ?? 0;
       const completion = h.track.duration > 0 ? Math.max(0, Math.min(1, playedMs / h.track.duration)) : 0;
       candidates.push({
-        soundcloudId: scId,
+        provider: h.track.provider,
+        externalId: h.track.soundcloudId,
         title: h.track.title,
         reason: "history",
         score: 3 * completion * timeDecayFactor(h.playedAt, 10),
@@ -235,7 +346,7 @@ export async function generateHomeFeed(
     // Взвешенный случайный выбор seed треков для разнообразия
     // Берем из топ-10 кандидатов, выбираем 3 случайно с учетом весов
     const validCandidates = candidates
-      .filter(c => !dislikedIds.has(c.soundcloudId))
+      .filter(c => !dislikedIds.has(formatTrackRef(c.provider, c.externalId)))
       .sort((a, b) => b.score - a.score)
       .slice(0, 10); // Рассматриваем топ-10
 
@@ -246,7 +357,7 @@ export async function generateHomeFeed(
     );
 
     const playlists: RecommendedPlaylist[] = [];
-    const usedGlobal = new Set<number>(); // SoundCloud track ids across all playlists
+    const usedGlobal = new Set<string>(); // track keys across all playlists
     // Добавляем ранее показанные треки в исключения
     for (const id of previouslyShown) {
       usedGlobal.add(id);
@@ -255,24 +366,28 @@ export async function generateHomeFeed(
     const pushPlaylist = (p: RecommendedPlaylist) => {
       if (p.tracks.length < 12) return;
       playlists.push(p);
-      for (const t of p.tracks) usedGlobal.add(t.id);
+      for (const t of p.tracks) usedGlobal.add(trackKey(t));
     };
 
     // 4) Плейлисты по seed (related) — параллельно
     const relatedLists = await Promise.all(
       seeds.map(async (s) => {
         try {
-          const related = await getRelatedTracks(s.soundcloudId, 40);
+          const related = await getProvider(s.provider).getRelatedTracks(s.externalId, 40);
           return { seed: s, related };
         } catch {
-          return { seed: s, related: [] as SoundCloudTrackV2[] };
+          return { seed: s, related: [] as MusicTrack[] };
         }
       })
     );
 
     for (const { seed, related } of relatedLists) {
       const filtered = filterAndDedupeTracks({
-        tracks: related,
+        tracks: withRecommendation(
+          related,
+          { type: "seed", seedTitle: seed.title, source: seed.reason },
+          { seedWeight: round(seed.score) }
+        ),
         excludeIds: usedGlobal,
         dislikedIds,
         maxPerArtist: 2,
@@ -285,20 +400,90 @@ export async function generateHomeFeed(
           : `Продолжайте слушать «${seed.title}»`;
 
       pushPlaylist({
-        id: `mix-seed-${seed.reason}-${seed.soundcloudId}`,
+        id: `mix-seed-${seed.reason}-${formatTrackRef(seed.provider, seed.externalId)}`,
         title,
         description: "Подборка по вашему вкусу",
         tracks: filtered,
       });
     }
 
+    // 4.1) Коллаборативная подборка: что слушают люди с похожим вкусом
+    try {
+      const seedTrackIds = Array.from(new Set([...liked.map(p => p.track.id), ...history.map(h => h.track.id)]));
+      const similar = await getSimilarTracks(seedTrackIds, 60);
+      pushPlaylist({
+        id: "mix-similar-listeners",
+        title: "Слушатели с похожим вкусом также слушали",
+        description: "По лайкам и прослушиваниям других пользователей",
+        tracks: filterAndDedupeTracks({
+          tracks: similar
+            .filter(s => hasProvider(s.track.provider))
+            .flatMap((s, index): RecommendedTrack[] => {
+              const track = toMusicTrack(s.track);
+              if (!track) return [];
+              return [{
+                ...track,
+                recommendation: {
+                  reason: { type: "collaborative" },
+                  breakdown: { similarity: round(s.score), rank: index + 1 },
+                },
+              }];
+            }),
+          excludeIds: usedGlobal,
+          dislikedIds,
+          maxPerArtist: 2,
+          limit: 30,
+        }),
+      });
+    } catch {
+      // ignore
+    }
+
+    // 4.2) Подборка из локальной медиатеки (если она подключена)
+    if (hasProvider(LOCAL_PROVIDER_ID)) {
+      try {
+        const localTracks = await getProvider(LOCAL_PROVIDER_ID).searchTracks("", 200);
+        const genreSet = new Set(selectedGenres.map(g => g.toLowerCase()));
+        // Треки любимых жанров - вперёд, остальные перемешиваем
+        const ranked = [...localTracks]
+          .map(t => {
+            const genreMatch = !!t.genre && genreSet.has(t.genre.toLowerCase());
+            return { t, genreMatch, score: (genreMatch ? 1 : 0) + Math.random() };
+          })
+          .sort((a, b) => b.score - a.score)
+          .map(({ t, genreMatch }, index): RecommendedTrack => ({
+            ...t,
+            recommendation: {
+              reason: genreMatch && t.genre
+                ? { type: "genre", genre: t.genre }
+                : { type: "fallback", source: "Из вашей медиатеки" },
+              breakdown: { genreMatch: genreMatch ? 1 : 0, rank: index + 1 },
+            },
+          }));
+        pushPlaylist({
+          id: "mix-local-library",
+          title: "Из вашей медиатеки",
+          description: "Треки с вашего сервера",
+          tracks: filterAndDedupeTracks({
+            tracks: ranked,
+            excludeIds: usedGlobal,
+            dislikedIds,
+            maxPerArtist: 3,
+            limit: 30,
+          }),
+        });
+      } catch {
+        // ignore
+      }
+    }
+
     // 5) Жанровые подборки под пользователя
     for (const g of selectedGenres) {
       if (playlists.length >= 5) break;
       try {
-        const tracks = await searchTracks(g, 40);
+        const tracks = await getProvider().searchTracks(g, 40);
         const filtered = filterAndDedupeTracks({
-          tracks,
+          tracks: withRecommendation(tracks, { type: "genre", genre: g }, { genreTaste: round(genreScores.get(g) ?? 0) }),
           excludeIds: usedGlobal,
           dislikedIds,
           maxPerArtist: 2,
@@ -319,9 +504,9 @@ export async function generateHomeFeed(
     for (const a of selectedArtists) {
       if (playlists.length >= 5) break;
       try {
-        const tracks = await searchTracks(a, 40);
+        const tracks = await getProvider().searchTracks(a, 40);
         const filtered = filterAndDedupeTracks({
-          tracks,
+          tracks: withRecommendation(tracks, { type: "artist", artist: a }, { artistTaste: round(artistScores.get(a) ?? 0) }),
           excludeIds: usedGlobal,
           dislikedIds,
           maxPerArtist: 3,
@@ -351,9 +536,9 @@ export async function generateHomeFeed(
     while (playlists.length < 4 && fallbackIndex < genreFallbacks.length) {
       const f = genreFallbacks[fallbackIndex];
       try {
-        const tracks = await searchTracks(f.q, 40);
+        const tracks = await getProvider().searchTracks(f.q, 40);
         const filtered = filterAndDedupeTracks({
-          tracks,
+          tracks: withRecommendation(tracks, { type: "fallback", source: f.title }),
           excludeIds: usedGlobal,
           dislikedIds,
           maxPerArtist: 2,
@@ -371,52 +556,112 @@ export async function generateHomeFeed(
       fallbackIndex++;
     }
 
-    // Собираем все показанные треки для следующей генерации
-    const shownTrackIds = new Set<number>();
-    for (const p of playlists) {
-      for (const t of p.tracks) {
-        shownTrackIds.add(t.id);
-      }
-    }
-
-    homeFeedCache.set(userId, { 
-      expires: Date.now() + HOME_FEED_TTL_MS, 
-      data: playlists,
-      shownTrackIds 
-    });
-    return playlists;
+    return await persistHomeFeed(userId, playlists, replaceGeneration);
   } catch (error) {
     console.error('Error generating home feed:', error);
     try {
-      const fallback = await searchTracks("Top 50", 30);
+      const fallback = await getProvider().searchTracks("Top 50", 30);
       const safe = filterAndDedupeTracks({
-        tracks: fallback,
-        excludeIds: new Set<number>(),
-        dislikedIds: new Set<number>(),
+        tracks: withRecommendation(fallback, { type: "fallback", source: "Топ треков" }),
+        excludeIds: new Set<string>(),
+        dislikedIds: new Set<string>(),
         maxPerArtist: 2,
         limit: 30,
       });
-      const data = [{ id: "fallback", title: "Топ треков", tracks: safe }];
-      const shownTrackIds = new Set(safe.map(t => t.id));
-      homeFeedCache.set(userId, { 
-        expires: Date.now() + HOME_FEED_TTL_MS, 
-        data,
-        shownTrackIds 
-      });
-      return data;
+      return await persistHomeFeed(userId, [{ id: "fallback", title: "Топ треков", tracks: safe }], replaceGeneration);
     } catch {
       return [];
     }
   }
 }
 
+/**
+ * Миксы прошлых дней: по одному (последнему) поколению на день, без текущего
+ */
+export async function getPastHomeFeeds(userId: number, days: number = 7): Promise<PastHomeFeed[]> {
+  const mixes = await getHomeMixesSince(userId, new Date(Date.now() - days * DAY_MS));
+
+  const feeds: PastHomeFeed[] = [];
+  for (const mix of mixes) {
+    const last = feeds[feeds.length - 1];
+    if (last?.generation === mix.generation) {
+      last.mixes.push(toRecommendedPlaylist(mix));
+    } else {
+      feeds.push({ generation: mix.generation, generatedAt: mix.generatedAt, mixes: [toRecommendedPlaylist(mix)] });
+    }
+  }
+
+  // Сегодняшнее поколение - то, что сейчас на главной. Если сегодня ленту ещё не собирали,
+  // вчерашняя - уже прошлая и в списке остаётся
+  const seenDays = new Set<string>([mixDay(new Date())]);
+  return feeds.filter(feed => {
+    const day = mixDay(feed.generatedAt);
+    if (seenDays.has(day)) return false;
+    seenDays.add(day);
+    return true;
+  });
+}
+
+function toInsertTrack(track: MusicTrack): InsertTrack {
+  return {
+    provider: track.provider ?? DEFAULT_PROVIDER_ID,
+    soundcloudId: String(track.id),
+    title: track.title,
+    artist: track.user?.username ?? "Unknown",
+    artworkUrl: track.artwork_url,
+    duration: track.duration,
+    permalinkUrl: track.permalink_url,
+    genre: track.genre,
+  };
+}
+
+// Обратное преобразование: трек из БД в формат провайдера (null - id не числовой)
+export function toMusicTrack(track: Track): MusicTrack | null {
+  const id = Number(track.soundcloudId);
+  if (!Number.isSafeInteger(id)) return null;
+  return {
+    id,
+    provider: track.provider,
+    title: track.title,
+    duration: track.duration,
+    artwork_url: track.artworkUrl,
+    permalink_url: track.permalinkUrl ?? "",
+    genre: track.genre,
+    user: { id: 0, username: track.artist, avatar_url: null },
+    created_at: track.createdAt.toISOString(),
+  };
+}
+
+// «Сохранить микс»: обычный приватный плейлист с треками микса
+export async function saveHomeMixAsPlaylist(userId: number, mixId: number): Promise<Playlist> {
+  const mix = await getHomeMixById(mixId);
+  if (!mix || mix.userId !== userId) {
+    throw new Error("Mix not found");
+  }
+
+  const playlist = await createPlaylist({
+    userId,
+    name: mix.title,
+    description: mix.description,
+    isPublic: false,
+  });
+
+  const trackIds: number[] = [];
+  for (const track of parseMixTracks(mix)) {
+    trackIds.push((await upsertTrack(toInsertTrack(track))).id);
+  }
+  await addTracksToPlaylist(playlist.id, Array.from(new Set(trackIds)), userId);
+  return playlist;
+}
+
 // Оставляем старые функции для совместимости (если они используются где-то еще)
 export async function getTrackBasedRecommendations(
   trackId: string,
   limit: number = 10
-): Promise<SoundCloudTrackV2[]> {
+): Promise<MusicTrack[]> {
   try {
-    return await getRelatedTracks(parseInt(trackId), limit);
+    const { provider, externalId } = parseTrackRef(trackId);
+    return await getProvider(provider).getRelatedTracks(externalId, limit);
   } catch (error) {
     return [];
   }
@@ -1,16 +1,137 @@
 import { z } from "zod";
-import { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+import { COOKIE_NAME, ONE_YEAR_MS, UNAUTHED_ERR_MSG } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
-import * as soundcloud from "./soundcloud";
+import { adminProcedure, publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
 import * as youtube from "./youtube";
-import { generateHomeFeed, getTrackBasedRecommendations } from "./recommendations";
+import * as soundcloud from "./soundcloud";
+import { parseSoundCloudUrl } from "@shared/soundcloudUrl";
+import { streamProxyPath } from "./stream";
+import { DEFAULT_PROVIDER_ID, formatTrackRef, getProvider, listProviders, parseTrackRef } from "./providers";
+import type { MusicPage, MusicProvider, MusicTrack } from "./providers";
+import { pickTopResult } from "./providers/search";
+import { getLocalLibraryStatus, isLocalLibraryEnabled, LOCAL_PROVIDER_ID, scanLocalLibrary } from "./localLibrary";
+import { TRPCError } from "@trpc/server";
+import { generateHomeFeed, getPastHomeFeeds, getTrackBasedRecommendations, saveHomeMixAsPlaylist } from "./recommendations";
+import { getUserScheduledPlaylists } from "./scheduledPlaylists";
+import { requirePlaylistRole } from "./playlistAccess";
+import { deleteAccount, getAccountExportStatus, startAccountExport } from "./accountData";
+import { assertStaticPlaylist, getPlaylistTrackEntries, getSmartPlaylistTracks, parseSmartRules } from "./smartPlaylists";
+import { smartPlaylistRulesSchema } from "@shared/smartPlaylist";
+import {
+  detectPlaylistFormat,
+  matchImportEntries,
+  MAX_IMPORT_ENTRIES,
+  parsePlaylistFile,
+  takeImportSlot,
+} from "./playlistImport";
 import { sdk } from "./_core/sdk";
 import { nanoid } from "nanoid";
 import { eq } from "drizzle-orm"; 
-import { users } from "../drizzle/schema"; 
+import { users, type User } from "../drizzle/schema"; 
+
+const transcodingSchema = z.object({
+  url: z.string(),
+  preset: z.string(),
+  duration: z.number(),
+  snipped: z.boolean(),
+  format: z.object({
+    protocol: z.string(),
+    mime_type: z.string(),
+  }),
+  quality: z.string(),
+});
+
+// Трек в том виде, в каком его держит клиентский плеер
+const playerTrackSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  user: z.object({
+    id: z.number(),
+    username: z.string(),
+    avatar_url: z.string().nullable(),
+  }),
+  artwork_url: z.string().nullable(),
+  duration: z.number(),
+  permalink_url: z.string(),
+  genre: z.string().nullable(),
+  created_at: z.string(),
+  soundcloudId: z.string().optional(),
+  provider: z.string().max(32).optional(),
+  media: z.object({ transcodings: z.array(transcodingSchema) }).optional(),
+});
+
+const providerIdSchema = z.string().min(1).max(32).default(DEFAULT_PROVIDER_ID);
+
+// Поле soundcloudId в API принимает и provider-qualified id ("local:42")
+function toTrackKey(ref: string) {
+  const { provider, externalId } = parseTrackRef(ref);
+  return { provider, soundcloudId: externalId };
+}
+
+// Метаданные трека, которые клиент присылает вместе с ref при сохранении в БД
+const trackDataSchema = z.object({
+  title: z.string(),
+  artist: z.string(),
+  artworkUrl: z.string().nullable(),
+  duration: z.number(),
+  streamUrl: z.string().nullable().optional(),
+  permalinkUrl: z.string(),
+  genre: z.string().nullable(),
+});
+
+function toInsertTrack(ref: string, trackData: z.infer<typeof trackDataSchema>) {
+  return {
+    ...toTrackKey(ref),
+    title: trackData.title,
+    artist: trackData.artist,
+    artworkUrl: trackData.artworkUrl,
+    duration: trackData.duration,
+    streamUrl: trackData.streamUrl ?? null,
+    permalinkUrl: trackData.permalinkUrl,
+    genre: trackData.genre,
+  };
+}
+
+const trackSearchFiltersSchema = z.object({
+  genre: z.string().trim().min(1).max(64).optional(),
+  minDuration: z.number().int().min(0).optional(),
+  maxDuration: z.number().int().min(0).optional(),
+  createdFrom: z.date().optional(),
+  createdTo: z.date().optional(),
+  license: z.enum(["to_share", "to_use_commercially", "to_modify_commercially"]).optional(),
+});
+
+// Локальная медиатека - файлы владельца сервера: её каталог и поиск только для вошедших
+function assertProviderAccess(user: User | null, providerId: string) {
+  if (providerId === LOCAL_PROVIDER_ID && !user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+  }
+}
+
+function getProviderFor(user: User | null, providerId: string): MusicProvider {
+  assertProviderAccess(user, providerId);
+  return getProvider(providerId);
+}
+
+// Дизлайкнутые треки в поисковой выдаче не показываем
+async function withoutDisliked<T extends MusicTrack>(
+  userId: number | undefined,
+  provider: string,
+  tracks: T[]
+): Promise<T[]> {
+  if (!userId) return tracks;
+  const disliked = new Set(
+    (await db.getUserDislikedTrackRefs(userId)).map(ref => formatTrackRef(ref.provider, ref.externalId))
+  );
+  return tracks.filter(track => !disliked.has(formatTrackRef(provider, track.id)));
+}
+
+const savedQueueSchema = z.object({
+  playOrder: z.array(playerTrackSchema),
+  originalOrder: z.array(playerTrackSchema),
+});
 
 export const appRouter = router({
   system: systemRouter,
@@ -59,66 +180,298 @@ export const appRouter = router({
     }),
   }),
 
+  account: router({
+    // Архив со всеми данными собирается в фоне; клиент опрашивает exportStatus
+    exportStatus: protectedProcedure.query(async ({ ctx }) => {
+      return await getAccountExportStatus(ctx.user.id);
+    }),
+
+    startExport: protectedProcedure.mutation(async ({ ctx }) => {
+      return await startAccountExport(ctx.user.id);
+    }),
+
+    // Безвозвратно: удаляет пользователя и всё, что ему принадлежит, и завершает сессию
+    delete: protectedProcedure
+      .input(z.object({ confirm: z.literal(true) }))
+      .mutation(async ({ ctx }) => {
+        await deleteAccount(ctx.user.id);
+
+        const cookieOptions = getSessionCookieOptions(ctx.req);
+        ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
+        return { success: true } as const;
+      }),
+  }),
+
+  providers: router({
+    // Гостю медиатеку не предлагаем: её поиск всё равно требует входа
+    list: publicProcedure.query(({ ctx }) =>
+      listProviders().filter(provider => ctx.user || provider.id !== LOCAL_PROVIDER_ID)
+    ),
+  }),
+
+  localLibrary: router({
+    status: protectedProcedure.query(async () => {
+      return await getLocalLibraryStatus();
+    }),
+
+    rescan: adminProcedure.mutation(async () => {
+      if (!isLocalLibraryEnabled()) {
+        throw new Error("Local library is not configured");
+      }
+      return await scanLocalLibrary();
+    }),
+  }),
+
   search: router({
     tracks: publicProcedure
       .input(z.object({
         query: z.string().min(1),
         limit: z.number().min(1).max(50).default(20),
+        provider: providerIdSchema,
+        cursor: z.string().max(2048).nullish(),
+        filters: trackSearchFiltersSchema.optional(),
+        sort: z.enum(["relevance", "newest", "oldest", "popular", "longest", "shortest"]).default("relevance"),
+      }))
+      .query(async ({ ctx, input }) => {
+        // Вставленная ссылка на SoundCloud - отдаём то, на что она указывает, а не текстовый поиск
+        const url = input.provider === DEFAULT_PROVIDER_ID ? parseSoundCloudUrl(input.query) : null;
+        if (url) {
+          const resolved = await soundcloud.resolveUrl(url);
+          let page: MusicPage<MusicTrack> = { collection: [], nextCursor: null };
+          switch (resolved?.kind) {
+            case "track":
+              if (!input.cursor) page = { collection: [resolved.track], nextCursor: null };
+              break;
+            case "playlist": {
+              // Плейлист приходит целиком - листаем его сами, курсор здесь - смещение
+              const tracks = (await soundcloud.getPlaylist(resolved.playlist.id)).tracks;
+              const offset = Number.parseInt(input.cursor ?? "0", 10) || 0;
+              const end = offset + input.limit;
+              page = { collection: tracks.slice(offset, end), nextCursor: end < tracks.length ? String(end) : null };
+              break;
+            }
+            case "user":
+              page = await soundcloud.getUserTracks(resolved.user.id, input.limit, input.cursor);
+              break;
+          }
+          return {
+            ...page,
+            collection: await withoutDisliked(ctx.user?.id, input.provider, page.collection),
+          };
+        }
+
+        const page = await getProviderFor(ctx.user, input.provider).searchTracksPage(input.query, {
+          limit: input.limit,
+          cursor: input.cursor,
+          filters: input.filters,
+          sort: input.sort,
+        });
+        return {
+          ...page,
+          collection: await withoutDisliked(ctx.user?.id, input.provider, page.collection),
+        };
+      }),
+
+    // Сводный поиск: треки, плейлисты и исполнители параллельно, у каждой секции свой лимит
+    all: publicProcedure
+      .input(z.object({
+        query: z.string().min(1),
+        provider: providerIdSchema,
+        trackLimit: z.number().min(1).max(50).default(10),
+        playlistLimit: z.number().min(0).max(50).default(8),
+        artistLimit: z.number().min(0).max(50).default(8),
       }))
+      .query(async ({ ctx, input }) => {
+        const provider = getProviderFor(ctx.user, input.provider);
+        const [tracks, playlists, artists] = await Promise.all([
+          provider.searchTracks(input.query, input.trackLimit)
+            .then(found => withoutDisliked(ctx.user?.id, input.provider, found)),
+          input.playlistLimit > 0 ? provider.searchPlaylists(input.query, input.playlistLimit) : [],
+          input.artistLimit > 0 && provider.searchArtists
+            ? provider.searchArtists(input.query, input.artistLimit)
+            : [],
+        ]);
+
+        return {
+          topResult: pickTopResult(input.query, { tracks, playlists, artists }),
+          tracks,
+          playlists,
+          artists,
+        };
+      }),
+
+    // Автодополнение: подсказки SoundCloud, дополненные треками из истории и лайков пользователя
+    suggestions: publicProcedure
+      .input(z.object({
+        query: z.string().trim().min(1).max(100),
+        limit: z.number().min(1).max(20).default(8),
+        provider: providerIdSchema,
+      }))
+      .query(async ({ ctx, input }) => {
+        const [remote, personal] = await Promise.all([
+          input.provider === DEFAULT_PROVIDER_ID ? soundcloud.getSearchSuggestions(input.query, input.limit) : [],
+          ctx.user ? db.getUserTrackSuggestions(ctx.user.id, input.query, input.limit) : [],
+        ]);
+
+        const seen = new Set<string>();
+        const suggestions: { text: string; source: "catalog" | "library" }[] = [];
+        const push = (text: string, source: "catalog" | "library") => {
+          const key = text.trim().toLowerCase();
+          if (!key || seen.has(key) || suggestions.length >= input.limit) return;
+          seen.add(key);
+          suggestions.push({ text, source });
+        };
+
+        remote.forEach(text => push(text, "catalog"));
+        const q = input.query.toLowerCase();
+        for (const { title, artist } of personal) {
+          push(artist.toLowerCase().startsWith(q) ? artist : `${artist} - ${title}`, "library");
+        }
+        return suggestions;
+      }),
+
+    recent: protectedProcedure
+      .input(z.object({ limit: z.number().min(1).max(20).default(8) }).optional())
+      .query(async ({ ctx, input }) => {
+        return await db.getRecentSearches(ctx.user.id, input?.limit ?? 8);
+      }),
+
+    saveRecent: protectedProcedure
+      .input(z.object({ query: z.string().trim().min(1).max(255) }))
+      .mutation(async ({ ctx, input }) => {
+        await db.addRecentSearch(ctx.user.id, input.query);
+        return { success: true };
+      }),
+
+    removeRecent: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await db.deleteRecentSearch(ctx.user.id, input.id);
+        return { success: true };
+      }),
+
+    clearRecent: protectedProcedure.mutation(async ({ ctx }) => {
+      await db.clearRecentSearches(ctx.user.id);
+      return { success: true };
+    }),
+
+    // Ссылка soundcloud.com/... -> трек, плейлист или исполнитель; null - не ссылка или не найдено
+    resolve: publicProcedure
+      .input(z.object({ url: z.string().min(1).max(2048) }))
       .query(async ({ input }) => {
-        return await soundcloud.searchTracks(input.query, input.limit);
+        const url = parseSoundCloudUrl(input.url);
+        if (!url) return null;
+        return await soundcloud.resolveUrl(url);
       }),
 
     playlists: publicProcedure
       .input(z.object({
         query: z.string().min(1),
         limit: z.number().min(1).max(50).default(20),
+        provider: providerIdSchema,
       }))
-      .query(async ({ input }) => {
-        return await soundcloud.searchPlaylists(input.query, input.limit);
+      .query(async ({ ctx, input }) => {
+        return await getProviderFor(ctx.user, input.provider).searchPlaylists(input.query, input.limit);
+      }),
+
+    artists: publicProcedure
+      .input(z.object({
+        query: z.string().min(1),
+        limit: z.number().min(1).max(50).default(20),
+        provider: providerIdSchema,
+      }))
+      .query(async ({ ctx, input }) => {
+        const provider = getProviderFor(ctx.user, input.provider);
+        return provider.searchArtists ? await provider.searchArtists(input.query, input.limit) : [];
       }),
   }),
 
   tracks: router({
     get: publicProcedure
-      .input(z.object({ trackId: z.number() }))
-      .query(async ({ input }) => {
-        return await soundcloud.getTrack(input.trackId);
+      .input(z.object({ trackId: z.number(), provider: providerIdSchema }))
+      .query(async ({ ctx, input }) => {
+        return await getProviderFor(ctx.user, input.provider).getTrack(String(input.trackId));
       }),
 
     getStreamUrl: publicProcedure
-      .input(z.object({ trackId: z.number() }))
-      .query(async ({ input }) => {
-        return await soundcloud.getStreamUrl(input.trackId);
+      .input(z.object({ trackId: z.number(), provider: providerIdSchema }))
+      .query(async ({ ctx, input }) => {
+        // Резолвим заранее (прогрев кэша), но клиенту отдаём только ссылку на прокси
+        await getProviderFor(ctx.user, input.provider).resolveStream(String(input.trackId));
+        return streamProxyPath(formatTrackRef(input.provider, input.trackId));
       }),
 
     // БЫСТРЫЙ эндпоинт - пропускает getTrack, экономит ~500ms
     getStreamUrlFast: publicProcedure
       .input(z.object({
         trackId: z.number(),
-        transcodings: z.array(z.object({
-          url: z.string(),
-          preset: z.string(),
-          duration: z.number(),
-          snipped: z.boolean(),
-          format: z.object({
-            protocol: z.string(),
-            mime_type: z.string(),
-          }),
-          quality: z.string(),
-        })),
+        provider: providerIdSchema,
+        transcodings: z.array(transcodingSchema),
       }))
-      .query(async ({ input }) => {
-        return await soundcloud.getStreamUrlFast(input.trackId, input.transcodings);
+      .query(async ({ ctx, input }) => {
+        await getProviderFor(ctx.user, input.provider).resolveStream(String(input.trackId), {
+          transcodings: input.transcodings,
+        });
+        return streamProxyPath(formatTrackRef(input.provider, input.trackId));
       }),
 
     related: publicProcedure
       .input(z.object({
         trackId: z.number(),
+        provider: providerIdSchema,
         limit: z.number().min(1).max(20).default(10),
       }))
-      .query(async ({ input }) => {
-        return await soundcloud.getRelatedTracks(input.trackId, input.limit);
+      .query(async ({ ctx, input }) => {
+        return await getProviderFor(ctx.user, input.provider).getRelatedTracks(String(input.trackId), input.limit);
+      }),
+  }),
+
+  // Страницы каталога: плейлисты и исполнители провайдера
+  catalog: router({
+    playlist: publicProcedure
+      .input(z.object({ playlistId: z.number(), provider: providerIdSchema }))
+      .query(async ({ ctx, input }) => {
+        return await getProviderFor(ctx.user, input.provider).getPlaylist(String(input.playlistId));
+      }),
+
+    artist: publicProcedure
+      .input(z.object({ artistId: z.number(), provider: providerIdSchema }))
+      .query(async ({ ctx, input }) => {
+        const provider = getProviderFor(ctx.user, input.provider);
+        if (!provider.getArtist) {
+          throw new Error(`Provider ${provider.id} does not support artist pages`);
+        }
+        return await provider.getArtist(String(input.artistId));
+      }),
+
+    artistTracks: publicProcedure
+      .input(z.object({
+        artistId: z.number(),
+        provider: providerIdSchema,
+        limit: z.number().min(1).max(50).default(20),
+        cursor: z.string().max(2048).nullish(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const provider = getProviderFor(ctx.user, input.provider);
+        if (!provider.getArtistTracks) {
+          throw new Error(`Provider ${provider.id} does not support artist pages`);
+        }
+        return await provider.getArtistTracks(String(input.artistId), input.limit, input.cursor);
+      }),
+
+    artistPlaylists: publicProcedure
+      .input(z.object({
+        artistId: z.number(),
+        provider: providerIdSchema,
+        limit: z.number().min(1).max(50).default(20),
+        cursor: z.string().max(2048).nullish(),
+      }))
+      .query(async ({ ctx, input }) => {
+        const provider = getProviderFor(ctx.user, input.provider);
+        if (!provider.getArtistPlaylists) {
+          throw new Error(`Provider ${provider.id} does not support artist pages`);
+        }
+        return await provider.getArtistPlaylists(String(input.artistId), input.limit, input.cursor);
       }),
   }),
 
@@ -139,7 +492,7 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         const track = await db.upsertTrack({
-          soundcloudId: input.soundcloudId,
+          ...toTrackKey(input.soundcloudId),
           title: input.trackData.title,
           artist: input.trackData.artist,
           artworkUrl: input.trackData.artworkUrl,
@@ -156,7 +509,7 @@ export const appRouter = router({
     removePreference: protectedProcedure
       .input(z.object({ soundcloudId: z.string() }))
       .mutation(async ({ ctx, input }) => {
-        const track = await db.getTrackBySoundcloudId(input.soundcloudId);
+        const track = await db.getTrackByRef(parseTrackRef(input.soundcloudId));
         if (!track) {
           throw new Error("Track not found");
         }
@@ -168,7 +521,7 @@ export const appRouter = router({
     getPreference: protectedProcedure
       .input(z.object({ soundcloudId: z.string() }))
       .query(async ({ ctx, input }) => {
-        const track = await db.getTrackBySoundcloudId(input.soundcloudId);
+        const track = await db.getTrackByRef(parseTrackRef(input.soundcloudId));
         if (!track) return null;
 
         const preference = await db.getUserTrackPreference(ctx.user.id, track.id);
@@ -199,7 +552,7 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         const track = await db.upsertTrack({
-          soundcloudId: input.soundcloudId,
+          ...toTrackKey(input.soundcloudId),
           title: input.trackData.title,
           artist: input.trackData.artist,
           artworkUrl: input.trackData.artworkUrl,
@@ -225,6 +578,69 @@ export const appRouter = router({
       }),
   }),
 
+  player: router({
+    getState: protectedProcedure.query(async ({ ctx }) => {
+      const state = await db.getPlaybackState(ctx.user.id);
+      if (!state) return null;
+
+      const parsed = savedQueueSchema.safeParse(
+        (() => {
+          try {
+            return JSON.parse(state.queue);
+          } catch {
+            return null;
+          }
+        })()
+      );
+      if (!parsed.success || parsed.data.playOrder.length === 0) return null;
+
+      return {
+        ...parsed.data,
+        currentIndex: Math.min(Math.max(0, state.currentIndex), parsed.data.playOrder.length - 1),
+        positionMs: state.positionMs,
+        shuffle: state.shuffle,
+        repeatMode: state.repeatMode,
+        deviceId: state.deviceId,
+        updatedAt: state.updatedAt,
+      };
+    }),
+
+    saveState: protectedProcedure
+      .input(savedQueueSchema.extend({
+        playOrder: z.array(playerTrackSchema).min(1).max(500),
+        originalOrder: z.array(playerTrackSchema).max(500),
+        currentIndex: z.number().int().min(0),
+        positionMs: z.number().int().min(0),
+        shuffle: z.boolean(),
+        repeatMode: z.enum(["off", "all", "one"]),
+        deviceId: z.string().min(1).max(64).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.currentIndex >= input.playOrder.length) {
+          throw new Error("currentIndex is out of range");
+        }
+
+        await db.upsertPlaybackState({
+          userId: ctx.user.id,
+          queue: JSON.stringify({
+            playOrder: input.playOrder,
+            originalOrder: input.originalOrder,
+          }),
+          currentIndex: input.currentIndex,
+          positionMs: input.positionMs,
+          shuffle: input.shuffle,
+          repeatMode: input.repeatMode,
+          deviceId: input.deviceId ?? null,
+        });
+        return { success: true } as const;
+      }),
+
+    clearState: protectedProcedure.mutation(async ({ ctx }) => {
+      await db.deletePlaybackState(ctx.user.id);
+      return { success: true } as const;
+    }),
+  }),
+
   analytics: router({
     trackEvent: publicProcedure
       .input(z.object({
@@ -256,6 +672,8 @@ export const appRouter = router({
         name: z.string().min(1).max(255),
         description: z.string().optional(),
         isPublic: z.boolean().default(false),
+        // Правила умного плейлиста; без них - обычный плейлист
+        smartRules: smartPlaylistRulesSchema.optional(),
       }))
       .mutation(async ({ ctx, input }) => {
         return await db.createPlaylist({
@@ -263,6 +681,7 @@ export const appRouter = router({
           name: input.name,
           description: input.description ?? null,
           isPublic: input.isPublic,
+          smartRules: input.smartRules ? JSON.stringify(input.smartRules) : null,
         });
       }),
 
@@ -273,16 +692,19 @@ export const appRouter = router({
     get: protectedProcedure
       .input(z.object({ playlistId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const playlist = await db.getPlaylistById(input.playlistId);
-        if (!playlist) {
-          throw new Error("Playlist not found");
-        }
-        if (playlist.userId !== ctx.user.id) {
-          throw new Error("Unauthorized");
-        }
+        const { playlist, role } = await requirePlaylistRole(input.playlistId, ctx.user.id, "viewer");
+
+        const tracks = await getPlaylistTrackEntries(playlist);
+        const members = await db.getPlaylistMembers(input.playlistId);
+        return { ...playlist, smartRules: parseSmartRules(playlist), role, memberCount: members.length, tracks };
+      }),
 
-        const tracks = await db.getPlaylistTracks(input.playlistId);
-        return { ...playlist, tracks };
+    // Предпросмотр умного плейлиста в редакторе правил, до сохранения
+    previewSmart: protectedProcedure
+      .input(z.object({ rules: smartPlaylistRulesSchema }))
+      .query(async ({ ctx, input }) => {
+        const tracks = await getSmartPlaylistTracks(ctx.user.id, input.rules);
+        return { count: tracks.length, tracks: tracks.slice(0, 10) };
       }),
 
     update: protectedProcedure
@@ -291,82 +713,273 @@ export const appRouter = router({
         name: z.string().min(1).max(255).optional(),
         description: z.string().optional(),
         isPublic: z.boolean().optional(),
+        smartRules: smartPlaylistRulesSchema.optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const playlist = await db.getPlaylistById(input.playlistId);
-        if (!playlist || playlist.userId !== ctx.user.id) {
-          throw new Error("Unauthorized");
+        // Видимость меняет только владелец, название, описание и правила - и редакторы
+        const { playlist } = await requirePlaylistRole(
+          input.playlistId,
+          ctx.user.id,
+          input.isPublic === undefined ? "editor" : "owner"
+        );
+        if (input.smartRules && !playlist.smartRules) {
+          throw new Error("Not a smart playlist");
         }
 
-        const { playlistId, ...updates } = input;
-        await db.updatePlaylist(playlistId, updates);
+        const { playlistId, smartRules, ...updates } = input;
+        await db.updatePlaylist(playlistId, {
+          ...updates,
+          ...(smartRules ? { smartRules: JSON.stringify(smartRules) } : {}),
+        });
         return { success: true };
       }),
 
-    delete: protectedProcedure
+    // Делает плейлист публичным и выдаёт ссылку /p/:slug (slug случайный, перебором не найти)
+    share: protectedProcedure
       .input(z.object({ playlistId: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const playlist = await db.getPlaylistById(input.playlistId);
-        if (!playlist || playlist.userId !== ctx.user.id) {
-          throw new Error("Unauthorized");
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, "owner");
+
+        const shareSlug = playlist.shareSlug ?? nanoid();
+        await db.updatePlaylist(input.playlistId, { isPublic: true, shareSlug });
+        return { shareSlug };
+      }),
+
+    // Публичный плейлист по ссылке - доступен и без входа
+    getPublic: publicProcedure
+      .input(z.object({ shareSlug: z.string().min(1).max(32) }))
+      .query(async ({ ctx, input }) => {
+        const playlist = await db.getPlaylistByShareSlug(input.shareSlug);
+        if (!playlist || !playlist.isPublic) {
+          throw new Error("Playlist not found");
+        }
+
+        const owner = await db.getUserById(playlist.userId);
+        // Кто из соавторов добавил трек - не для посторонних: отдаём треки без атрибуции
+        const tracks = (await getPlaylistTrackEntries(playlist)).map(
+          ({ addedBy: _addedBy, addedByName: _addedByName, ...track }) => track
+        );
+        return {
+          name: playlist.name,
+          description: playlist.description,
+          shareSlug: input.shareSlug,
+          ownerName: owner?.name ?? null,
+          isOwner: ctx.user?.id === playlist.userId,
+          playlistId: ctx.user?.id === playlist.userId ? playlist.id : null,
+          updatedAt: playlist.updatedAt,
+          tracks,
+        };
+      }),
+
+    saveCopy: protectedProcedure
+      .input(z.object({ shareSlug: z.string().min(1).max(32) }))
+      .mutation(async ({ ctx, input }) => {
+        const source = await db.getPlaylistByShareSlug(input.shareSlug);
+        if (!source || !source.isPublic) {
+          throw new Error("Playlist not found");
         }
 
+        const copy = await db.createPlaylist({
+          userId: ctx.user.id,
+          name: source.name,
+          description: source.description,
+          isPublic: false,
+        });
+        // Копия умного плейлиста - обычный плейлист с его текущими треками
+        const tracks = await getPlaylistTrackEntries(source);
+        await db.addTracksToPlaylist(copy.id, tracks.map(t => t.id), ctx.user.id);
+        return copy;
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ playlistId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await requirePlaylistRole(input.playlistId, ctx.user.id, "owner");
+
         await db.deletePlaylist(input.playlistId);
         return { success: true };
       }),
 
+    // Повторное добавление того же трека по умолчанию не выполняется: клиент получает
+    // duplicate: true и может переспросить пользователя, передав allowDuplicate
     addTrack: protectedProcedure
       .input(z.object({
         playlistId: z.number(),
         soundcloudId: z.string(),
-        trackData: z.object({
-          title: z.string(),
-          artist: z.string(),
-          artworkUrl: z.string().nullable(),
-          duration: z.number(),
-          streamUrl: z.string().nullable().optional(),
-          permalinkUrl: z.string(),
-          genre: z.string().nullable(),
-        }),
+        trackData: trackDataSchema,
+        allowDuplicate: z.boolean().default(false),
       }))
       .mutation(async ({ ctx, input }) => {
-        const playlist = await db.getPlaylistById(input.playlistId);
-        if (!playlist || playlist.userId !== ctx.user.id) {
-          throw new Error("Unauthorized");
-        }
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, "editor");
+        assertStaticPlaylist(playlist);
 
-        const track = await db.upsertTrack({
-          soundcloudId: input.soundcloudId,
-          title: input.trackData.title,
-          artist: input.trackData.artist,
-          artworkUrl: input.trackData.artworkUrl,
-          duration: input.trackData.duration,
-          streamUrl: input.trackData.streamUrl ?? null,
-          permalinkUrl: input.trackData.permalinkUrl,
-          genre: input.trackData.genre,
-        });
+        const track = await db.upsertTrack(toInsertTrack(input.soundcloudId, input.trackData));
 
-        await db.addTrackToPlaylist(input.playlistId, track.id);
+        if (!input.allowDuplicate) {
+          const existing = await db.getPlaylistTrackIdsIn(input.playlistId, [track.id]);
+          if (existing.has(track.id)) {
+            return { success: false, duplicate: true } as const;
+          }
+        }
+
+        await db.addTrackToPlaylist(input.playlistId, track.id, ctx.user.id);
         return { success: true };
       }),
 
-    removeTrack: protectedProcedure
+    // Массовое добавление (мультивыбор в поиске): треки, уже лежащие в плейлисте, пропускаются
+    addTracks: protectedProcedure
       .input(z.object({
         playlistId: z.number(),
-        soundcloudId: z.string(),
+        tracks: z.array(z.object({
+          soundcloudId: z.string(),
+          trackData: trackDataSchema,
+        })).min(1).max(200),
       }))
       .mutation(async ({ ctx, input }) => {
-        const playlist = await db.getPlaylistById(input.playlistId);
-        if (!playlist || playlist.userId !== ctx.user.id) {
-          throw new Error("Unauthorized");
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, "editor");
+        assertStaticPlaylist(playlist);
+
+        const trackIds: number[] = [];
+        for (const item of input.tracks) {
+          const track = await db.upsertTrack(toInsertTrack(item.soundcloudId, item.trackData));
+          trackIds.push(track.id);
         }
 
-        const track = await db.getTrackBySoundcloudId(input.soundcloudId);
-        if (!track) {
+        const existing = await db.getPlaylistTrackIdsIn(input.playlistId, trackIds);
+        const toAdd = Array.from(new Set(trackIds)).filter(id => !existing.has(id));
+
+        await db.addTracksToPlaylist(input.playlistId, toAdd, ctx.user.id);
+        return { added: toAdd.length, skipped: input.tracks.length - toAdd.length };
+      }),
+
+    // Импорт из M3U/XSPF/CSV/текста: только отчёт о найденных треках, ничего не сохраняет.
+    // Выбранные пользователем треки клиент потом добавляет через create + addTracks
+    import: protectedProcedure
+      .input(z.object({
+        content: z.string().min(1).max(2_000_000),
+        fileName: z.string().max(255).optional(),
+        format: z.enum(["m3u", "xspf", "csv", "text"]).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (!takeImportSlot(ctx.user.id)) {
+          throw new TRPCError({ code: "TOO_MANY_REQUESTS", message: "Too many imports, try again later" });
+        }
+        const format = input.format ?? detectPlaylistFormat(input.content, input.fileName);
+        const entries = parsePlaylistFile(input.content, format);
+        const provider = getProvider(DEFAULT_PROVIDER_ID);
+
+        const matches = await matchImportEntries(
+          entries.slice(0, MAX_IMPORT_ENTRIES),
+          query => provider.searchTracks(query, 10)
+        );
+        return {
+          format,
+          total: entries.length,
+          truncated: entries.length > MAX_IMPORT_ENTRIES,
+          matched: matches.filter(m => m.status === "matched"),
+          ambiguous: matches.filter(m => m.status === "ambiguous"),
+          missing: matches.filter(m => m.status === "missing"),
+        };
+      }),
+
+    // entryId - конкретная строка плейлиста (entryId из playlists.get): повторы трека не трогаем
+    removeTrack: protectedProcedure
+      .input(z.object({
+        playlistId: z.number(),
+        entryId: z.number(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, "editor");
+        assertStaticPlaylist(playlist);
+
+        if (!(await db.removePlaylistEntry(input.playlistId, input.entryId))) {
           throw new Error("Track not found");
         }
+        return { success: true };
+      }),
+
+    // trackIds - id треков из playlists.get в новом порядке. Если плейлист успел измениться,
+    // сервер сливает порядок с текущим и возвращает итоговый
+    reorder: protectedProcedure
+      .input(z.object({
+        playlistId: z.number(),
+        trackIds: z.array(z.number()).max(5000),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, "editor");
+        assertStaticPlaylist(playlist);
+
+        const trackIds = await db.reorderPlaylistTracks(input.playlistId, input.trackIds);
+        return { success: true, trackIds };
+      }),
+
+    // Почта участников видна только владельцу
+    members: protectedProcedure
+      .input(z.object({ playlistId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { role } = await requirePlaylistRole(input.playlistId, ctx.user.id, "viewer");
+        const members = await db.getPlaylistMembers(input.playlistId);
+        return members.map(member => ({
+          ...member,
+          email: role === "owner" ? member.email : null,
+        }));
+      }),
+
+    // Приглашаем уже зарегистрированного пользователя по почте; повторное приглашение меняет роль
+    invite: protectedProcedure
+      .input(z.object({
+        playlistId: z.number(),
+        email: z.string().trim().email().max(320),
+        role: z.enum(["editor", "viewer"]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, "owner");
+
+        const user = await db.getUserByEmail(input.email);
+        if (!user) {
+          throw new Error("User not found");
+        }
+        if (user.id === playlist.userId) {
+          throw new Error("Owner is already a member");
+        }
+
+        await db.upsertPlaylistMember(input.playlistId, user.id, input.role, ctx.user.id);
+        return { success: true, userId: user.id };
+      }),
+
+    setMemberRole: protectedProcedure
+      .input(z.object({
+        playlistId: z.number(),
+        userId: z.number(),
+        role: z.enum(["editor", "viewer"]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, "owner");
+        if (input.userId === playlist.userId) {
+          throw new Error("Cannot change the owner's role");
+        }
+        if (!(await db.getPlaylistMemberRole(input.playlistId, input.userId))) {
+          throw new Error("Member not found");
+        }
 
-        await db.removeTrackFromPlaylist(input.playlistId, track.id);
+        await db.upsertPlaylistMember(input.playlistId, input.userId, input.role, ctx.user.id);
+        return { success: true };
+      }),
+
+    // Владелец убирает участника; участник может выйти сам
+    removeMember: protectedProcedure
+      .input(z.object({
+        playlistId: z.number(),
+        userId: z.number(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const leaving = input.userId === ctx.user.id;
+        const { playlist } = await requirePlaylistRole(input.playlistId, ctx.user.id, leaving ? "viewer" : "owner");
+        if (input.userId === playlist.userId) {
+          throw new Error("Owner cannot leave the playlist");
+        }
+
+        await db.removePlaylistMember(input.playlistId, input.userId);
         return { success: true };
       }),
   }),
@@ -383,12 +996,33 @@ export const appRouter = router({
         return await generateHomeFeed(ctx.user.id, input.forceRefresh ?? false);
       }),
 
+    // Daily Mix и «Открытия недели»: не меняются в течение дня/недели
+    scheduled: protectedProcedure.query(async ({ ctx }) => {
+      return await getUserScheduledPlaylists(ctx.user.id);
+    }),
+
+    // Миксы прошлых дней («Миксы прошлой недели»)
+    pastMixes: protectedProcedure
+      .input(z.object({
+        days: z.number().int().min(1).max(30).default(7),
+      }).optional())
+      .query(async ({ ctx, input }) => {
+        return await getPastHomeFeeds(ctx.user.id, input?.days ?? 7);
+      }),
+
+    saveMix: protectedProcedure
+      .input(z.object({ mixId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        return await saveHomeMixAsPlaylist(ctx.user.id, input.mixId);
+      }),
+
     forTrack: publicProcedure
       .input(z.object({
         trackId: z.string(),
         limit: z.number().min(1).max(20).default(10),
       }))
-      .query(async ({ input }) => {
+      .query(async ({ ctx, input }) => {
+        assertProviderAccess(ctx.user, parseTrackRef(input.trackId).provider);
         return await getTrackBasedRecommendations(input.trackId, input.limit);
       }),
   }),
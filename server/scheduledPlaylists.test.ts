@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { buildTasteClusters, getSchedulePeriod, mixDailyTracks } from "./scheduledPlaylists";
+import { withRecommendation } from "./recommendations";
+import type { MusicTrack } from "./providers";
+import type { Track } from "../drizzle/schema";
+
+const now = new Date("2024-06-30T12:00:00Z");
+
+function track(id: number, genre: string | null, artist = "Artist"): Track {
+  return {
+    id,
+    provider: "soundcloud",
+    soundcloudId: String(id),
+    title: `Track ${id}`,
+    artist,
+    artworkUrl: null,
+    duration: 200_000,
+    streamUrl: null,
+    permalinkUrl: null,
+    genre,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+describe("getSchedulePeriod", () => {
+  it("uses the UTC day for daily mixes and the Monday for discover", () => {
+    // Воскресенье: неделя началась в понедельник 24-го
+    expect(getSchedulePeriod("daily", now)).toBe("2024-06-30");
+    expect(getSchedulePeriod("discover", now)).toBe("2024-06-24");
+    expect(getSchedulePeriod("discover", new Date("2024-07-01T00:30:00Z"))).toBe("2024-07-01");
+  });
+});
+
+describe("buildTasteClusters", () => {
+  it("groups liked tracks by genre, biggest first, and drops small clusters", () => {
+    const liked = [
+      track(1, "House"), track(2, "Techno"), track(3, "house"), track(4, "Techno"),
+      track(5, "House"), track(6, "Jazz"), track(7, "Techno"), track(8, "Techno"), track(9, null),
+    ];
+
+    const clusters = buildTasteClusters(liked);
+    expect(clusters.map(c => c.genre)).toEqual(["Techno", "House"]);
+    expect(clusters[1].tracks.map(t => t.id)).toEqual([1, 3, 5]);
+  });
+
+  it("falls back to one cluster of all likes when no genre is big enough", () => {
+    const liked = [track(1, null), track(2, "Jazz"), track(3, "Rock")];
+    expect(buildTasteClusters(liked)).toEqual([{ genre: null, tracks: liked }]);
+    expect(buildTasteClusters([])).toEqual([]);
+  });
+});
+
+function musicTrack(id: number, artist = `Artist ${id}`): MusicTrack {
+  return {
+    id,
+    title: `Track ${id}`,
+    duration: 200_000,
+    artwork_url: null,
+    permalink_url: "",
+    genre: null,
+    user: { id, username: artist, avatar_url: null },
+    created_at: now.toISOString(),
+  };
+}
+
+describe("mixDailyTracks", () => {
+  it("interleaves liked and related tracks and gives every track a reason", () => {
+    const familiar = [musicTrack(1), musicTrack(2), musicTrack(3)];
+    const related = [
+      withRecommendation([musicTrack(10), musicTrack(11), musicTrack(1)], { type: "seed", seedTitle: "Track 1", source: "like" }),
+      withRecommendation([musicTrack(20), musicTrack(21)], { type: "seed", seedTitle: "Track 2", source: "like" }),
+    ];
+
+    const mix = mixDailyTracks(familiar, related, new Set(["21"]));
+
+    expect(mix.map(t => t.id)).toEqual([10, 20, 1, 11, 2, 3]);
+    expect(mix.every(t => t.recommendation)).toBe(true);
+    expect(mix.filter(t => t.recommendation?.reason.type === "liked").map(t => t.id)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,343 @@
+import * as db from "./db";
+import { formatTrackRef, getProvider, hasProvider, type MusicTrack } from "./providers";
+import {
+  filterAndDedupeTracks,
+  toMusicTrack,
+  trackKey,
+  withRecommendation,
+  type RecommendedPlaylist,
+  type RecommendedTrack,
+} from "./recommendations";
+import type { ScheduledPlaylist, Track } from "../drizzle/schema";
+
+export type ScheduledPlaylistKind = ScheduledPlaylist["kind"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+const SCHEDULER_START_DELAY_MS = 60 * 1000;
+// После ошибки сборки (провайдер или БД недоступны) повторяем не раньше чем через 15 минут
+const FAILED_BUILD_RETRY_MS = 15 * 60 * 1000;
+// Заранее собираем только для тех, кто заходил за последние две недели
+const ACTIVE_USER_WINDOW_MS = 14 * DAY_MS;
+
+const MAX_DAILY_MIXES = 3;
+const MIN_CLUSTER_TRACKS = 3;
+const DAILY_MIX_SIZE = 40;
+const DISCOVER_SIZE = 30;
+// Короче не показываем: плейлист из пары треков хуже, чем никакого
+const MIN_PLAYLIST_SIZE = 10;
+
+/**
+ * Период, на который собран плейлист: день для Daily Mix,
+ * понедельник недели для Discover. Считаем по UTC, чтобы инстансы сервера совпадали
+ */
+export function getSchedulePeriod(kind: ScheduledPlaylistKind, now: Date = new Date()): string {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (kind === "discover") {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+export interface TasteCluster {
+  genre: string | null;
+  tracks: Track[]; // лайкнутые треки кластера, новые первыми
+}
+
+/**
+ * Кластеры вкуса - жанры лайкнутых треков, крупные первыми.
+ * Если жанров нет или каждый слишком мал - один общий кластер из всех лайков
+ */
+export function buildTasteClusters(
+  liked: Track[],
+  maxClusters: number = MAX_DAILY_MIXES,
+  minTracks: number = MIN_CLUSTER_TRACKS
+): TasteCluster[] {
+  const byGenre = new Map<string, TasteCluster>();
+  for (const track of liked) {
+    const genre = track.genre?.trim();
+    if (!genre) continue;
+    const key = genre.toLowerCase();
+    const cluster = byGenre.get(key) ?? { genre, tracks: [] };
+    cluster.tracks.push(track);
+    byGenre.set(key, cluster);
+  }
+
+  const clusters = [...byGenre.values()]
+    .filter(cluster => cluster.tracks.length >= minTracks)
+    .sort((a, b) => b.tracks.length - a.tracks.length)
+    .slice(0, maxClusters);
+
+  if (clusters.length === 0 && liked.length > 0) {
+    return [{ genre: null, tracks: liked }];
+  }
+  return clusters;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// По одному треку из каждого списка по кругу: ни один seed не забивает весь плейлист
+function interleave<T>(lists: T[][]): T[] {
+  const result: T[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) result.push(list[i]);
+    }
+  }
+  return result;
+}
+
+// Похожие на каждый seed (все seeds - лайки), помеченные причиной
+async function getRelatedForSeeds(seeds: Track[], limit: number): Promise<RecommendedTrack[][]> {
+  return await Promise.all(
+    seeds.map(seed =>
+      getProvider(seed.provider)
+        .getRelatedTracks(seed.soundcloudId, limit)
+        .then(related => withRecommendation(related, { type: "seed", seedTitle: seed.title, source: "like" }))
+        .catch(() => [] as RecommendedTrack[])
+    )
+  );
+}
+
+function topArtists(tracks: Track[], count: number): string[] {
+  const counts = new Map<string, number>();
+  for (const track of tracks) counts.set(track.artist, (counts.get(track.artist) ?? 0) + 1);
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([artist]) => artist);
+}
+
+type BuiltPlaylist = Pick<RecommendedPlaylist, "title" | "description" | "tracks">;
+
+/**
+ * Daily Mix из готовых списков: знакомые треки кластера (familiar - в порядке показа)
+ * вперемешку с похожими на них (related - по списку на каждый seed).
+ * У каждого трека есть причина: знакомые помечены как лайкнутые
+ */
+export function mixDailyTracks(
+  familiar: MusicTrack[],
+  related: RecommendedTrack[][],
+  dislikedIds: Set<string>,
+  size: number = DAILY_MIX_SIZE
+): RecommendedTrack[] {
+  const known = withRecommendation(familiar, { type: "liked" });
+  const fresh = filterAndDedupeTracks({
+    tracks: interleave(related),
+    excludeIds: new Set(familiar.map(trackKey)),
+    dislikedIds,
+    maxPerArtist: 3,
+    limit: size,
+  });
+
+  // Знакомый трек после каждых двух новых
+  const mixed: RecommendedTrack[] = [];
+  let knownIndex = 0;
+  fresh.forEach((track, index) => {
+    mixed.push(track);
+    if (index % 2 === 1 && knownIndex < known.length) mixed.push(known[knownIndex++]);
+  });
+  return [...mixed, ...known.slice(knownIndex)].slice(0, size);
+}
+
+async function buildDailyMix(cluster: TasteCluster, dislikedIds: Set<string>): Promise<RecommendedTrack[]> {
+  const playable = cluster.tracks.filter(track => hasProvider(track.provider));
+  const related = await getRelatedForSeeds(shuffle(playable).slice(0, 4), 25);
+  const familiar = shuffle(playable)
+    .map(toMusicTrack)
+    .filter((track): track is MusicTrack => track !== null);
+  return mixDailyTracks(familiar, related, dislikedIds);
+}
+
+async function buildDailyMixes(userId: number): Promise<BuiltPlaylist[]> {
+  const [prefs, dislikedRefs] = await Promise.all([
+    db.getUserTrackPreferencesDetailed(userId, 300),
+    db.getUserDislikedTrackRefs(userId, 500),
+  ]);
+  const liked = prefs.filter(p => p.preference === "like").map(p => p.track);
+  const dislikedIds = new Set(dislikedRefs.map(r => formatTrackRef(r.provider, r.externalId)));
+
+  const mixes: BuiltPlaylist[] = [];
+  for (const cluster of buildTasteClusters(liked)) {
+    const tracks = await buildDailyMix(cluster, dislikedIds);
+    if (tracks.length < MIN_PLAYLIST_SIZE) continue;
+    const artists = topArtists(cluster.tracks, 3).join(", ");
+    mixes.push({
+      title: `Daily Mix ${mixes.length + 1}`,
+      description: cluster.genre ? `${cluster.genre} · ${artists}` : artists,
+      tracks,
+    });
+  }
+  return mixes;
+}
+
+// Discover: похожие на свежие лайки треки, которые пользователь ещё ни разу не слушал
+async function buildDiscoverWeekly(userId: number): Promise<BuiltPlaylist[]> {
+  const [prefs, library, dislikedRefs] = await Promise.all([
+    db.getUserTrackPreferencesDetailed(userId, 100),
+    db.getUserLibraryTrackStats(userId),
+    db.getUserDislikedTrackRefs(userId, 500),
+  ]);
+  const seeds = shuffle(
+    prefs.filter(p => p.preference === "like" && hasProvider(p.track.provider)).map(p => p.track)
+  ).slice(0, 8);
+  if (seeds.length === 0) return [];
+
+  const tracks = filterAndDedupeTracks({
+    tracks: interleave(await getRelatedForSeeds(seeds, 30)),
+    excludeIds: new Set(library.map(({ track }) => formatTrackRef(track.provider, track.soundcloudId))),
+    dislikedIds: new Set(dislikedRefs.map(r => formatTrackRef(r.provider, r.externalId))),
+    maxPerArtist: 2,
+    limit: DISCOVER_SIZE,
+  });
+  if (tracks.length < MIN_PLAYLIST_SIZE) return [];
+
+  return [{
+    title: "Открытия недели",
+    description: "Новые для вас треки, обновляется по понедельникам",
+    tracks,
+  }];
+}
+
+const builders: Record<ScheduledPlaylistKind, (userId: number) => Promise<BuiltPlaylist[]>> = {
+  daily: buildDailyMixes,
+  discover: buildDiscoverWeekly,
+};
+
+// Пустой результат (мало лайков) не пересобираем до следующего периода - иначе
+// каждое открытие главной дёргало бы провайдера впустую. Ключ - "userId:kind", значение - период
+const attemptedPeriods = new Map<string, string>();
+// Упавшие сборки: ключ тот же, значение - время, раньше которого не повторяем
+const failedAttempts = new Map<string, number>();
+// Сборки внутри процесса; между процессами их разводит блокировка в saveScheduledPlaylists
+const inFlight = new Map<number, Promise<void>>();
+
+// Отметки прошедших периодов больше ничего не экономят
+function pruneAttemptedPeriods(now: Date) {
+  const current: Record<ScheduledPlaylistKind, string> = {
+    daily: getSchedulePeriod("daily", now),
+    discover: getSchedulePeriod("discover", now),
+  };
+  attemptedPeriods.forEach((period, key) => {
+    const kind = key.slice(key.indexOf(":") + 1) as ScheduledPlaylistKind;
+    if (period !== current[kind]) attemptedPeriods.delete(key);
+  });
+  failedAttempts.forEach((retryAt, key) => {
+    if (retryAt <= now.getTime()) failedAttempts.delete(key);
+  });
+}
+
+async function ensureKind(userId: number, kind: ScheduledPlaylistKind, now: Date) {
+  const period = getSchedulePeriod(kind, now);
+  const attemptKey = `${userId}:${kind}`;
+  if (attemptedPeriods.get(attemptKey) === period) return;
+  if ((failedAttempts.get(attemptKey) ?? 0) > now.getTime()) return;
+  if ((await db.getScheduledPlaylists(userId, kind, period)).length > 0) return;
+
+  try {
+    const playlists = await builders[kind](userId);
+    await db.saveScheduledPlaylists(
+      userId,
+      kind,
+      period,
+      playlists.map(p => ({
+        title: p.title,
+        description: p.description ?? null,
+        tracks: JSON.stringify(p.tracks),
+      }))
+    );
+  } catch (error) {
+    failedAttempts.set(attemptKey, now.getTime() + FAILED_BUILD_RETRY_MS);
+    throw error;
+  }
+  failedAttempts.delete(attemptKey);
+  attemptedPeriods.set(attemptKey, period);
+}
+
+/**
+ * Собирает плейлисты текущего дня/недели, если их ещё нет.
+ * Параллельные вызовы для одного пользователя ждут одну и ту же сборку
+ */
+export function ensureScheduledPlaylists(userId: number, now: Date = new Date()): Promise<void> {
+  const pending = inFlight.get(userId);
+  if (pending) return pending;
+
+  const run = (async () => {
+    await ensureKind(userId, "daily", now);
+    await ensureKind(userId, "discover", now);
+  })().finally(() => inFlight.delete(userId));
+  inFlight.set(userId, run);
+  return run;
+}
+
+function toRecommendedPlaylist(row: ScheduledPlaylist): RecommendedPlaylist {
+  return {
+    id: `${row.kind}-${row.period}-${row.position}`,
+    title: row.title,
+    description: row.description ?? undefined,
+    tracks: JSON.parse(row.tracks) as RecommendedTrack[],
+    generatedAt: row.generatedAt,
+  };
+}
+
+/**
+ * Daily Mix и Discover текущего периода. Кого планировщик ещё не обработал
+ * (новый пользователь, первый запуск сервера) - собираем на лету
+ */
+export async function getUserScheduledPlaylists(userId: number, now: Date = new Date()) {
+  try {
+    await ensureScheduledPlaylists(userId, now);
+  } catch (error) {
+    console.error("[Scheduler] Failed to build playlists for user", userId, error instanceof Error ? error.message : error);
+  }
+
+  const [daily, discover] = await Promise.all([
+    db.getScheduledPlaylists(userId, "daily", getSchedulePeriod("daily", now)),
+    db.getScheduledPlaylists(userId, "discover", getSchedulePeriod("discover", now)),
+  ]);
+  return {
+    dailyMixes: daily.map(toRecommendedPlaylist),
+    discoverWeekly: discover.length > 0 ? toRecommendedPlaylist(discover[0]) : null,
+  };
+}
+
+async function runScheduledPlaylists() {
+  pruneAttemptedPeriods(new Date());
+  const userIds = await db.getActiveUserIds(new Date(Date.now() - ACTIVE_USER_WINDOW_MS));
+  // По одному пользователю: запросы к провайдеру не должны идти лавиной
+  for (const userId of userIds) {
+    try {
+      await ensureScheduledPlaylists(userId);
+    } catch (error) {
+      console.error("[Scheduler] Failed to build playlists for user", userId, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+/**
+ * Фоновый планировщик: раз в час дособирает плейлисты активным пользователям.
+ * Уже собранные за текущий день/неделю не трогает, так что лишние запуски дёшевы
+ */
+export function startPlaylistScheduler() {
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    runScheduledPlaylists()
+      .catch(error => console.error("[Scheduler] Run failed:", error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  setTimeout(tick, SCHEDULER_START_DELAY_MS).unref();
+  setInterval(tick, SCHEDULER_INTERVAL_MS).unref();
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { evaluateSmartPlaylist } from "./smartPlaylists";
+import type { LibraryTrackStats } from "./db";
+import type { Track } from "../drizzle/schema";
+import type { SmartPlaylistRules } from "@shared/smartPlaylist";
+
+const now = new Date("2024-06-30T12:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+function stats(id: number, overrides: Partial<Track> = {}, extra: Partial<LibraryTrackStats> = {}): LibraryTrackStats {
+  return {
+    track: {
+      id,
+      provider: "soundcloud",
+      soundcloudId: String(id),
+      title: `Track ${id}`,
+      artist: "Artist",
+      artworkUrl: null,
+      duration: 200_000,
+      streamUrl: null,
+      permalinkUrl: null,
+      genre: null,
+      createdAt: now,
+      updatedAt: now,
+      ...overrides,
+    },
+    likedAt: null,
+    playCount: 0,
+    maxPlayedMs: 0,
+    lastPlayedAt: null,
+    ...extra,
+  };
+}
+
+function ids(rules: Partial<SmartPlaylistRules> & Pick<SmartPlaylistRules, "rules">, library: LibraryTrackStats[]) {
+  return evaluateSmartPlaylist({ match: "all", sort: "recentlyPlayed", limit: 100, ...rules }, library, now)
+    .map(track => track.id);
+}
+
+describe("evaluateSmartPlaylist", () => {
+  const library = [
+    stats(1, { genre: "Techno" }, { likedAt: daysAgo(3), playCount: 5, maxPlayedMs: 200_000, lastPlayedAt: daysAgo(1) }),
+    stats(2, { genre: "House", duration: 90_000 }, { likedAt: daysAgo(60), playCount: 1, maxPlayedMs: 10_000, lastPlayedAt: daysAgo(2) }),
+    stats(3, { artist: "Boards of Canada" }, { playCount: 12, maxPlayedMs: 200_000, lastPlayedAt: daysAgo(90) }),
+  ];
+
+  it("combines rules with all / any", () => {
+    expect(ids({ rules: [{ type: "genre", genres: ["techno", "house"] }, { type: "liked", withinDays: 30 }] }, library))
+      .toEqual([1]);
+    expect(ids({ match: "any", rules: [{ type: "artist", value: "boards" }, { type: "duration", op: "lt", seconds: 120 }] }, library))
+      .toEqual([2, 3]);
+  });
+
+  it("supports play statistics", () => {
+    expect(ids({ rules: [{ type: "playCount", op: "gt", value: 4 }] }, library)).toEqual([1, 3]);
+    expect(ids({ rules: [{ type: "neverFinished" }] }, library)).toEqual([2]);
+    expect(ids({ rules: [{ type: "lastPlayed", op: "before", days: 30 }] }, library)).toEqual([3]);
+  });
+
+  it("sorts and limits", () => {
+    expect(ids({ rules: [{ type: "playCount", op: "gt", value: 0 }], sort: "mostPlayed", limit: 2 }, library))
+      .toEqual([3, 1]);
+  });
+});
@@ -0,0 +1,128 @@
+import * as db from "./db";
+import type { LibraryTrackStats, PlaylistTrackEntry } from "./db";
+import type { Playlist, Track } from "../drizzle/schema";
+import {
+  FINISHED_PLAY_RATIO,
+  smartPlaylistRulesSchema,
+  type SmartPlaylistRules,
+  type SmartRule,
+} from "@shared/smartPlaylist";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function matchesSmartRule(rule: SmartRule, stats: LibraryTrackStats, now: Date): boolean {
+  const { track } = stats;
+  switch (rule.type) {
+    case "genre": {
+      const genre = track.genre?.trim().toLowerCase();
+      return !!genre && rule.genres.some(g => g.toLowerCase() === genre);
+    }
+    case "artist":
+      return track.artist.toLowerCase().includes(rule.value.toLowerCase());
+    case "liked":
+      if (!stats.likedAt) return false;
+      return rule.withinDays === undefined || now.getTime() - stats.likedAt.getTime() <= rule.withinDays * DAY_MS;
+    case "playCount":
+      return rule.op === "gt" ? stats.playCount > rule.value : stats.playCount < rule.value;
+    case "duration":
+      return rule.op === "lt" ? track.duration < rule.seconds * 1000 : track.duration > rule.seconds * 1000;
+    case "lastPlayed": {
+      if (!stats.lastPlayedAt) return rule.op === "before";
+      const within = now.getTime() - stats.lastPlayedAt.getTime() <= rule.days * DAY_MS;
+      return rule.op === "within" ? within : !within;
+    }
+    case "neverFinished":
+      return stats.playCount > 0 && track.duration > 0 && stats.maxPlayedMs < track.duration * FINISHED_PLAY_RATIO;
+  }
+}
+
+// Детерминированное перемешивание: «случайный» плейлист не прыгает при каждом открытии
+function seededShuffle<T>(items: T[], seed: number): T[] {
+  const result = [...items];
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+const time = (date: Date | null) => date?.getTime() ?? -Infinity;
+
+/**
+ * Отбор и сортировка треков медиатеки пользователя по правилам.
+ * seed задаёт порядок для sort: "random" (меняется раз в день)
+ */
+export function evaluateSmartPlaylist(
+  rules: SmartPlaylistRules,
+  library: LibraryTrackStats[],
+  now: Date = new Date(),
+  seed: number = 0
+): Track[] {
+  const matches = library.filter(stats =>
+    rules.match === "all"
+      ? rules.rules.every(rule => matchesSmartRule(rule, stats, now))
+      : rules.rules.some(rule => matchesSmartRule(rule, stats, now))
+  );
+
+  let sorted: LibraryTrackStats[];
+  switch (rules.sort) {
+    case "recentlyLiked":
+      sorted = [...matches].sort((a, b) => time(b.likedAt) - time(a.likedAt));
+      break;
+    case "mostPlayed":
+      sorted = [...matches].sort((a, b) => b.playCount - a.playCount || time(b.lastPlayedAt) - time(a.lastPlayedAt));
+      break;
+    case "title":
+      sorted = [...matches].sort((a, b) =>
+        a.track.artist.localeCompare(b.track.artist, "ru") || a.track.title.localeCompare(b.track.title, "ru")
+      );
+      break;
+    case "random":
+      sorted = seededShuffle(
+        [...matches].sort((a, b) => a.track.id - b.track.id),
+        seed + Math.floor(now.getTime() / DAY_MS)
+      );
+      break;
+    default:
+      sorted = [...matches].sort((a, b) =>
+        time(b.lastPlayedAt) - time(a.lastPlayedAt) || time(b.likedAt) - time(a.likedAt)
+      );
+  }
+
+  return sorted.slice(0, rules.limit).map(stats => stats.track);
+}
+
+// Правила валидируются при записи, так что здесь только разбор
+export function parseSmartRules(playlist: Pick<Playlist, "smartRules">): SmartPlaylistRules | null {
+  return playlist.smartRules ? smartPlaylistRulesSchema.parse(JSON.parse(playlist.smartRules)) : null;
+}
+
+export async function getSmartPlaylistTracks(userId: number, rules: SmartPlaylistRules, seed = 0): Promise<Track[]> {
+  return evaluateSmartPlaylist(rules, await db.getUserLibraryTrackStats(userId), new Date(), seed);
+}
+
+/**
+ * Треки любого плейлиста. Умный собирается заново при каждом запросе
+ * из медиатеки владельца - так он обновляется сам
+ */
+export async function getPlaylistTrackEntries(playlist: Playlist): Promise<PlaylistTrackEntry[]> {
+  const rules = parseSmartRules(playlist);
+  if (!rules) return await db.getPlaylistTracks(playlist.id);
+
+  const tracks = await getSmartPlaylistTracks(playlist.userId, rules, playlist.id);
+  return tracks.map(track => ({ ...track, entryId: null, addedAt: null, addedBy: null, addedByName: null }));
+}
+
+export function assertStaticPlaylist(playlist: Playlist) {
+  if (playlist.smartRules) {
+    throw new Error("Smart playlist tracks are managed by rules");
+  }
+}
@@ -1,5 +1,7 @@
 import axios, { AxiosError } from 'axios';
 import https from "https";
+import type { ResolvedStream } from "./providers/types";
+import { isSoundCloudShortLink } from "@shared/soundcloudUrl";
 
 // ИСПОЛЬЗУЕМ V2 API КАК В PYTHON СКРИПТЕ
 const SOUNDCLOUD_API_BASE = 'https://api-v2.soundcloud.com';
@@ -29,27 +31,64 @@ const resolveClient = axios.create({
   },
 });
 
-// Серверный кэш stream URL (TTL 30 минут)
-const streamUrlServerCache = new Map<number, { url: string; expires: number }>();
+// Ссылки на транскодинги приходят и от клиента, поэтому ходим по ним только на API,
+// а полученные ссылки на аудио (и сегменты HLS) принимаем только с CDN SoundCloud
+const SOUNDCLOUD_API_HOST = 'api-v2.soundcloud.com';
+const SOUNDCLOUD_MEDIA_HOST_SUFFIXES = ['.sndcdn.com', '.soundcloud.cloud', '.soundcloud.com'];
+
+function parseHttpsUrl(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && !url.port && !url.username && !url.password ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isSoundCloudApiUrl(value: string): boolean {
+  return parseHttpsUrl(value)?.hostname.toLowerCase() === SOUNDCLOUD_API_HOST;
+}
+
+// Ссылка вида /media/soundcloud:tracks:<id>/... - иначе чужой транскодинг попал бы в кэш этого трека
+export function isTranscodingOfTrack(value: string, trackId: number): boolean {
+  const url = parseHttpsUrl(value);
+  return (
+    url?.hostname.toLowerCase() === SOUNDCLOUD_API_HOST &&
+    url.pathname.startsWith(`/media/soundcloud:tracks:${trackId}/`)
+  );
+}
+
+export function isSoundCloudMediaUrl(value: string): boolean {
+  const host = parseHttpsUrl(value)?.hostname.toLowerCase();
+  return !!host && SOUNDCLOUD_MEDIA_HOST_SUFFIXES.some(suffix => host.endsWith(suffix));
+}
+
+// Серверный кэш резолвнутых потоков (TTL 30 минут)
+const streamUrlServerCache = new Map<number, { stream: ResolvedStream; expires: number }>();
 const STREAM_URL_TTL = 30 * 60 * 1000;
 
-function getCachedStreamUrl(trackId: number): string | null {
+function getCachedStream(trackId: number): ResolvedStream | null {
   const cached = streamUrlServerCache.get(trackId);
   if (cached && cached.expires > Date.now()) {
-    return cached.url;
+    return cached.stream;
   }
   streamUrlServerCache.delete(trackId);
   return null;
 }
 
-function setCachedStreamUrl(trackId: number, url: string): void {
+function setCachedStream(trackId: number, stream: ResolvedStream): void {
   if (streamUrlServerCache.size > 500) {
     const now = Date.now();
     streamUrlServerCache.forEach((value, key) => {
       if (value.expires < now) streamUrlServerCache.delete(key);
     });
   }
-  streamUrlServerCache.set(trackId, { url, expires: Date.now() + STREAM_URL_TTL });
+  streamUrlServerCache.set(trackId, { stream, expires: Date.now() + STREAM_URL_TTL });
+}
+
+// Сбрасывает протухшую ссылку, чтобы следующий запрос зарезолвил её заново
+export function invalidateStreamUrl(trackId: number): void {
+  streamUrlServerCache.delete(trackId);
 }
 
 // Быстрый retry - только 2 попытки без задержки
@@ -118,6 +157,27 @@ export interface SoundCloudPlaylistV2 {
   track_count: number;
 }
 
+export interface SoundCloudUserV2 {
+  id: number;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  description: string | null;
+  city: string | null;
+  country_code: string | null;
+  permalink_url: string;
+  followers_count: number;
+  followings_count: number;
+  track_count: number;
+  playlist_count: number;
+}
+
+// Страница коллекции: nextCursor - next_href без client_id, отдаётся клиенту как есть
+export interface SoundCloudPage<T> {
+  collection: T[];
+  nextCursor: string | null;
+}
+
 // Вспомогательная функция для преобразования ответа V2 в единый формат
 function mapTrackV2(track: any): SoundCloudTrackV2 {
   const t = track.track || track;
@@ -166,6 +226,31 @@ export async function searchTracks(query: string, limit: number = 20): Promise<S
   }
 }
 
+export interface SoundCloudSearchParams {
+  limit: number;
+  cursor?: string | null;
+  genre?: string;
+  license?: string;
+}
+
+/**
+ * Search page with cursor pagination V2 (жанр и лицензию фильтрует сам SoundCloud)
+ */
+export async function searchTracksPage(
+  query: string,
+  { limit, cursor, genre, license }: SoundCloudSearchParams
+): Promise<SoundCloudPage<SoundCloudTrackV2>> {
+  const filters: Record<string, string> = { q: query };
+  if (genre) filters['filter.genre_or_tag'] = genre;
+  if (license) filters['filter.license'] = license;
+
+  const page = await getCollectionPage('/search/tracks', limit, cursor, filters);
+  return {
+    collection: page.collection.filter((item: any) => item.kind === 'track').map(mapTrackV2),
+    nextCursor: page.nextCursor,
+  };
+}
+
 /**
  * Get track details by ID V2
  */
@@ -213,61 +298,346 @@ export async function searchPlaylists(query: string, limit: number = 20): Promis
         },
       })
     );
-    return (response.data.collection || []).filter((i: any) => i.kind === 'playlist');
+    // В выдаче поиска полностью приходят только первые треки, остальные - заглушки без title
+    return (response.data.collection || [])
+      .filter((i: any) => i.kind === 'playlist')
+      .map((p: any) => mapPlaylistV2(p, (p.tracks || []).filter((t: any) => t.title).map(mapTrackV2)));
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Autocomplete for the search box V2
+ */
+export async function getSearchSuggestions(query: string, limit: number = 8): Promise<string[]> {
+  try {
+    const response = await soundcloudClient.get('/search/queries', {
+      params: {
+        q: query,
+        client_id: SOUNDCLOUD_CLIENT_ID,
+        limit,
+      },
+      // Подсказки нужны мгновенно - без retry и с коротким таймаутом
+      timeout: 2500,
+    });
+    return (response.data.collection || [])
+      .map((item: any) => item.output ?? item.query)
+      .filter((text: unknown): text is string => typeof text === 'string' && text.length > 0);
+  } catch (error) {
+    console.error('Error getting search suggestions:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Search for users (artists) V2
+ */
+export async function searchUsers(query: string, limit: number = 20): Promise<SoundCloudUserV2[]> {
+  try {
+    const response = await withRetry(() =>
+      soundcloudClient.get('/search/users', {
+        params: {
+          q: query,
+          client_id: SOUNDCLOUD_CLIENT_ID,
+          limit,
+        },
+      })
+    );
+    return (response.data.collection || [])
+      .filter((i: any) => i.kind === 'user')
+      .map(mapUserV2);
   } catch (error) {
+    console.error('Error searching users:', error instanceof Error ? error.message : error);
     return [];
   }
 }
 
+function mapPlaylistV2(playlist: any, tracks: SoundCloudTrackV2[]): SoundCloudPlaylistV2 {
+  return {
+    id: playlist.id,
+    title: playlist.title,
+    description: playlist.description ?? null,
+    duration: playlist.duration,
+    artwork_url: playlist.artwork_url ?? tracks[0]?.artwork_url ?? null,
+    permalink_url: playlist.permalink_url,
+    user: {
+      id: playlist.user?.id,
+      username: playlist.user?.username,
+    },
+    tracks,
+    track_count: playlist.track_count,
+  };
+}
+
+function mapUserV2(user: any): SoundCloudUserV2 {
+  return {
+    id: user.id,
+    username: user.username,
+    full_name: user.full_name || null,
+    avatar_url: user.avatar_url ? user.avatar_url.replace('-large', '-t500x500') : null,
+    description: user.description ?? null,
+    city: user.city || null,
+    country_code: user.country_code ?? null,
+    permalink_url: user.permalink_url,
+    followers_count: user.followers_count ?? 0,
+    followings_count: user.followings_count ?? 0,
+    track_count: user.track_count ?? 0,
+    playlist_count: user.playlist_count ?? 0,
+  };
+}
+
+/**
+ * Загрузка страницы коллекции с cursor-пагинацией (linked_partitioning).
+ * cursor - next_href предыдущей страницы; принимаем только ссылки на тот же endpoint
+ */
+async function getCollectionPage(
+  path: string,
+  limit: number,
+  cursor?: string | null,
+  extraParams: Record<string, string | number> = {}
+): Promise<{ collection: any[]; nextCursor: string | null }> {
+  // extraParams нужны только первой странице - дальше они уже зашиты в next_href
+  let params: Record<string, string | number> = { ...extraParams, limit, linked_partitioning: 1 };
+
+  if (cursor) {
+    const url = new URL(cursor, SOUNDCLOUD_API_BASE);
+    if (url.origin !== SOUNDCLOUD_API_BASE || url.pathname !== path) {
+      throw new Error('Invalid cursor');
+    }
+    params = Object.fromEntries(url.searchParams.entries());
+  }
+
+  const response = await withRetry(() =>
+    soundcloudClient.get(path, {
+      params: { ...params, client_id: SOUNDCLOUD_CLIENT_ID },
+    })
+  );
+
+  let nextCursor: string | null = null;
+  if (response.data.next_href) {
+    const next = new URL(response.data.next_href);
+    next.searchParams.delete('client_id');
+    nextCursor = next.toString();
+  }
+
+  return { collection: response.data.collection || [], nextCursor };
+}
+
+/**
+ * Get user profile V2
+ */
+export async function getUser(userId: number): Promise<SoundCloudUserV2> {
+  const response = await withRetry(() =>
+    soundcloudClient.get(`/users/${userId}`, {
+      params: { client_id: SOUNDCLOUD_CLIENT_ID },
+    })
+  );
+  return mapUserV2(response.data);
+}
+
+/**
+ * Get user's tracks (newest first) with cursor pagination
+ */
+export async function getUserTracks(
+  userId: number,
+  limit: number = 20,
+  cursor?: string | null
+): Promise<SoundCloudPage<SoundCloudTrackV2>> {
+  const page = await getCollectionPage(`/users/${userId}/tracks`, limit, cursor);
+  return {
+    collection: page.collection.filter((item: any) => item.kind === 'track').map(mapTrackV2),
+    nextCursor: page.nextCursor,
+  };
+}
+
+/**
+ * Get user's playlists with cursor pagination (без списка треков - он грузится на странице плейлиста)
+ */
+export async function getUserPlaylists(
+  userId: number,
+  limit: number = 20,
+  cursor?: string | null
+): Promise<SoundCloudPage<SoundCloudPlaylistV2>> {
+  const page = await getCollectionPage(`/users/${userId}/playlists`, limit, cursor);
+  return {
+    collection: page.collection
+      .filter((item: any) => item.kind === 'playlist')
+      .map((item: any) => mapPlaylistV2(item, [])),
+    nextCursor: page.nextCursor,
+  };
+}
+
+export type SoundCloudResolved =
+  | { kind: 'track'; track: SoundCloudTrackV2 }
+  | { kind: 'playlist'; playlist: SoundCloudPlaylistV2 }
+  | { kind: 'user'; user: SoundCloudUserV2 };
+
+// Короткая ссылка on.soundcloud.com отдаёт редирект на полный URL
+async function expandShortLink(url: string): Promise<string | null> {
+  const response = await resolveClient.get(url, {
+    maxRedirects: 0,
+    validateStatus: status => status >= 300 && status < 400,
+  });
+  const location = response.headers.location;
+  return typeof location === 'string' ? new URL(location, url).toString() : null;
+}
+
+/**
+ * Resolve soundcloud.com URL to track / playlist / user.
+ * null - ссылка ни на что не указывает (404) или ведёт на неподдерживаемую сущность
+ */
+export async function resolveUrl(url: string): Promise<SoundCloudResolved | null> {
+  try {
+    const target = isSoundCloudShortLink(url) ? await expandShortLink(url) : url;
+    if (!target) return null;
+
+    const response = await withRetry(() =>
+      soundcloudClient.get('/resolve', {
+        params: { url: target, client_id: SOUNDCLOUD_CLIENT_ID },
+      })
+    );
+    const data = response.data;
+
+    switch (data?.kind) {
+      case 'track':
+        return { kind: 'track', track: mapTrackV2(data) };
+      case 'playlist':
+        // Треки плейлиста грузятся отдельно (getPlaylist) - в resolve они приходят заглушками
+        return { kind: 'playlist', playlist: mapPlaylistV2(data, []) };
+      case 'user':
+        return { kind: 'user', user: mapUserV2(data) };
+      default:
+        return null;
+    }
+  } catch (error) {
+    if (error instanceof AxiosError && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get playlist with full track list V2
+ * (API отдаёт полные данные только для первых треков, остальные догружаем по id)
+ */
+export async function getPlaylist(playlistId: number): Promise<SoundCloudPlaylistV2> {
+  const response = await withRetry(() =>
+    soundcloudClient.get(`/playlists/${playlistId}`, {
+      params: { client_id: SOUNDCLOUD_CLIENT_ID },
+    })
+  );
+  const playlist = response.data;
+  const rawTracks: any[] = playlist.tracks || [];
+
+  const stubIds = rawTracks.filter(t => !t.title).map(t => t.id);
+  const hydrated = new Map<number, SoundCloudTrackV2>();
+  // /tracks?ids= принимает не больше 50 id за раз
+  for (let i = 0; i < stubIds.length; i += 50) {
+    const ids = stubIds.slice(i, i + 50);
+    const batch = await withRetry(() =>
+      soundcloudClient.get('/tracks', {
+        params: { ids: ids.join(','), client_id: SOUNDCLOUD_CLIENT_ID },
+      })
+    );
+    for (const t of batch.data || []) {
+      hydrated.set(t.id, mapTrackV2(t));
+    }
+  }
+
+  return mapPlaylistV2(
+    playlist,
+    rawTracks
+      .map(t => (t.title ? mapTrackV2(t) : hydrated.get(t.id)))
+      .filter((t): t is SoundCloudTrackV2 => Boolean(t))
+  );
+}
+
+// Порядок предпочтения кодеков: mp3 играет везде, opus - не во всех браузерах
+const CODEC_PRIORITY = ["audio/mpeg", "audio/mp4", "audio/aac", "audio/ogg"];
+const QUALITY_PRIORITY = ["hq", "sq"];
+
+function codecRank(mimeType: string): number {
+  const index = CODEC_PRIORITY.findIndex(prefix => mimeType.startsWith(prefix));
+  return index === -1 ? CODEC_PRIORITY.length : index;
+}
+
+function qualityRank(quality: string): number {
+  const index = QUALITY_PRIORITY.indexOf(quality);
+  return index === -1 ? QUALITY_PRIORITY.length : index;
+}
+
+/**
+ * Выбор транскодинга: полные версии раньше превью (snipped),
+ * затем лучшее качество, затем progressive раньше HLS, затем кодек (mp3 > aac > opus)
+ */
+export function selectTranscoding(transcodings: SoundCloudTranscoding[]): SoundCloudTranscoding | null {
+  const playable = transcodings.filter(
+    t => t.format.protocol === 'progressive' || t.format.protocol === 'hls'
+  );
+  if (playable.length === 0) return null;
+
+  const sorted = [...playable].sort((a, b) =>
+    Number(a.snipped) - Number(b.snipped) ||
+    qualityRank(a.quality) - qualityRank(b.quality) ||
+    Number(a.format.protocol !== 'progressive') - Number(b.format.protocol !== 'progressive') ||
+    codecRank(a.format.mime_type) - codecRank(b.format.mime_type)
+  );
+
+  return sorted[0]!;
+}
+
 /**
  * Быстрое получение stream URL (только resolve, без getTrack)
  */
 async function resolveTranscodingUrl(transcodingUrl: string): Promise<string> {
+  if (!isSoundCloudApiUrl(transcodingUrl)) {
+    throw new Error('Untrusted transcoding URL');
+  }
   const response = await resolveClient.get(`${transcodingUrl}?client_id=${SOUNDCLOUD_CLIENT_ID}`);
   
-  if (response.data && response.data.url) {
+  if (response.data && typeof response.data.url === 'string') {
+    if (!isSoundCloudMediaUrl(response.data.url)) {
+      throw new Error('Untrusted stream URL');
+    }
     return response.data.url;
   }
   
   throw new Error('Failed to resolve stream URL');
 }
 
-/**
- * БЫСТРОЕ получение stream URL когда transcodings уже известны
- * Пропускает запрос getTrack - экономит ~500ms
- */
-export async function getStreamUrlFast(trackId: number, transcodings: SoundCloudTranscoding[]): Promise<string> {
-  // Проверяем серверный кэш - мгновенный ответ
-  const cached = getCachedStreamUrl(trackId);
-  if (cached) return cached;
-
-  // Ищем progressive поток (mp3) - грузится быстрее
-  let streamApiUrl = transcodings.find(
-    t => t.format.protocol === 'progressive'
-  )?.url;
-
-  if (!streamApiUrl && transcodings.length > 0) {
-    streamApiUrl = transcodings[0].url;
-  }
-
-  if (!streamApiUrl) {
+async function resolveStream(trackId: number, transcodings: SoundCloudTranscoding[]): Promise<ResolvedStream> {
+  const transcoding = selectTranscoding(transcodings);
+  if (!transcoding) {
     throw new Error('No stream URL found');
   }
 
-  const finalUrl = await resolveTranscodingUrl(streamApiUrl);
-  setCachedStreamUrl(trackId, finalUrl);
-  
-  return finalUrl;
+  const stream: ResolvedStream = {
+    url: await resolveTranscodingUrl(transcoding.url),
+    protocol: transcoding.format.protocol === 'hls' ? 'hls' : 'progressive',
+    mimeType: transcoding.format.mime_type,
+  };
+  setCachedStream(trackId, stream);
+
+  return stream;
 }
 
 /**
- * Получение прямой ссылки на MP3 (с кэшированием)
+ * Резолв потока трека (с кэшированием).
+ * Если transcodings уже известны - пропускаем запрос getTrack, экономит ~500ms
  */
-export async function getStreamUrl(trackId: number): Promise<string> {
-  // Проверяем кэш
-  const cached = getCachedStreamUrl(trackId);
+export async function getStream(trackId: number, transcodings?: SoundCloudTranscoding[]): Promise<ResolvedStream> {
+  // Проверяем серверный кэш - мгновенный ответ
+  const cached = getCachedStream(trackId);
   if (cached) return cached;
 
+  // Транскодинги от клиента - только подсказка: чужие ссылки отбрасываем и берём трек целиком
+  const trusted = transcodings?.filter(t => isTranscodingOfTrack(t.url, trackId)) ?? [];
+  if (trusted.length > 0) {
+    return await resolveStream(trackId, trusted);
+  }
+
   try {
     const track = await getTrack(trackId);
     
@@ -275,23 +645,7 @@ export async function getStreamUrl(trackId: number): Promise<string> {
       throw new Error('No media transcodings found');
     }
 
-    // Ищем progressive поток (mp3)
-    let streamApiUrl = track.media.transcodings.find(
-      t => t.format.protocol === 'progressive'
-    )?.url;
-
-    if (!streamApiUrl && track.media.transcodings.length > 0) {
-      streamApiUrl = track.media.transcodings[0].url;
-    }
-
-    if (!streamApiUrl) {
-      throw new Error('No stream URL found in transcodings');
-    }
-
-    const finalUrl = await resolveTranscodingUrl(streamApiUrl);
-    setCachedStreamUrl(trackId, finalUrl);
-    
-    return finalUrl;
+    return await resolveStream(trackId, track.media.transcodings);
   } catch (error) {
     console.error('Error getting stream URL:', error instanceof Error ? error.message : error);
     throw new Error('Failed to get stream URL');
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { isSoundCloudShortLink, parseSoundCloudUrl } from "@shared/soundcloudUrl";
+
+describe("parseSoundCloudUrl", () => {
+  it("normalizes track, playlist and profile links", () => {
+    expect(parseSoundCloudUrl("https://soundcloud.com/artist/track-name")).toBe(
+      "https://soundcloud.com/artist/track-name"
+    );
+    expect(parseSoundCloudUrl("  http://www.soundcloud.com/artist/sets/mix/  ")).toBe(
+      "https://soundcloud.com/artist/sets/mix"
+    );
+    expect(parseSoundCloudUrl("m.soundcloud.com/artist")).toBe("https://soundcloud.com/artist");
+  });
+
+  it("drops query string and hash", () => {
+    expect(parseSoundCloudUrl("https://soundcloud.com/artist/track?in=artist/sets/mix&si=abc#t=1:00")).toBe(
+      "https://soundcloud.com/artist/track"
+    );
+  });
+
+  it("keeps short links for server-side expansion", () => {
+    const url = parseSoundCloudUrl("https://on.soundcloud.com/AbC123?utm_source=x");
+    expect(url).toBe("https://on.soundcloud.com/AbC123");
+    expect(isSoundCloudShortLink(url!)).toBe(true);
+  });
+
+  it("ignores plain text and other hosts", () => {
+    expect(parseSoundCloudUrl("lo-fi beats")).toBeNull();
+    expect(parseSoundCloudUrl("soundcloud")).toBeNull();
+    expect(parseSoundCloudUrl("https://soundcloud.com/")).toBeNull();
+    expect(parseSoundCloudUrl("https://evil.com/soundcloud.com/artist")).toBeNull();
+    expect(parseSoundCloudUrl("https://soundcloud.com.evil.com/artist")).toBeNull();
+  });
+});
@@ -100,3 +100,9 @@ export async function storageGet(relKey: string): Promise<{ key: string; url: st
     url: await buildDownloadUrl(baseUrl, key, apiKey),
   };
 }
+
+// Прокси хранилища умеет только загрузку и выдачу ссылок, удаления в нём нет:
+// затираем объект пустым файлом, чтобы по старой ссылке больше ничего не отдавалось
+export async function storageErase(relKey: string): Promise<void> {
+  await storagePut(relKey, "", "application/octet-stream");
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { parseHlsPlaylist, parseRange } from "./hls";
+import {
+  isSoundCloudMediaUrl,
+  isTranscodingOfTrack,
+  selectTranscoding,
+  type SoundCloudTranscoding,
+} from "./soundcloud";
+
+function transcoding(
+  protocol: string,
+  mimeType: string,
+  quality: string = "sq",
+  snipped: boolean = false
+): SoundCloudTranscoding {
+  return {
+    url: `https://api-v2.soundcloud.com/media/${protocol}/${mimeType}/${quality}`,
+    preset: mimeType,
+    duration: 180000,
+    snipped,
+    format: { protocol, mime_type: mimeType },
+    quality,
+  };
+}
+
+describe("selectTranscoding", () => {
+  it("prefers progressive mp3 over HLS", () => {
+    const selected = selectTranscoding([
+      transcoding("hls", "audio/mpeg"),
+      transcoding("progressive", "audio/mpeg"),
+    ]);
+    expect(selected?.format.protocol).toBe("progressive");
+  });
+
+  it("picks HLS by codec when no progressive stream exists", () => {
+    const selected = selectTranscoding([
+      transcoding("hls", 'audio/ogg; codecs="opus"'),
+      transcoding("hls", 'audio/mp4; codecs="mp4a.40.2"'),
+    ]);
+    expect(selected?.format.mime_type).toContain("audio/mp4");
+  });
+
+  it("prefers higher quality and full versions over previews", () => {
+    const selected = selectTranscoding([
+      transcoding("progressive", "audio/mpeg", "hq", true),
+      transcoding("progressive", "audio/mpeg", "sq"),
+      transcoding("hls", 'audio/mp4; codecs="mp4a.40.2"', "hq"),
+    ]);
+    expect(selected?.quality).toBe("hq");
+    expect(selected?.snipped).toBe(false);
+  });
+
+  it("returns null when nothing is playable", () => {
+    expect(selectTranscoding([transcoding("encrypted-hls", "audio/mpeg")])).toBeNull();
+  });
+});
+
+describe("stream URL allowlist", () => {
+  it("accepts only transcodings of the requested track on the SoundCloud API", () => {
+    const url = "https://api-v2.soundcloud.com/media/soundcloud:tracks:42/abc/stream/progressive";
+    expect(isTranscodingOfTrack(url, 42)).toBe(true);
+    expect(isTranscodingOfTrack(url, 43)).toBe(false);
+    expect(isTranscodingOfTrack("https://api-v2.soundcloud.com@169.254.169.254/media/soundcloud:tracks:42/", 42)).toBe(false);
+    expect(isTranscodingOfTrack("http://api-v2.soundcloud.com/media/soundcloud:tracks:42/abc", 42)).toBe(false);
+  });
+
+  it("accepts media only from SoundCloud CDN hosts", () => {
+    expect(isSoundCloudMediaUrl("https://cf-media.sndcdn.com/abc.128.mp3?Policy=x")).toBe(true);
+    expect(isSoundCloudMediaUrl("https://playback.media-streaming.soundcloud.cloud/abc/playlist.m3u8")).toBe(true);
+    expect(isSoundCloudMediaUrl("https://localhost/abc.mp3")).toBe(false);
+    expect(isSoundCloudMediaUrl("https://evilsndcdn.com/abc.mp3")).toBe(false);
+    expect(isSoundCloudMediaUrl("https://cf-media.sndcdn.com:8080/abc.mp3")).toBe(false);
+  });
+});
+
+describe("parseHlsPlaylist", () => {
+  it("resolves init and media segments against the playlist URL", () => {
+    const playlist = [
+      "#EXTM3U",
+      "#EXT-X-VERSION:6",
+      '#EXT-X-MAP:URI="init.mp4"',
+      "#EXTINF:10.0,",
+      "seg-0.m4s",
+      "#EXTINF:10.0,",
+      "https://cdn.example.com/seg-1.m4s",
+      "#EXT-X-ENDLIST",
+    ].join("\n");
+
+    expect(parseHlsPlaylist(playlist, "https://cdn.example.com/track/playlist.m3u8")).toEqual([
+      "https://cdn.example.com/track/init.mp4",
+      "https://cdn.example.com/track/seg-0.m4s",
+      "https://cdn.example.com/seg-1.m4s",
+    ]);
+  });
+});
+
+describe("parseRange", () => {
+  it("handles open, closed and suffix ranges", () => {
+    expect(parseRange(undefined, 1000)).toBeUndefined();
+    expect(parseRange("bytes=100-", 1000)).toEqual({ start: 100, end: 999 });
+    expect(parseRange("bytes=0-1", 1000)).toEqual({ start: 0, end: 1 });
+    expect(parseRange("bytes=-200", 1000)).toEqual({ start: 800, end: 999 });
+    expect(parseRange("bytes=900-5000", 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it("reports unsatisfiable ranges", () => {
+    expect(parseRange("bytes=1000-", 1000)).toBeNull();
+    expect(parseRange("bytes=500-100", 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import type { Express, Request, Response } from "express";
+import { createReadStream, promises as fs } from "fs";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { HlsExpiredError, HlsLayout, isExpiredStatus, loadHlsLayout, parseRange, readHlsRange } from "./hls";
+import { authorizeLocalLibraryRequest, LOCAL_PROVIDER_ID } from "./localLibrary";
+import { getProvider, MusicProvider, parseTrackRef, type ResolvedStream } from "./providers";
+import { isSoundCloudMediaUrl } from "./soundcloud";
+
+// Заголовки ответа CDN, которые нужны <audio> для перемотки
+const FORWARDED_HEADERS = [
+  "content-type",
+  "content-length",
+  "content-range",
+  "accept-ranges",
+  "last-modified",
+  "etag",
+];
+
+export function streamProxyPath(trackRef: string): string {
+  return `/api/stream/${encodeURIComponent(trackRef)}`;
+}
+
+/**
+ * Запрос к CDN с пробросом Range по уже зарезолвленной ссылке.
+ * Если ссылка протухла - просим провайдера зарезолвить её заново (один раз)
+ */
+async function openUpstream(
+  provider: MusicProvider,
+  trackId: string,
+  stream: ResolvedStream,
+  range: string | undefined,
+  signal: AbortSignal
+): Promise<globalThis.Response> {
+  const request = async (url: string) => {
+    if (!isSoundCloudMediaUrl(url)) {
+      throw new Error("Untrusted stream URL");
+    }
+    return fetch(url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
+        ...(range ? { Range: range } : {}),
+      },
+      signal,
+    });
+  };
+
+  const response = await request(stream.url);
+  if (!isExpiredStatus(response.status)) {
+    return response;
+  }
+
+  await response.body?.cancel();
+  const fresh = await provider.resolveStream(trackId, { forceRefresh: true });
+  return await request(fresh.url);
+}
+
+/**
+ * Раскладка HLS по уже зарезолвленной ссылке; без stream (или если она протухла)
+ * резолвим ссылку заново в обход кэша
+ */
+async function loadHls(
+  provider: MusicProvider,
+  trackId: string,
+  signal: AbortSignal,
+  stream?: ResolvedStream
+): Promise<HlsLayout> {
+  const reload = async () => {
+    const fresh = await provider.resolveStream(trackId, { forceRefresh: true });
+    return await loadHlsLayout(fresh.url, signal);
+  };
+  if (!stream) return await reload();
+
+  try {
+    return await loadHlsLayout(stream.url, signal);
+  } catch (error) {
+    if (!(error instanceof HlsExpiredError)) throw error;
+    return await reload();
+  }
+}
+
+function pipeBody(body: Readable, res: Response, signal: AbortSignal) {
+  body.on("error", (error) => {
+    if (!signal.aborted) {
+      console.error("[Stream] Upstream error:", error.message);
+    }
+    res.destroy();
+  });
+  body.pipe(res);
+}
+
+async function proxyProgressive(
+  provider: MusicProvider,
+  trackId: string,
+  stream: ResolvedStream,
+  req: Request,
+  res: Response,
+  signal: AbortSignal
+) {
+  const upstream = await openUpstream(provider, trackId, stream, req.headers.range, signal);
+
+  if (!upstream.ok && upstream.status !== 416) {
+    await upstream.body?.cancel();
+    res.status(502).json({ error: `Upstream responded with ${upstream.status}` });
+    return;
+  }
+
+  res.status(upstream.status);
+  for (const name of FORWARDED_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) res.setHeader(name, value);
+  }
+  if (!res.getHeader("accept-ranges")) {
+    res.setHeader("Accept-Ranges", "bytes");
+  }
+
+  if (!upstream.body || req.method === "HEAD") {
+    await upstream.body?.cancel();
+    res.end();
+    return;
+  }
+
+  pipeBody(Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>), res, signal);
+}
+
+// HLS склеиваем в один поток, Range считаем по размерам сегментов
+async function proxyHls(
+  provider: MusicProvider,
+  trackId: string,
+  stream: ResolvedStream,
+  req: Request,
+  res: Response,
+  signal: AbortSignal
+) {
+  const layout = await loadHls(provider, trackId, signal, stream);
+  const totalSize = layout.totalSize;
+  const range = totalSize !== null ? parseRange(req.headers.range, totalSize) : undefined;
+
+  res.setHeader("Content-Type", stream.mimeType);
+  res.setHeader("Accept-Ranges", totalSize !== null ? "bytes" : "none");
+
+  if (range === null) {
+    res.status(416).setHeader("Content-Range", `bytes */${totalSize}`);
+    res.end();
+    return;
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${totalSize}`);
+    res.setHeader("Content-Length", String(range.end - range.start + 1));
+  } else {
+    res.status(200);
+    if (totalSize !== null) res.setHeader("Content-Length", String(totalSize));
+  }
+
+  if (req.method === "HEAD") {
+    res.end();
+    return;
+  }
+
+  const chunks = readHlsRange(layout, range, signal, () => loadHls(provider, trackId, signal));
+  pipeBody(Readable.from(chunks), res, signal);
+}
+
+// Файл с диска сервера (локальная медиатека)
+async function proxyFile(filePath: string, mimeType: string, req: Request, res: Response, signal: AbortSignal) {
+  let size: number;
+  try {
+    size = (await fs.stat(filePath)).size;
+  } catch {
+    res.status(404).json({ error: "File not found" });
+    return;
+  }
+
+  const range = parseRange(req.headers.range, size);
+  res.setHeader("Content-Type", mimeType);
+  res.setHeader("Accept-Ranges", "bytes");
+
+  if (range === null) {
+    res.status(416).setHeader("Content-Range", `bytes */${size}`);
+    res.end();
+    return;
+  }
+
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  res.status(range ? 206 : 200);
+  if (range) res.setHeader("Content-Range", `bytes ${start}-${end}/${size}`);
+  res.setHeader("Content-Length", String(end - start + 1));
+
+  if (req.method === "HEAD" || size === 0) {
+    res.end();
+    return;
+  }
+
+  pipeBody(createReadStream(filePath, { start, end, signal }), res, signal);
+}
+
+export function registerStreamRoutes(app: Express) {
+  // :trackRef - provider-qualified id ("local:42"), голый id - трек SoundCloud
+  app.get("/api/stream/:trackRef", async (req: Request, res: Response) => {
+    const { provider: providerId, externalId } = parseTrackRef(req.params.trackRef);
+    let provider: MusicProvider;
+    try {
+      provider = getProvider(providerId);
+    } catch {
+      res.status(404).json({ error: `Unknown provider: ${providerId}` });
+      return;
+    }
+    if (!externalId) {
+      res.status(400).json({ error: "Invalid track id" });
+      return;
+    }
+    if (provider.id === LOCAL_PROVIDER_ID && !(await authorizeLocalLibraryRequest(req, res))) return;
+
+    // Браузер обрывает запрос при перемотке - обрываем и запрос к CDN
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    try {
+      const stream = await provider.resolveStream(externalId);
+      // Ссылка на CDN живёт ограниченное время, поэтому сам ответ не кэшируем
+      res.setHeader("Cache-Control", "private, no-store");
+
+      if (stream.protocol === "file") {
+        await proxyFile(stream.url, stream.mimeType, req, res, controller.signal);
+      } else if (stream.protocol === "hls") {
+        await proxyHls(provider, externalId, stream, req, res, controller.signal);
+      } else {
+        await proxyProgressive(provider, externalId, stream, req, res, controller.signal);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("[Stream] Failed to proxy track", req.params.trackRef, error instanceof Error ? error.message : error);
+      if (!res.headersSent) {
+        res.status(502).json({ error: "Failed to load stream" });
+      } else {
+        res.destroy();
+      }
+    }
+  });
+}
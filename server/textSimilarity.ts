@@ -0,0 +1,52 @@
+export type TextNormalizer = (text: string) => string;
+
+// Регистр и пунктуация не учитываются, кириллица сравнивается так же, как латиница
+export const normalizeText: TextNormalizer = (text) =>
+  text.toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Исходная нормализация VideoScorer: \w - только латиница, цифры и _, остальные буквы выпадают.
+// Пороги скорера подобраны под неё, поэтому он продолжает пользоваться ею
+export const normalizeAsciiText: TextNormalizer = (text) =>
+  text.toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Схожесть двух строк 0-100 (упрощенный алгоритм): точное совпадение,
+ * вхождение одной строки в другую, иначе доля общих слов
+ */
+export function calculateTextSimilarity(
+  text1: string,
+  text2: string,
+  normalize: TextNormalizer = normalizeText
+): number {
+  const norm1 = normalize(text1);
+  const norm2 = normalize(text2);
+
+  if (!norm1 || !norm2) return 0;
+
+  // Проверяем точное совпадение
+  if (norm1 === norm2) return 100;
+
+  // Проверяем включение одной строки в другую
+  if (norm1.includes(norm2) || norm2.includes(norm1)) {
+    const shorter = Math.min(norm1.length, norm2.length);
+    const longer = Math.max(norm1.length, norm2.length);
+    return Math.round((shorter / longer) * 100);
+  }
+
+  // Считаем общие слова
+  const words1 = new Set(norm1.split(' '));
+  const words2 = new Set(norm2.split(' '));
+
+  if (words1.size === 0 || words2.size === 0) return 0;
+
+  const common = new Set([...words1].filter(x => words2.has(x)));
+  const total = new Set([...words1, ...words2]);
+
+  return Math.round((common.size / total.size) * 100);
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { computeItemSimilarities, DEFAULT_SIMILARITY_OPTIONS } from "./trackSimilarity";
+import type { TrackInteraction } from "./db";
+
+const at = new Date("2024-06-30T12:00:00Z");
+
+function interactions(byUser: Record<number, number[]>): TrackInteraction[] {
+  return Object.entries(byUser).flatMap(([userId, trackIds]) =>
+    trackIds.map(trackId => ({ userId: Number(userId), trackId, at }))
+  );
+}
+
+describe("computeItemSimilarities", () => {
+  it("scores co-occurring tracks by cosine and ignores pairs seen by one user", () => {
+    const pairs = computeItemSimilarities(interactions({
+      1: [10, 20, 30],
+      2: [10, 20],
+      3: [10, 20, 40],
+      4: [10],
+    }));
+
+    const from10 = pairs.filter(p => p.trackId === 10);
+    // 10 есть у 4 человек, 20 - у 3, вместе у 3: 3 / sqrt(12)
+    expect(from10).toEqual([{ trackId: 10, similarTrackId: 20, score: 3 / Math.sqrt(12), coUsers: 3 }]);
+    expect(pairs.find(p => p.trackId === 20 && p.similarTrackId === 10)).toBeDefined();
+    expect(pairs.some(p => p.trackId === 30 || p.trackId === 40)).toBe(false);
+  });
+
+  it("counts only the most recent tracks of each user and keeps the top neighbours", () => {
+    const older = new Date(at.getTime() - 1000);
+    const pairs = computeItemSimilarities(
+      [
+        ...interactions({ 1: [1, 2, 3], 2: [1, 2, 3] }),
+        { userId: 1, trackId: 4, at: older },
+        { userId: 2, trackId: 4, at: older },
+      ],
+      { ...DEFAULT_SIMILARITY_OPTIONS, maxItemsPerUser: 3, neighboursPerTrack: 1 }
+    );
+
+    expect(pairs.some(p => p.similarTrackId === 4)).toBe(false);
+    expect(pairs.filter(p => p.trackId === 1).map(p => p.similarTrackId)).toEqual([2]);
+  });
+});
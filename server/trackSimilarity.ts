@@ -0,0 +1,125 @@
+import * as db from "./db";
+import type { TrackInteraction } from "./db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SIMILARITY_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const SIMILARITY_START_DELAY_MS = 2 * 60 * 1000;
+// Прослушивания старше полугода вкус уже не описывают; лайки берём за всё время (последние maxItemsPerUser)
+const HISTORY_WINDOW_MS = 180 * DAY_MS;
+// Прослушивание короче - скорее пропуск, чем интерес
+const MIN_PLAY_MS = 30_000;
+
+export interface SimilarityOptions {
+  // Сколько последних треков пользователя участвует в подсчёте: пар получается n², без
+  // ограничения один активный слушатель раздувает матрицу сильнее всех остальных
+  maxItemsPerUser: number;
+  // Пару, которую встретили у одного человека, считаем случайной
+  minCoUsers: number;
+  neighboursPerTrack: number;
+}
+
+export const DEFAULT_SIMILARITY_OPTIONS: SimilarityOptions = {
+  maxItemsPerUser: 100,
+  minCoUsers: 2,
+  neighboursPerTrack: 50,
+};
+
+export type TrackSimilarityPair = {
+  trackId: number;
+  similarTrackId: number;
+  score: number;
+  coUsers: number;
+};
+
+/**
+ * Item-item коллаборативная фильтрация: два трека похожи, если их любят одни и те же люди.
+ * score - косинус по бинарным векторам пользователей: co / sqrt(n(a) * n(b))
+ */
+export function computeItemSimilarities(
+  interactions: TrackInteraction[],
+  options: SimilarityOptions = DEFAULT_SIMILARITY_OPTIONS
+): TrackSimilarityPair[] {
+  // userId -> trackId -> время последнего сигнала
+  const byUser = new Map<number, Map<number, number>>();
+  for (const { userId, trackId, at } of interactions) {
+    const items = byUser.get(userId) ?? new Map<number, number>();
+    items.set(trackId, Math.max(items.get(trackId) ?? 0, at.getTime()));
+    byUser.set(userId, items);
+  }
+
+  const trackUsers = new Map<number, number>();
+  // Пары храним один раз: меньший id -> больший id -> число общих пользователей
+  const coCounts = new Map<number, Map<number, number>>();
+  for (const items of Array.from(byUser.values())) {
+    const trackIds = Array.from(items.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.maxItemsPerUser)
+      .map(([trackId]) => trackId)
+      .sort((a, b) => a - b);
+
+    for (let i = 0; i < trackIds.length; i++) {
+      trackUsers.set(trackIds[i], (trackUsers.get(trackIds[i]) ?? 0) + 1);
+      const row = coCounts.get(trackIds[i]) ?? new Map<number, number>();
+      for (let j = i + 1; j < trackIds.length; j++) {
+        row.set(trackIds[j], (row.get(trackIds[j]) ?? 0) + 1);
+      }
+      coCounts.set(trackIds[i], row);
+    }
+  }
+
+  const neighbours = new Map<number, TrackSimilarityPair[]>();
+  const addNeighbour = (pair: TrackSimilarityPair) => {
+    const list = neighbours.get(pair.trackId) ?? [];
+    list.push(pair);
+    neighbours.set(pair.trackId, list);
+  };
+
+  for (const [a, row] of Array.from(coCounts.entries())) {
+    for (const [b, coUsers] of Array.from(row.entries())) {
+      if (coUsers < options.minCoUsers) continue;
+      const score = coUsers / Math.sqrt(trackUsers.get(a)! * trackUsers.get(b)!);
+      addNeighbour({ trackId: a, similarTrackId: b, score, coUsers });
+      addNeighbour({ trackId: b, similarTrackId: a, score, coUsers });
+    }
+  }
+
+  return Array.from(neighbours.values()).flatMap(list =>
+    list
+      .sort((x, y) => y.score - x.score || y.coUsers - x.coUsers || x.similarTrackId - y.similarTrackId)
+      .slice(0, options.neighboursPerTrack)
+  );
+}
+
+export async function rebuildTrackSimilarities(
+  options: SimilarityOptions = DEFAULT_SIMILARITY_OPTIONS
+): Promise<void> {
+  const interactions = await db.getPositiveInteractions(
+    new Date(Date.now() - HISTORY_WINDOW_MS),
+    MIN_PLAY_MS,
+    options.maxItemsPerUser
+  );
+  // Пустая выборка - скорее нет БД, чем нет данных: прошлый результат не затираем
+  if (interactions.length === 0) return;
+
+  await db.replaceTrackSimilarities(computeItemSimilarities(interactions, options));
+}
+
+/**
+ * Пересчёт похожести в фоне. Считается по всей базе, поэтому редко:
+ * раз в несколько часов вкус слушателей заметно не меняется
+ */
+export function startTrackSimilarityJob() {
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    rebuildTrackSimilarities()
+      .catch(error => console.error("[Similarity] Rebuild failed:", error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  setTimeout(tick, SIMILARITY_START_DELAY_MS).unref();
+  setInterval(tick, SIMILARITY_INTERVAL_MS).unref();
+}
@@ -3,6 +3,8 @@
  * Основана на логике из Python скрипта youtube_music_finder.py
  */
 
+import { calculateTextSimilarity, normalizeAsciiText } from "./textSimilarity";
+
 interface VideoMetadata {
   videoId: string;
   title: string;
@@ -73,38 +75,7 @@ export class VideoScorer {
    * Вычисляет схожесть двух строк (упрощенный алгоритм)
    */
   private calculateTextSimilarity(text1: string, text2: string): number {
-    const normalize = (text: string): string => {
-      return text.toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-    };
-
-    const norm1 = normalize(text1);
-    const norm2 = normalize(text2);
-
-    if (!norm1 || !norm2) return 0;
-
-    // Проверяем точное совпадение
-    if (norm1 === norm2) return 100;
-
-    // Проверяем включение одной строки в другую
-    if (norm1.includes(norm2) || norm2.includes(norm1)) {
-      const shorter = Math.min(norm1.length, norm2.length);
-      const longer = Math.max(norm1.length, norm2.length);
-      return Math.round((shorter / longer) * 100);
-    }
-
-    // Считаем общие слова
-    const words1 = new Set(norm1.split(' '));
-    const words2 = new Set(norm2.split(' '));
-
-    if (words1.size === 0 || words2.size === 0) return 0;
-
-    const common = new Set([...words1].filter(x => words2.has(x)));
-    const total = new Set([...words1, ...words2]);
-
-    return Math.round((common.size / total.size) * 100);
+    return calculateTextSimilarity(text1, text2, normalizeAsciiText);
   }
 
   /**
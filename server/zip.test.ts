@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { inflateRawSync } from "zlib";
+import { crc32, createZip } from "./zip";
+
+describe("crc32", () => {
+  it("matches the standard check values", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  it("writes entries that can be read back", () => {
+    const text = "{\"name\":\"Кино\"}".repeat(20);
+    const zip = createZip([{ name: "данные.json", data: text }, { name: "empty.txt", data: "" }]);
+
+    // End of central directory: два файла
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(2);
+
+    // Первый локальный заголовок и сжатые данные за ним
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const nameLength = zip.readUInt16LE(26);
+    const compressedSize = zip.readUInt32LE(18);
+    expect(zip.subarray(30, 30 + nameLength).toString("utf8")).toBe("данные.json");
+
+    const data = inflateRawSync(zip.subarray(30 + nameLength, 30 + nameLength + compressedSize));
+    expect(data.toString("utf8")).toBe(text);
+    expect(zip.readUInt32LE(14)).toBe(crc32(data));
+  });
+});
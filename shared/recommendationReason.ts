@@ -0,0 +1,42 @@
+/**
+ * Почему трек попал в рекомендации. Сервер кладёт это в track.recommendation
+ * у треков миксов, клиент показывает подсказкой на карточке трека
+ */
+export type RecommendationReason =
+  // Похож на трек, который пользователь лайкнул или слушал
+  | { type: "seed"; seedTitle: string; source: "like" | "history" }
+  // Найден по одному из любимых жанров
+  | { type: "genre"; genre: string }
+  // Найден по одному из любимых исполнителей
+  | { type: "artist"; artist: string }
+  // Его слушают пользователи с похожим вкусом
+  | { type: "collaborative" }
+  // Знакомый трек из лайков пользователя (Daily Mix перемешивает их с новыми)
+  | { type: "liked" }
+  // Общая подборка, не завязанная на вкус (мало данных, медиатека, топ)
+  | { type: "fallback"; source: string };
+
+export interface TrackRecommendation {
+  reason: RecommendationReason;
+  // Составляющие оценки для отладки: имя -> значение (rank - место в исходной выдаче, с 1)
+  breakdown: Record<string, number>;
+}
+
+export function describeRecommendationReason(reason: RecommendationReason): string {
+  switch (reason.type) {
+    case "seed":
+      return reason.source === "like"
+        ? `Похож на «${reason.seedTitle}», который вам понравился`
+        : `Похож на «${reason.seedTitle}», который вы слушали`;
+    case "genre":
+      return `Жанр ${reason.genre} - один из ваших любимых`;
+    case "artist":
+      return `Вы часто слушаете ${reason.artist}`;
+    case "collaborative":
+      return "Его слушают люди с похожим вкусом";
+    case "liked":
+      return "Вы лайкнули этот трек";
+    case "fallback":
+      return `Из подборки «${reason.source}»`;
+  }
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+/**
+ * Правила умного плейлиста. Хранятся JSON-ом в playlists.smartRules,
+ * треки подбираются на сервере при каждом открытии плейлиста
+ */
+export const smartRuleSchema = z.discriminatedUnion("type", [
+  // Жанр - один из списка (без учёта регистра)
+  z.object({ type: z.literal("genre"), genres: z.array(z.string().trim().min(1).max(64)).min(1).max(20) }),
+  // Имя исполнителя содержит строку
+  z.object({ type: z.literal("artist"), value: z.string().trim().min(1).max(255) }),
+  // Лайкнут; withinDays - только за последние N дней
+  z.object({ type: z.literal("liked"), withinDays: z.number().int().min(1).max(3650).optional() }),
+  // Число прослушиваний больше/меньше N
+  z.object({ type: z.literal("playCount"), op: z.enum(["gt", "lt"]), value: z.number().int().min(0).max(100_000) }),
+  // Длительность короче/длиннее N секунд
+  z.object({ type: z.literal("duration"), op: z.enum(["lt", "gt"]), seconds: z.number().int().min(0).max(36_000) }),
+  // Слушал последний раз в пределах / раньше N дней назад
+  z.object({ type: z.literal("lastPlayed"), op: z.enum(["within", "before"]), days: z.number().int().min(1).max(3650) }),
+  // Начинал, но ни разу не дослушал
+  z.object({ type: z.literal("neverFinished") }),
+]);
+
+export const SMART_PLAYLIST_SORTS = ["recentlyPlayed", "recentlyLiked", "mostPlayed", "title", "random"] as const;
+
+export const smartPlaylistRulesSchema = z.object({
+  match: z.enum(["all", "any"]).default("all"),
+  rules: z.array(smartRuleSchema).min(1).max(20),
+  sort: z.enum(SMART_PLAYLIST_SORTS).default("recentlyPlayed"),
+  limit: z.number().int().min(1).max(500).default(100),
+});
+
+export type SmartRule = z.infer<typeof smartRuleSchema>;
+export type SmartRuleType = SmartRule["type"];
+export type SmartPlaylistSort = (typeof SMART_PLAYLIST_SORTS)[number];
+export type SmartPlaylistRules = z.infer<typeof smartPlaylistRulesSchema>;
+
+// Доля длительности, прослушав которую трек считается дослушанным
+export const FINISHED_PLAY_RATIO = 0.9;
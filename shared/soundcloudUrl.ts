@@ -0,0 +1,35 @@
+const SOUNDCLOUD_HOSTS = new Set(["soundcloud.com", "www.soundcloud.com", "m.soundcloud.com"]);
+const SHORT_LINK_HOST = "on.soundcloud.com";
+
+/**
+ * Распознаёт ссылку на SoundCloud в строке поиска.
+ * Возвращает нормализованный URL (https, без query/hash, m. и www. убраны) или null.
+ * Короткие ссылки on.soundcloud.com возвращаются как есть - их раскрывает сервер
+ */
+export function parseSoundCloudUrl(input: string): string | null {
+  const text = input.trim();
+  if (!text || /\s/.test(text)) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (host === SHORT_LINK_HOST) {
+    return url.pathname.length > 1 ? `https://${SHORT_LINK_HOST}${url.pathname}` : null;
+  }
+  if (!SOUNDCLOUD_HOSTS.has(host)) return null;
+
+  const path = url.pathname.replace(/\/+$/, "");
+  // Нужен хотя бы профиль: soundcloud.com/<user>
+  if (!path || path === "/") return null;
+
+  return `https://soundcloud.com${path}`;
+}
+
+export function isSoundCloudShortLink(url: string): boolean {
+  return url.startsWith(`https://${SHORT_LINK_HOST}/`);
+}
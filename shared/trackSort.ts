@@ -0,0 +1,31 @@
+export type TrackSearchSort = "relevance" | "newest" | "oldest" | "popular" | "longest" | "shortest";
+
+interface SortableTrack {
+  duration: number;
+  created_at: string;
+  playback_count?: number | null;
+}
+
+/**
+ * Сортировка результатов поиска. relevance - порядок каталога как есть.
+ * У каталога с курсорной выдачей глобального порядка нет: сервер сортирует страницу,
+ * клиент - всё, что успел загрузить
+ */
+export function sortTracks<T extends SortableTrack>(tracks: T[], sort: TrackSearchSort = "relevance"): T[] {
+  const createdAt = (t: T) => new Date(t.created_at).getTime() || 0;
+
+  switch (sort) {
+    case "newest":
+      return [...tracks].sort((a, b) => createdAt(b) - createdAt(a));
+    case "oldest":
+      return [...tracks].sort((a, b) => createdAt(a) - createdAt(b));
+    case "popular":
+      return [...tracks].sort((a, b) => (b.playback_count ?? 0) - (a.playback_count ?? 0));
+    case "longest":
+      return [...tracks].sort((a, b) => b.duration - a.duration);
+    case "shortest":
+      return [...tracks].sort((a, b) => a.duration - b.duration);
+    default:
+      return tracks;
+  }
+}